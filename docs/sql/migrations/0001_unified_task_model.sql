@@ -0,0 +1,92 @@
+-- 0001: Unified task model
+-- Brings public.tasks to the canonical shape in src/models/task.model.ts:
+--   content, description, status, priority, tags, due_date, due_time,
+--   completed_at, created_at, updated_at
+-- Idempotent; rows written by the old REST controller (title/description/completed)
+-- are carried over.
+
+begin;
+
+create table if not exists public.schema_migrations (
+  version text primary key,
+  applied_at timestamptz not null default now()
+);
+
+-- 1) New columns
+alter table public.tasks add column if not exists description text;
+alter table public.tasks add column if not exists status text not null default 'pending';
+alter table public.tasks add column if not exists priority text not null default 'medium';
+alter table public.tasks add column if not exists tags text[] not null default '{}';
+alter table public.tasks add column if not exists due_time time;
+alter table public.tasks add column if not exists completed_at timestamptz;
+alter table public.tasks add column if not exists updated_at timestamptz not null default now();
+
+-- 2) Carry over legacy REST columns, if present
+do $$
+begin
+  if exists (
+    select 1 from information_schema.columns
+    where table_schema = 'public' and table_name = 'tasks' and column_name = 'title'
+  ) then
+    alter table public.tasks alter column content drop not null;
+    update public.tasks set content = title where content is null;
+    alter table public.tasks drop column title;
+  end if;
+
+  if exists (
+    select 1 from information_schema.columns
+    where table_schema = 'public' and table_name = 'tasks' and column_name = 'completed'
+  ) then
+    update public.tasks
+      set status = 'completed', completed_at = coalesce(completed_at, created_at)
+      where completed is true;
+    alter table public.tasks drop column completed;
+  end if;
+end $$;
+
+update public.tasks set content = '(untitled)' where content is null or btrim(content) = '';
+alter table public.tasks alter column content set not null;
+
+-- 3) Constraints
+alter table public.tasks drop constraint if exists tasks_status_check;
+alter table public.tasks add constraint tasks_status_check
+  check (status in ('pending', 'in_progress', 'completed'));
+
+alter table public.tasks drop constraint if exists tasks_priority_check;
+alter table public.tasks add constraint tasks_priority_check
+  check (priority in ('low', 'medium', 'high', 'urgent'));
+
+alter table public.tasks drop constraint if exists tasks_content_length_check;
+alter table public.tasks add constraint tasks_content_length_check
+  check (char_length(content) between 1 and 500);
+
+alter table public.tasks drop constraint if exists tasks_due_time_requires_date_check;
+alter table public.tasks add constraint tasks_due_time_requires_date_check
+  check (due_time is null or due_date is not null);
+
+-- 4) Keep updated_at current
+create or replace function public.set_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+drop trigger if exists tasks_set_updated_at on public.tasks;
+create trigger tasks_set_updated_at
+  before update on public.tasks
+  for each row execute function public.set_updated_at();
+
+-- 5) Indexes for status/priority/tag filtering
+create index if not exists idx_tasks_user_status_due
+  on public.tasks (user_id, status, due_date);
+create index if not exists idx_tasks_tags
+  on public.tasks using gin (tags);
+
+insert into public.schema_migrations (version) values ('0001_unified_task_model')
+  on conflict (version) do nothing;
+
+commit;
@@ -0,0 +1,23 @@
+-- 0002: Sortable task priority
+-- priority is stored as text; priority_rank orders it low < medium < high < urgent so
+-- listings can sort by priority in the query.
+
+begin;
+
+alter table public.tasks add column if not exists priority_rank smallint
+  generated always as (
+    case priority
+      when 'low' then 0
+      when 'medium' then 1
+      when 'high' then 2
+      when 'urgent' then 3
+    end
+  ) stored;
+
+create index if not exists idx_tasks_user_priority
+  on public.tasks (user_id, priority_rank desc, due_date);
+
+insert into public.schema_migrations (version) values ('0002_task_priority_rank')
+  on conflict (version) do nothing;
+
+commit;
@@ -0,0 +1,60 @@
+-- 0003: Recurring tasks and reminders
+-- tasks.recurrence holds an RRULE subset (FREQ=DAILY|WEEKLY|MONTHLY, INTERVAL, BYDAY,
+-- BYMONTHDAY, UNTIL); tasks.remind_at is when the next reminder fires and is cleared once
+-- it has. public.reminders records every fired reminder: unique per (task_id, remind_at)
+-- so no reminder is delivered twice, and it doubles as the inbox clients poll.
+
+begin;
+
+alter table public.tasks add column if not exists recurrence text;
+alter table public.tasks add column if not exists remind_at timestamptz;
+
+create index if not exists idx_tasks_remind_at
+  on public.tasks (remind_at)
+  where remind_at is not null and status <> 'completed';
+
+create table if not exists public.reminders (
+  id bigserial primary key,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  task_id bigint references public.tasks(id) on delete set null,
+  content text not null,
+  due_date date,
+  due_time time,
+  remind_at timestamptz not null,
+  channel text not null,
+  attempts integer not null default 0,
+  last_error text,
+  delivered_at timestamptz,
+  read_at timestamptz,
+  created_at timestamptz not null default now(),
+  constraint reminders_task_remind_at_key unique (task_id, remind_at)
+);
+
+create index if not exists idx_reminders_user_remind_at
+  on public.reminders (user_id, remind_at desc);
+create index if not exists idx_reminders_undelivered
+  on public.reminders (remind_at)
+  where delivered_at is null;
+
+create or replace function public.mark_reminder_delivered(reminder_id bigint)
+returns void
+language sql
+as $$
+  update public.reminders
+    set attempts = attempts + 1, last_error = null, delivered_at = now()
+    where id = reminder_id;
+$$;
+
+create or replace function public.mark_reminder_failed(reminder_id bigint, error_message text)
+returns void
+language sql
+as $$
+  update public.reminders
+    set attempts = attempts + 1, last_error = error_message
+    where id = reminder_id;
+$$;
+
+insert into public.schema_migrations (version) values ('0003_recurrence_and_reminders')
+  on conflict (version) do nothing;
+
+commit;
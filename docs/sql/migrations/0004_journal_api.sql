@@ -0,0 +1,63 @@
+-- 0004: Journal REST API
+-- Journal entries become editable (updated_at), searchable by keyword (a GIN index on the
+-- English tsvector, used by websearch text search) and by meaning (an optional embedding
+-- plus match_journal_entries, filtered to a created_at range).
+
+begin;
+
+alter table public.journal_entries
+  add column if not exists updated_at timestamptz not null default now();
+alter table public.journal_entries
+  add column if not exists embedding vector(768);
+
+drop trigger if exists journal_entries_set_updated_at on public.journal_entries;
+create trigger journal_entries_set_updated_at
+  before update on public.journal_entries
+  for each row execute function public.set_updated_at();
+
+-- Keyset pagination walks (created_at, id) newest first
+create index if not exists idx_journal_user_created_id
+  on public.journal_entries (user_id, created_at desc, id desc);
+create index if not exists idx_journal_content_fts
+  on public.journal_entries using gin (to_tsvector('english', content));
+
+create or replace function public.match_journal_entries(
+  query_embedding vector(768),
+  match_threshold float,
+  match_count int,
+  target_user_id uuid,
+  from_time timestamptz default null,
+  to_time timestamptz default null
+)
+returns table (
+  id bigint,
+  user_id uuid,
+  content text,
+  created_at timestamptz,
+  updated_at timestamptz,
+  similarity float
+)
+language sql
+stable
+as $$
+  select
+    j.id,
+    j.user_id,
+    j.content,
+    j.created_at,
+    j.updated_at,
+    1 - (j.embedding <=> query_embedding) as similarity
+  from public.journal_entries j
+  where j.user_id = target_user_id
+    and j.embedding is not null
+    and (from_time is null or j.created_at >= from_time)
+    and (to_time is null or j.created_at < to_time)
+    and (1 - (j.embedding <=> query_embedding)) >= match_threshold
+  order by (j.embedding <=> query_embedding) asc
+  limit match_count;
+$$;
+
+insert into public.schema_migrations (version) values ('0004_journal_api')
+  on conflict (version) do nothing;
+
+commit;
@@ -0,0 +1,134 @@
+-- 0005: Conversation compaction
+-- Older messages in public.memories are periodically summarized into
+-- public.conversation_summaries. Each summary keeps the ids of the messages it covers
+-- (memory_ids) and those messages point back at it through memories.summary_id, so nothing
+-- is summarized twice. With MEMORY_COMPACTION_PRUNE_RAW=true the raw messages are deleted
+-- instead and only the summary remains.
+
+begin;
+
+create table if not exists public.conversation_summaries (
+  id bigserial primary key,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  content text not null,
+  topics text[] not null default '{}',
+  memory_ids bigint[] not null default '{}',
+  message_count integer not null,
+  period_start timestamptz not null,
+  period_end timestamptz not null,
+  embedding vector(768),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_conversation_summaries_user_period
+  on public.conversation_summaries (user_id, period_end desc, id desc);
+
+alter table public.memories
+  add column if not exists summary_id bigint
+    references public.conversation_summaries(id) on delete set null;
+
+create index if not exists idx_memories_unsummarized
+  on public.memories (user_id, created_at)
+  where summary_id is null;
+
+-- match_memories now also returns summary_id; the return type changes, so drop it first
+drop function if exists public.match_memories(vector, float, int, uuid);
+create function public.match_memories(
+  query_embedding vector(768),
+  match_threshold float,
+  match_count int,
+  target_user_id uuid
+)
+returns table (
+  id bigint,
+  user_id uuid,
+  role text,
+  content text,
+  embedding vector(768),
+  summary_id bigint,
+  created_at timestamptz,
+  similarity float
+)
+language sql
+stable
+as $$
+  select
+    m.id,
+    m.user_id,
+    m.role,
+    m.content,
+    m.embedding,
+    m.summary_id,
+    m.created_at,
+    1 - (m.embedding <=> query_embedding) as similarity
+  from public.memories m
+  where m.user_id = target_user_id
+    and (1 - (m.embedding <=> query_embedding)) >= match_threshold
+  order by (m.embedding <=> query_embedding) asc
+  limit match_count;
+$$;
+
+create or replace function public.match_conversation_summaries(
+  query_embedding vector(768),
+  match_threshold float,
+  match_count int,
+  target_user_id uuid
+)
+returns table (
+  id bigint,
+  user_id uuid,
+  content text,
+  topics text[],
+  memory_ids bigint[],
+  message_count integer,
+  period_start timestamptz,
+  period_end timestamptz,
+  created_at timestamptz,
+  similarity float
+)
+language sql
+stable
+as $$
+  select
+    s.id,
+    s.user_id,
+    s.content,
+    s.topics,
+    s.memory_ids,
+    s.message_count,
+    s.period_start,
+    s.period_end,
+    s.created_at,
+    1 - (s.embedding <=> query_embedding) as similarity
+  from public.conversation_summaries s
+  where s.user_id = target_user_id
+    and s.embedding is not null
+    and (1 - (s.embedding <=> query_embedding)) >= match_threshold
+  order by (s.embedding <=> query_embedding) asc
+  limit match_count;
+$$;
+
+-- Users with enough old messages waiting to be compacted, longest waiting first
+create or replace function public.pending_summary_users(
+  before_time timestamptz,
+  min_messages int,
+  max_users int
+)
+returns table (user_id uuid)
+language sql
+stable
+as $$
+  select m.user_id
+  from public.memories m
+  where m.summary_id is null
+    and m.created_at < before_time
+  group by m.user_id
+  having count(*) >= min_messages
+  order by min(m.created_at) asc
+  limit max_users;
+$$;
+
+insert into public.schema_migrations (version) values ('0005_conversation_summaries')
+  on conflict (version) do nothing;
+
+commit;
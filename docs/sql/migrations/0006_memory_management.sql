@@ -0,0 +1,68 @@
+-- 0006: Memory management API
+-- Users can browse, edit, pin and delete what the assistant remembers. Memories become
+-- editable (updated_at), pinnable (always included in retrieval) and are paged newest first
+-- by (created_at, id).
+
+begin;
+
+alter table public.memories
+  add column if not exists pinned boolean not null default false;
+alter table public.memories
+  add column if not exists updated_at timestamptz not null default now();
+
+drop trigger if exists memories_set_updated_at on public.memories;
+create trigger memories_set_updated_at
+  before update on public.memories
+  for each row execute function public.set_updated_at();
+
+create index if not exists idx_memories_user_created_id
+  on public.memories (user_id, created_at desc, id desc);
+create index if not exists idx_memories_pinned
+  on public.memories (user_id, created_at desc)
+  where pinned;
+
+-- match_memories now also returns pinned and updated_at; the return type changes, so drop it first
+drop function if exists public.match_memories(vector, float, int, uuid);
+create function public.match_memories(
+  query_embedding vector(768),
+  match_threshold float,
+  match_count int,
+  target_user_id uuid
+)
+returns table (
+  id bigint,
+  user_id uuid,
+  role text,
+  content text,
+  embedding vector(768),
+  summary_id bigint,
+  pinned boolean,
+  created_at timestamptz,
+  updated_at timestamptz,
+  similarity float
+)
+language sql
+stable
+as $$
+  select
+    m.id,
+    m.user_id,
+    m.role,
+    m.content,
+    m.embedding,
+    m.summary_id,
+    m.pinned,
+    m.created_at,
+    m.updated_at,
+    1 - (m.embedding <=> query_embedding) as similarity
+  from public.memories m
+  where m.user_id = target_user_id
+    and (1 - (m.embedding <=> query_embedding)) >= match_threshold
+  order by (m.embedding <=> query_embedding) asc
+  limit match_count;
+$$;
+
+insert into public.schema_migrations (version) values ('0006_memory_management')
+  on conflict (version) do nothing;
+
+commit;
@@ -0,0 +1,112 @@
+-- 0007: Hybrid memory search
+-- Vector similarity alone misses exact names, numbers and short queries. hybrid_match_memories
+-- fuses the vector matches with English full-text matches (any query word) by weighted
+-- reciprocal rank, then scales each score by a recency decay. The ranking mirrors
+-- fuseRankings in src/utils/ranking.ts, which backs the in-memory store.
+
+begin;
+
+create index if not exists idx_memories_content_fts
+  on public.memories using gin (to_tsvector('english', content));
+
+create or replace function public.hybrid_match_memories(
+  query_embedding vector(768),
+  query_text text,
+  match_threshold float,
+  match_count int,
+  target_user_id uuid,
+  filter_role text default null,
+  from_time timestamptz default null,
+  to_time timestamptz default null,
+  filter_summary_id bigint default null,
+  rrf_k int default 60,
+  vector_weight float default 1,
+  text_weight float default 1,
+  recency_weight float default 0.2,
+  recency_half_life_days float default 30
+)
+returns table (
+  id bigint,
+  user_id uuid,
+  role text,
+  content text,
+  embedding vector(768),
+  summary_id bigint,
+  pinned boolean,
+  created_at timestamptz,
+  updated_at timestamptz,
+  similarity float,
+  text_rank float,
+  score float
+)
+language sql
+stable
+as $$
+  with filtered as (
+    select m.*
+    from public.memories m
+    where m.user_id = target_user_id
+      and (filter_role is null or m.role = filter_role)
+      and (from_time is null or m.created_at >= from_time)
+      and (to_time is null or m.created_at < to_time)
+      and (filter_summary_id is null or m.summary_id = filter_summary_id)
+  ),
+  -- Any query word may match: 'priya' & 'pune' becomes 'priya' | 'pune'
+  terms as (
+    select nullif(replace(plainto_tsquery('english', query_text)::text, ' & ', ' | '), '')::tsquery as q
+  ),
+  vector_hits as (
+    select f.id, row_number() over (order by f.embedding <=> query_embedding) as rank
+    from filtered f
+    where 1 - (f.embedding <=> query_embedding) >= match_threshold
+    order by f.embedding <=> query_embedding
+    limit match_count * 4
+  ),
+  text_hits as (
+    select
+      f.id,
+      ts_rank_cd(to_tsvector('english', f.content), terms.q) as text_rank,
+      row_number() over (order by ts_rank_cd(to_tsvector('english', f.content), terms.q) desc) as rank
+    from filtered f, terms
+    where terms.q is not null
+      and to_tsvector('english', f.content) @@ terms.q
+    order by text_rank desc
+    limit match_count * 4
+  ),
+  fused as (
+    select
+      coalesce(v.id, t.id) as id,
+      coalesce(vector_weight / (rrf_k + v.rank), 0)
+        + coalesce(text_weight / (rrf_k + t.rank), 0) as base,
+      coalesce(t.text_rank, 0) as text_rank
+    from vector_hits v
+    full outer join text_hits t on t.id = v.id
+  )
+  select
+    m.id,
+    m.user_id,
+    m.role,
+    m.content,
+    m.embedding,
+    m.summary_id,
+    m.pinned,
+    m.created_at,
+    m.updated_at,
+    1 - (m.embedding <=> query_embedding) as similarity,
+    fused.text_rank,
+    fused.base * (
+      1 - recency_weight + recency_weight * power(
+        0.5,
+        greatest(extract(epoch from (now() - m.created_at)), 0) / 86400 / recency_half_life_days
+      )
+    ) as score
+  from fused
+  join public.memories m on m.id = fused.id
+  order by score desc, m.created_at desc, m.id desc
+  limit match_count;
+$$;
+
+insert into public.schema_migrations (version) values ('0007_hybrid_memory_search')
+  on conflict (version) do nothing;
+
+commit;
@@ -0,0 +1,206 @@
+-- 0008: Versioned memory embeddings
+-- Every memory vector is tagged with the model and size it came from ("model@dimensions",
+-- or EMBEDDING_VERSION). The column accepts vectors of any size, searches only compare
+-- vectors of the active version, and the re-embedding job moves rows onto it in batches.
+-- Rows written before this migration came from nomic-embed-text at 768 dimensions.
+
+begin;
+
+alter table public.memories
+  add column if not exists embedding_version text;
+update public.memories
+  set embedding_version = 'nomic-embed-text@768'
+  where embedding_version is null;
+alter table public.memories
+  alter column embedding_version set not null;
+
+-- The search functions reference the column type, so they go before it changes
+drop function if exists public.match_memories(vector, float, int, uuid);
+drop function if exists public.hybrid_match_memories(
+  vector, text, float, int, uuid, text, timestamptz, timestamptz, bigint, int, float, float, float, float
+);
+
+alter table public.memories
+  alter column embedding type vector;
+
+-- The re-embedding job walks rows of other versions by id
+create index if not exists idx_memories_embedding_version
+  on public.memories (embedding_version, id);
+
+-- Approximate nearest-neighbour indexes need a fixed size, so build one per version, e.g.:
+-- create index idx_memories_embedding_nomic_768 on public.memories
+--   using hnsw ((embedding::vector(768)) vector_cosine_ops)
+--   where embedding_version = 'nomic-embed-text@768';
+
+create function public.match_memories(
+  query_embedding vector,
+  match_threshold float,
+  match_count int,
+  target_user_id uuid,
+  target_version text default null
+)
+returns table (
+  id bigint,
+  user_id uuid,
+  role text,
+  content text,
+  embedding vector,
+  embedding_version text,
+  summary_id bigint,
+  pinned boolean,
+  created_at timestamptz,
+  updated_at timestamptz,
+  similarity float
+)
+language sql
+stable
+as $$
+  -- Filter by version first: vectors of different sizes cannot be compared
+  with candidates as materialized (
+    select m.*
+    from public.memories m
+    where m.user_id = target_user_id
+      and (target_version is null or m.embedding_version = target_version)
+  )
+  select
+    c.id,
+    c.user_id,
+    c.role,
+    c.content,
+    c.embedding,
+    c.embedding_version,
+    c.summary_id,
+    c.pinned,
+    c.created_at,
+    c.updated_at,
+    1 - (c.embedding <=> query_embedding) as similarity
+  from candidates c
+  where (1 - (c.embedding <=> query_embedding)) >= match_threshold
+  order by (c.embedding <=> query_embedding) asc
+  limit match_count;
+$$;
+
+create function public.hybrid_match_memories(
+  query_embedding vector,
+  query_text text,
+  match_threshold float,
+  match_count int,
+  target_user_id uuid,
+  filter_role text default null,
+  from_time timestamptz default null,
+  to_time timestamptz default null,
+  filter_summary_id bigint default null,
+  rrf_k int default 60,
+  vector_weight float default 1,
+  text_weight float default 1,
+  recency_weight float default 0.2,
+  recency_half_life_days float default 30,
+  target_version text default null
+)
+returns table (
+  id bigint,
+  user_id uuid,
+  role text,
+  content text,
+  embedding vector,
+  embedding_version text,
+  summary_id bigint,
+  pinned boolean,
+  created_at timestamptz,
+  updated_at timestamptz,
+  similarity float,
+  text_rank float,
+  score float
+)
+language sql
+stable
+as $$
+  with filtered as materialized (
+    select
+      m.*,
+      (target_version is null or m.embedding_version = target_version) as comparable
+    from public.memories m
+    where m.user_id = target_user_id
+      and (filter_role is null or m.role = filter_role)
+      and (from_time is null or m.created_at >= from_time)
+      and (to_time is null or m.created_at < to_time)
+      and (filter_summary_id is null or m.summary_id = filter_summary_id)
+  ),
+  -- Only vectors of the active version are compared; the others still match by text
+  scored as materialized (
+    select
+      f.*,
+      case when f.comparable then 1 - (f.embedding <=> query_embedding) else 0 end as similarity
+    from filtered f
+  ),
+  -- Any query word may match: 'priya' & 'pune' becomes 'priya' | 'pune'
+  terms as (
+    select nullif(replace(plainto_tsquery('english', query_text)::text, ' & ', ' | '), '')::tsquery as q
+  ),
+  vector_hits as (
+    select s.id, row_number() over (order by s.similarity desc) as rank
+    from scored s
+    where s.comparable and s.similarity >= match_threshold
+    order by s.similarity desc
+    limit match_count * 4
+  ),
+  text_hits as (
+    select
+      s.id,
+      ts_rank_cd(to_tsvector('english', s.content), terms.q) as text_rank,
+      row_number() over (order by ts_rank_cd(to_tsvector('english', s.content), terms.q) desc) as rank
+    from scored s, terms
+    where terms.q is not null
+      and to_tsvector('english', s.content) @@ terms.q
+    order by text_rank desc
+    limit match_count * 4
+  ),
+  fused as (
+    select
+      coalesce(v.id, t.id) as id,
+      coalesce(vector_weight / (rrf_k + v.rank), 0)
+        + coalesce(text_weight / (rrf_k + t.rank), 0) as base,
+      coalesce(t.text_rank, 0) as text_rank
+    from vector_hits v
+    full outer join text_hits t on t.id = v.id
+  )
+  select
+    s.id,
+    s.user_id,
+    s.role,
+    s.content,
+    s.embedding,
+    s.embedding_version,
+    s.summary_id,
+    s.pinned,
+    s.created_at,
+    s.updated_at,
+    s.similarity,
+    fused.text_rank,
+    fused.base * (
+      1 - recency_weight + recency_weight * power(
+        0.5,
+        greatest(extract(epoch from (now() - s.created_at)), 0) / 86400 / recency_half_life_days
+      )
+    ) as score
+  from fused
+  join scored s on s.id = fused.id
+  order by score desc, s.created_at desc, s.id desc
+  limit match_count;
+$$;
+
+-- Re-embedding progress: rows per version across all users
+create or replace function public.memory_embedding_versions()
+returns table (embedding_version text, count bigint)
+language sql
+stable
+as $$
+  select m.embedding_version, count(*)
+  from public.memories m
+  group by m.embedding_version;
+$$;
+
+insert into public.schema_migrations (version) values ('0008_versioned_embeddings')
+  on conflict (version) do nothing;
+
+commit;
@@ -0,0 +1,152 @@
+-- 0009: Versioned journal and summary embeddings
+-- Journal entries and conversation summaries get the same treatment memories got in 0008:
+-- a version tag per vector, columns that accept vectors of any size, and searches that only
+-- compare vectors of the active version. Rows without an embedding (the provider was down
+-- at write time) have no version; the re-embedding job fills them in with the rest.
+
+begin;
+
+alter table public.journal_entries
+  add column if not exists embedding_version text;
+update public.journal_entries
+  set embedding_version = 'nomic-embed-text@768'
+  where embedding is not null and embedding_version is null;
+
+alter table public.conversation_summaries
+  add column if not exists embedding_version text;
+update public.conversation_summaries
+  set embedding_version = 'nomic-embed-text@768'
+  where embedding is not null and embedding_version is null;
+
+-- The search functions reference the column types, so they go before they change
+drop function if exists public.match_journal_entries(
+  vector, float, int, uuid, timestamptz, timestamptz
+);
+drop function if exists public.match_conversation_summaries(vector, float, int, uuid);
+
+alter table public.journal_entries
+  alter column embedding type vector;
+alter table public.conversation_summaries
+  alter column embedding type vector;
+
+-- The re-embedding job walks rows of other versions by id
+create index if not exists idx_journal_embedding_version
+  on public.journal_entries (embedding_version, id);
+create index if not exists idx_conversation_summaries_embedding_version
+  on public.conversation_summaries (embedding_version, id);
+
+create function public.match_journal_entries(
+  query_embedding vector,
+  match_threshold float,
+  match_count int,
+  target_user_id uuid,
+  from_time timestamptz default null,
+  to_time timestamptz default null,
+  target_version text default null
+)
+returns table (
+  id bigint,
+  user_id uuid,
+  content text,
+  created_at timestamptz,
+  updated_at timestamptz,
+  similarity float
+)
+language sql
+stable
+as $$
+  -- Filter by version first: vectors of different sizes cannot be compared
+  with candidates as materialized (
+    select j.*
+    from public.journal_entries j
+    where j.user_id = target_user_id
+      and j.embedding is not null
+      and (target_version is null or j.embedding_version = target_version)
+      and (from_time is null or j.created_at >= from_time)
+      and (to_time is null or j.created_at < to_time)
+  )
+  select
+    c.id,
+    c.user_id,
+    c.content,
+    c.created_at,
+    c.updated_at,
+    1 - (c.embedding <=> query_embedding) as similarity
+  from candidates c
+  where (1 - (c.embedding <=> query_embedding)) >= match_threshold
+  order by (c.embedding <=> query_embedding) asc
+  limit match_count;
+$$;
+
+create function public.match_conversation_summaries(
+  query_embedding vector,
+  match_threshold float,
+  match_count int,
+  target_user_id uuid,
+  target_version text default null
+)
+returns table (
+  id bigint,
+  user_id uuid,
+  content text,
+  topics text[],
+  memory_ids bigint[],
+  message_count integer,
+  period_start timestamptz,
+  period_end timestamptz,
+  created_at timestamptz,
+  similarity float
+)
+language sql
+stable
+as $$
+  with candidates as materialized (
+    select s.*
+    from public.conversation_summaries s
+    where s.user_id = target_user_id
+      and s.embedding is not null
+      and (target_version is null or s.embedding_version = target_version)
+  )
+  select
+    c.id,
+    c.user_id,
+    c.content,
+    c.topics,
+    c.memory_ids,
+    c.message_count,
+    c.period_start,
+    c.period_end,
+    c.created_at,
+    1 - (c.embedding <=> query_embedding) as similarity
+  from candidates c
+  where (1 - (c.embedding <=> query_embedding)) >= match_threshold
+  order by (c.embedding <=> query_embedding) asc
+  limit match_count;
+$$;
+
+-- Re-embedding progress: rows per version across all users, 'none' for rows without a vector
+create or replace function public.journal_embedding_versions()
+returns table (embedding_version text, count bigint)
+language sql
+stable
+as $$
+  select coalesce(j.embedding_version, 'none'), count(*)
+  from public.journal_entries j
+  group by 1;
+$$;
+
+create or replace function public.summary_embedding_versions()
+returns table (embedding_version text, count bigint)
+language sql
+stable
+as $$
+  select coalesce(s.embedding_version, 'none'), count(*)
+  from public.conversation_summaries s
+  group by 1;
+$$;
+
+insert into public.schema_migrations (version)
+  values ('0009_versioned_journal_and_summary_embeddings')
+  on conflict (version) do nothing;
+
+commit;
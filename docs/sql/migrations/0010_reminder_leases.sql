@@ -0,0 +1,59 @@
+-- 0010: Reminder delivery leases
+-- A process that claims or retries a reminder leases it until locked_until, and counts the
+-- attempt up front, so another instance does not deliver it at the same time. A lease left
+-- behind by a crash expires and the reminder is retried; a failed delivery releases it.
+
+begin;
+
+alter table public.reminders
+  add column if not exists locked_until timestamptz;
+
+-- Attempts are now counted when a reminder is leased
+create or replace function public.mark_reminder_delivered(reminder_id bigint)
+returns void
+language sql
+as $$
+  update public.reminders
+    set last_error = null, delivered_at = now(), locked_until = null
+    where id = reminder_id;
+$$;
+
+create or replace function public.mark_reminder_failed(reminder_id bigint, error_message text)
+returns void
+language sql
+as $$
+  update public.reminders
+    set last_error = error_message, locked_until = null
+    where id = reminder_id;
+$$;
+
+-- Undelivered reminders whose lease ran out before lease_before, oldest first. Rows another
+-- transaction is leasing are skipped rather than waited on.
+create or replace function public.lease_reminders(
+  lease_before timestamptz,
+  lease_until timestamptz,
+  max_attempts int,
+  lease_limit int
+)
+returns setof public.reminders
+language sql
+as $$
+  update public.reminders r
+    set attempts = r.attempts + 1, locked_until = lease_until
+    where r.id in (
+      select c.id
+      from public.reminders c
+      where c.delivered_at is null
+        and c.attempts < max_attempts
+        and (c.locked_until is null or c.locked_until <= lease_before)
+      order by c.remind_at
+      limit lease_limit
+      for update skip locked
+    )
+  returning r.*;
+$$;
+
+insert into public.schema_migrations (version) values ('0010_reminder_leases')
+  on conflict (version) do nothing;
+
+commit;
@@ -1,4 +1,5 @@
 -- Tasks and Journal schema for intent-driven actions
+-- Base schema. Apply the versioned migrations in docs/sql/migrations/ in order afterwards.
 
 -- 1) Tasks table
 create table if not exists public.tasks (
@@ -6,9 +7,18 @@ create table if not exists public.tasks (
   user_id uuid not null references auth.users(id) on delete cascade,
   content text not null,
   due_date date,
+  status text not null default 'pending' check (status in ('pending', 'completed')),
+  completed_at timestamptz,
   created_at timestamptz not null default now()
 );
 
+-- Columns added for complete/update/reschedule intents (for existing tables)
+alter table public.tasks
+  add column if not exists status text not null default 'pending'
+    check (status in ('pending', 'completed'));
+alter table public.tasks
+  add column if not exists completed_at timestamptz;
+
 create index if not exists idx_tasks_user_due_created
   on public.tasks (user_id, due_date, created_at desc);
 
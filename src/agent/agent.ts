@@ -0,0 +1,231 @@
+import { z } from 'zod';
+import { AgentConfig, getAgentConfig, ToolPermission } from '../config/agent';
+import { IntentContext, SendMessageResponse } from '../intents/types';
+import { AgentMessage, generateWithTools, toJsonSchema, ToolCall } from '../llm';
+import { buildConversationContext, contextToMessages } from '../memory/context';
+import { setPendingAction } from '../services/conversation.service';
+import { AGENT_TOOLS, AgentTool, getAgentTool } from './tools';
+import { logger } from '../utils/logger';
+
+/** Reported to stream clients and kept on pending confirmations in place of an intent */
+export const AGENT_INTENT = 'agent';
+
+export type ToolCallStatus = 'ok' | 'invalid' | 'denied' | 'needs_confirmation' | 'failed';
+
+/** One call the model made, as returned in optional_data.tool_calls */
+export interface ToolCallRecord {
+    name: string;
+    arguments: unknown;
+    status: ToolCallStatus;
+    summary: string;
+}
+
+/** A call held back until the user confirms it; arguments are validated again when it runs */
+export interface HeldToolCall {
+    name: string;
+    arguments: unknown;
+    question: string;
+}
+
+interface CallOutcome {
+    record: ToolCallRecord;
+    /** Sent back to the model as the tool's result */
+    result: unknown;
+    held?: HeldToolCall;
+}
+
+function permissionOf(tool: AgentTool, config: AgentConfig): ToolPermission {
+    return config.permissions[tool.name] ?? tool.permission;
+}
+
+function parseArguments(text: string): unknown {
+    try {
+        return JSON.parse(text);
+    } catch {
+        return undefined;
+    }
+}
+
+async function callTool(
+    call: ToolCall,
+    config: AgentConfig,
+    context: IntentContext
+): Promise<CallOutcome> {
+    const args = parseArguments(call.arguments);
+    const tool = getAgentTool(call.name);
+    const fail = (status: ToolCallStatus, summary: string, details?: unknown): CallOutcome => ({
+        record: { name: call.name, arguments: args, status, summary },
+        result: { error: summary, ...(details !== undefined && { details }) },
+    });
+
+    if (!tool || permissionOf(tool, config) === 'deny') {
+        return fail('denied', `The tool ${call.name} is not available`);
+    }
+    const parsed = tool.schema.safeParse(args);
+    if (!parsed.success) {
+        return fail('invalid', 'Invalid arguments', parsed.error.flatten());
+    }
+
+    try {
+        if (permissionOf(tool, config) === 'confirm') {
+            const question = tool.confirm
+                ? await tool.confirm(parsed.data, context)
+                : `Run ${tool.name}?`;
+            return {
+                record: {
+                    name: call.name,
+                    arguments: args,
+                    status: 'needs_confirmation',
+                    summary: question,
+                },
+                result: { status: 'Waiting for the user to confirm. Do not call it again.' },
+                held: { name: tool.name, arguments: args, question },
+            };
+        }
+
+        const { summary, data } = await tool.run(parsed.data, context);
+        return {
+            record: { name: call.name, arguments: args, status: 'ok', summary },
+            result: { summary, data },
+        };
+    } catch (error) {
+        // Services validate again (e.g. due_time without due_date); the model can correct it
+        if (error instanceof z.ZodError) {
+            return fail('invalid', 'Invalid arguments', error.flatten());
+        }
+        // Anything else is reported like the other outcomes, so the loop and its record go on
+        logger.error(`Agent tool ${call.name} failed:`, error);
+        return fail('failed', `${call.name} failed`);
+    }
+}
+
+async function agentMessages(context: IntentContext): Promise<AgentMessage[]> {
+    const { userId, message, timeZone, profile } = context;
+    const now = new Intl.DateTimeFormat('en-GB', {
+        timeZone,
+        dateStyle: 'full',
+        timeStyle: 'short',
+    }).format(new Date());
+    const userName = profile?.first_name ? ` The user's name is ${profile.first_name}.` : '';
+    const systemPrompt = `You are a personal assistant that manages the user's tasks and journal and remembers earlier conversations. Use the tools to act on the request; a message may ask for several actions. It is now ${now} in the user's timezone (${timeZone}); write dates as YYYY-MM-DD and times as HH:MM.${userName} When you are done, reply briefly with what you did.`;
+
+    const conversation = await buildConversationContext(userId, message);
+    return contextToMessages(systemPrompt, conversation, message);
+}
+
+/**
+ * Answer a message by letting the model call task, journal and memory tools in a bounded
+ * loop: each turn may request several calls, whose results go back to the model until it
+ * answers or AGENT_MAX_ITERATIONS turns are spent. Denied tools are never offered; calls
+ * that need confirmation are held and asked about once the loop ends.
+ */
+export async function runAgent(context: IntentContext): Promise<SendMessageResponse> {
+    const config = getAgentConfig();
+    const tools = AGENT_TOOLS.filter(tool => permissionOf(tool, config) !== 'deny').map(tool => ({
+        name: tool.name,
+        description: tool.description,
+        parameters: toJsonSchema(tool.schema),
+    }));
+    const messages = await agentMessages(context);
+    const records: ToolCallRecord[] = [];
+    const held: HeldToolCall[] = [];
+
+    let answer: string | null = null;
+    let iterations = 0;
+    while (answer === null && iterations < config.maxIterations) {
+        iterations++;
+        const completion = await generateWithTools('agent', messages, tools, {
+            signal: context.stream?.signal,
+        });
+        if (!completion.toolCalls.length) {
+            answer = completion.content.trim();
+            break;
+        }
+
+        messages.push({
+            role: 'assistant',
+            content: completion.content,
+            tool_calls: completion.toolCalls,
+        });
+        for (const call of completion.toolCalls) {
+            const outcome = await callTool(call, config, context);
+            records.push(outcome.record);
+            if (outcome.held) held.push(outcome.held);
+            messages.push({
+                role: 'tool',
+                tool_call_id: call.id,
+                name: call.name,
+                content: JSON.stringify(outcome.result),
+            });
+        }
+    }
+
+    const done = records.filter(record => record.status === 'ok').map(record => record.summary);
+    let reply: string;
+    if (held.length) {
+        setPendingAction(context.userId, {
+            type: 'confirm_tools',
+            intent: AGENT_INTENT,
+            calls: held,
+        });
+        reply = [...done, `${held.map(call => call.question).join('\n')} (yes/no)`].join('\n');
+    } else if (answer === null) {
+        reply = [`I had to stop after ${iterations} steps.`, ...done].join('\n');
+    } else {
+        reply = answer || done.join('\n') || "Sorry, I couldn't generate a response.";
+    }
+
+    return {
+        reply,
+        optional_data: {
+            mode: 'agent',
+            iterations,
+            tool_calls: records,
+            ...(held.length && { pending_action: { type: 'confirm_tools', calls: held } }),
+        },
+    };
+}
+
+/**
+ * Run the calls the user just confirmed. Permissions are checked again in case the policy
+ * changed while the question was open.
+ */
+export async function runConfirmedTools(
+    calls: HeldToolCall[],
+    context: IntentContext
+): Promise<SendMessageResponse> {
+    const config = getAgentConfig();
+    const records: ToolCallRecord[] = [];
+
+    for (const call of calls) {
+        const tool = getAgentTool(call.name);
+        const parsed = tool?.schema.safeParse(call.arguments);
+        if (!tool || !parsed?.success || permissionOf(tool, config) === 'deny') {
+            records.push({
+                name: call.name,
+                arguments: call.arguments,
+                status: 'denied',
+                summary: `Could not run ${call.name}`,
+            });
+            continue;
+        }
+        try {
+            const { summary } = await tool.run(parsed.data, context);
+            records.push({ name: call.name, arguments: call.arguments, status: 'ok', summary });
+        } catch (error) {
+            const invalid = error instanceof z.ZodError;
+            if (!invalid) logger.error(`Agent tool ${call.name} failed:`, error);
+            records.push({
+                name: call.name,
+                arguments: call.arguments,
+                status: invalid ? 'invalid' : 'failed',
+                summary: `Could not run ${call.name}${invalid ? ': invalid arguments' : ''}`,
+            });
+        }
+    }
+
+    return {
+        reply: records.map(record => record.summary).join('\n'),
+        optional_data: { mode: 'agent', tool_calls: records },
+    };
+}
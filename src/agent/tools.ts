@@ -0,0 +1,187 @@
+import { z } from 'zod';
+import { ToolPermission } from '../config/agent';
+import { IntentContext } from '../intents/types';
+import { searchMemories } from '../memory/memories';
+import { journalEntryInputSchema, journalQuerySchema } from '../models/journal.model';
+import { createTaskSchema, Task, taskQuerySchema, updateTaskSchema } from '../models/task.model';
+import { formatDue } from '../services/date.resolver';
+import { createEntry, listEntries } from '../services/journal.service';
+import {
+    completeTask,
+    createTask,
+    deleteTask,
+    getTask,
+    listTasks,
+    updateTask,
+} from '../services/task.service';
+
+const AGENT_MEMORY_THRESHOLD = Number(process.env.AGENT_MEMORY_THRESHOLD) || 0.5;
+
+/** What a tool reports back: a line for the model and the user, plus the records involved */
+export interface ToolResult {
+    summary: string;
+    data?: unknown;
+}
+
+/**
+ * An operation the agent may call. Arguments are validated against the schema, which is
+ * also what the model sees as the tool's JSON schema.
+ */
+export interface AgentTool<T extends z.ZodTypeAny = z.ZodTypeAny> {
+    name: string;
+    description: string;
+    schema: T;
+    /** Applied unless AGENT_TOOL_PERMISSIONS overrides it */
+    permission: ToolPermission;
+    /** The question put to the user before a call that needs confirmation */
+    confirm?(args: z.output<T>, context: IntentContext): Promise<string>;
+    run(args: z.output<T>, context: IntentContext): Promise<ToolResult>;
+}
+
+function defineTool<T extends z.ZodTypeAny>(tool: AgentTool<T>): AgentTool {
+    return tool as unknown as AgentTool;
+}
+
+// The fields the model needs to refer to a task again
+function taskView(task: Task) {
+    return {
+        id: task.id,
+        content: task.content,
+        status: task.status,
+        priority: task.priority,
+        tags: task.tags,
+        due_date: task.due_date,
+        due_time: task.due_time,
+        recurrence: task.recurrence,
+    };
+}
+
+function describeTask(task: Task): string {
+    const due = task.due_date ? ` (due ${formatDue(task.due_date, task.due_time)})` : '';
+    return `${task.id}. ${task.content}${due}`;
+}
+
+const taskIdSchema = z.object({ task_id: z.number().int() });
+
+export const AGENT_TOOLS: AgentTool[] = [
+    defineTool({
+        name: 'create_task',
+        description:
+            'Create a task. due_date is YYYY-MM-DD and due_time HH:MM in the user\'s timezone; recurrence is a phrase such as "every Monday".',
+        schema: createTaskSchema,
+        permission: 'allow',
+        async run(args, { userId, timeZone }) {
+            const task = await createTask(userId, args, { timeZone });
+            return { summary: `Created task ${describeTask(task)}`, data: taskView(task) };
+        },
+    }),
+    defineTool({
+        name: 'list_tasks',
+        description:
+            'List tasks, optionally filtered by status, priority, tag, text or a due date range (YYYY-MM-DD, inclusive).',
+        schema: taskQuerySchema,
+        permission: 'allow',
+        async run(args, { userId }) {
+            const tasks = await listTasks(userId, args);
+            return { summary: `Found ${tasks.length} tasks`, data: tasks.map(taskView) };
+        },
+    }),
+    defineTool({
+        name: 'update_task',
+        description: 'Change fields of a task, such as its text, priority, tags or due date.',
+        schema: z.object({ task_id: z.number().int(), changes: updateTaskSchema }),
+        permission: 'allow',
+        async run(args, { userId, timeZone }) {
+            const task = await updateTask(userId, args.task_id, args.changes, { timeZone });
+            return task
+                ? { summary: `Updated task ${describeTask(task)}`, data: taskView(task) }
+                : { summary: `Task ${args.task_id} not found` };
+        },
+    }),
+    defineTool({
+        name: 'complete_task',
+        description: 'Mark a task as done. Recurring tasks get their next occurrence.',
+        schema: taskIdSchema,
+        permission: 'allow',
+        async run(args, { userId, timeZone }) {
+            const result = await completeTask(userId, args.task_id, { timeZone });
+            if (!result) return { summary: `Task ${args.task_id} not found` };
+            const next = result.next ? `; next occurrence ${describeTask(result.next)}` : '';
+            return {
+                summary: `Completed task ${describeTask(result.task)}${next}`,
+                data: { task: taskView(result.task), next: result.next && taskView(result.next) },
+            };
+        },
+    }),
+    defineTool({
+        name: 'delete_task',
+        description: 'Delete a task permanently.',
+        schema: taskIdSchema,
+        permission: 'confirm',
+        async confirm(args, { userId }) {
+            const task = await getTask(userId, args.task_id);
+            return `Delete task ${task ? describeTask(task) : args.task_id}?`;
+        },
+        async run(args, { userId }) {
+            const task = await getTask(userId, args.task_id);
+            if (!task) return { summary: `Task ${args.task_id} not found` };
+            await deleteTask(userId, task.id);
+            return { summary: `Deleted task ${describeTask(task)}`, data: { id: task.id } };
+        },
+    }),
+    defineTool({
+        name: 'add_journal_entry',
+        description: "Write an entry in the user's journal.",
+        schema: journalEntryInputSchema,
+        permission: 'allow',
+        async run(args, { userId }) {
+            const entry = await createEntry(userId, args);
+            return { summary: `Added journal entry ${entry.id}`, data: { id: entry.id } };
+        },
+    }),
+    defineTool({
+        name: 'search_journal',
+        description:
+            'Find journal entries by words (mode "text") or by meaning (mode "semantic"), optionally between two days (YYYY-MM-DD).',
+        schema: journalQuerySchema.omit({ cursor: true }),
+        permission: 'allow',
+        async run(args, { userId, timeZone }) {
+            const { entries } = await listEntries(userId, args, { timeZone });
+            return {
+                summary: `Found ${entries.length} journal entries`,
+                data: entries.map(entry => ({
+                    id: entry.id,
+                    created_at: entry.created_at,
+                    content: entry.content,
+                })),
+            };
+        },
+    }),
+    defineTool({
+        name: 'search_memories',
+        description: 'Search earlier conversations with the user for messages about a subject.',
+        schema: z.object({
+            query: z.string().trim().min(1).max(200),
+            limit: z.number().int().min(1).max(20).default(5),
+        }),
+        permission: 'allow',
+        async run(args, { userId }) {
+            const memories = await searchMemories(userId, args.query, {
+                matchThreshold: AGENT_MEMORY_THRESHOLD,
+                matchCount: args.limit,
+            });
+            return {
+                summary: `Found ${memories.length} earlier messages`,
+                data: memories.map(memory => ({
+                    role: memory.role,
+                    created_at: memory.created_at,
+                    content: memory.content,
+                })),
+            };
+        },
+    }),
+];
+
+export function getAgentTool(name: string): AgentTool | null {
+    return AGENT_TOOLS.find(tool => tool.name === name) ?? null;
+}
@@ -0,0 +1,43 @@
+export const CHAT_MODES = ['pipeline', 'agent'] as const;
+export type ChatMode = (typeof CHAT_MODES)[number];
+
+export const TOOL_PERMISSIONS = ['allow', 'confirm', 'deny'] as const;
+export type ToolPermission = (typeof TOOL_PERMISSIONS)[number];
+
+export interface AgentConfig {
+    /** Used when a request does not choose a mode */
+    defaultMode: ChatMode;
+    /** Model turns per message; each turn may call several tools */
+    maxIterations: number;
+    /** Per-tool overrides of the tools' default permissions */
+    permissions: Record<string, ToolPermission>;
+}
+
+// "delete_task=deny,update_task=confirm"
+function parsePermissions(value: string | undefined): Record<string, ToolPermission> {
+    const permissions: Record<string, ToolPermission> = {};
+    for (const entry of (value ?? '').split(',')) {
+        const [tool, permission] = entry.split('=').map(part => part?.trim());
+        if (!tool || !permission) continue;
+        if (!TOOL_PERMISSIONS.includes(permission as ToolPermission)) {
+            throw new Error(
+                `Unknown permission "${permission}" for tool ${tool}. Expected one of: ${TOOL_PERMISSIONS.join(', ')}`
+            );
+        }
+        permissions[tool] = permission as ToolPermission;
+    }
+    return permissions;
+}
+
+/**
+ * Agent mode settings: the model calls task, journal and memory tools itself instead of the
+ * classify-then-extract pipeline
+ */
+export function getAgentConfig(): AgentConfig {
+    const mode = process.env.CHAT_MODE as ChatMode;
+    return {
+        defaultMode: CHAT_MODES.includes(mode) ? mode : 'pipeline',
+        maxIterations: Number(process.env.AGENT_MAX_ITERATIONS) || 5,
+        permissions: parsePermissions(process.env.AGENT_TOOL_PERMISSIONS),
+    };
+}
@@ -0,0 +1,19 @@
+export interface ClassifierConfig {
+    /** Try keyword rules and labelled examples before asking the intent model */
+    enabled: boolean;
+    /** Local results below this confidence fall back to the intent model */
+    threshold: number;
+    /** Nearest labelled examples that vote on a message */
+    neighbours: number;
+}
+
+/**
+ * Fast-path intent classification settings. On unless INTENT_FAST_PATH_ENABLED=false.
+ */
+export function getClassifierConfig(): ClassifierConfig {
+    return {
+        enabled: process.env.INTENT_FAST_PATH_ENABLED !== 'false',
+        threshold: Number(process.env.INTENT_FAST_PATH_THRESHOLD) || 0.8,
+        neighbours: Number(process.env.INTENT_FAST_PATH_NEIGHBOURS) || 5,
+    };
+}
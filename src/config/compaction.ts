@@ -0,0 +1,27 @@
+export interface CompactionConfig {
+    enabled: boolean;
+    /** Messages older than this are compacted into conversation summaries */
+    minAgeHours: number;
+    /** Messages per summary */
+    batchSize: number;
+    /** Fewer waiting messages than this are left for a later pass */
+    minMessages: number;
+    intervalMs: number;
+    /** Delete raw messages once they are summarized instead of only linking them */
+    pruneRaw: boolean;
+}
+
+/**
+ * Conversation compaction settings. The compactor runs unless MEMORY_COMPACTION_ENABLED=false.
+ */
+export function getCompactionConfig(): CompactionConfig {
+    const batchSize = Number(process.env.MEMORY_COMPACTION_BATCH_SIZE) || 40;
+    return {
+        enabled: process.env.MEMORY_COMPACTION_ENABLED !== 'false',
+        minAgeHours: Number(process.env.MEMORY_COMPACTION_MIN_AGE_HOURS) || 24,
+        batchSize,
+        minMessages: Math.min(Number(process.env.MEMORY_COMPACTION_MIN_MESSAGES) || 10, batchSize),
+        intervalMs: Number(process.env.MEMORY_COMPACTION_INTERVAL_MS) || 60 * 60_000,
+        pruneRaw: process.env.MEMORY_COMPACTION_PRUNE_RAW === 'true',
+    };
+}
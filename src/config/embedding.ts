@@ -0,0 +1,79 @@
+import { getLLMConfig } from './llm';
+
+interface KnownModel {
+    dimensions: number;
+    /** The model can return fewer dimensions on request */
+    shortenable?: boolean;
+}
+
+// Output sizes of common embedding models, keyed without any ":tag" suffix
+const KNOWN_MODELS: Record<string, KnownModel> = {
+    'nomic-embed-text': { dimensions: 768 },
+    'nomic-embed-text-v1_5': { dimensions: 768 },
+    'mxbai-embed-large': { dimensions: 1024 },
+    'snowflake-arctic-embed': { dimensions: 1024 },
+    'all-minilm': { dimensions: 384 },
+    'text-embedding-ada-002': { dimensions: 1536 },
+    'text-embedding-3-small': { dimensions: 1536, shortenable: true },
+    'text-embedding-3-large': { dimensions: 3072, shortenable: true },
+};
+
+const DEFAULT_DIMENSIONS = 768;
+
+export interface EmbeddingConfig {
+    model: string;
+    dimensions: number;
+    /**
+     * Tag stored with every memory vector. Searches only compare vectors with the active tag,
+     * and the re-embedding job moves rows with any other tag onto it.
+     */
+    version: string;
+    reembed: {
+        enabled: boolean;
+        /** Rows re-embedded per embedding request */
+        batchSize: number;
+        intervalMs: number;
+    };
+}
+
+function resolveDimensions(model: string): number {
+    const known = KNOWN_MODELS[model.split(':')[0]];
+    const configured = Number(process.env.EMBEDDING_DIMENSIONS);
+    if (!configured) {
+        return known && !known.shortenable ? known.dimensions : DEFAULT_DIMENSIONS;
+    }
+
+    if (!Number.isInteger(configured) || configured < 1) {
+        throw new Error(`EMBEDDING_DIMENSIONS must be a positive integer, got "${configured}"`);
+    }
+    if (
+        known &&
+        (known.shortenable ? configured > known.dimensions : configured !== known.dimensions)
+    ) {
+        const expected = known.shortenable ? `at most ${known.dimensions}` : `${known.dimensions}`;
+        throw new Error(
+            `Embedding model ${model} produces ${known.dimensions} dimensions; EMBEDDING_DIMENSIONS=${configured} must be ${expected}`
+        );
+    }
+    return configured;
+}
+
+/**
+ * Embedding model settings. The dimensions are checked against the model when it is a known
+ * one; EMBEDDING_VERSION overrides the "model@dimensions" tag, e.g. to re-embed after the
+ * same model name was updated.
+ */
+export function getEmbeddingConfig(): EmbeddingConfig {
+    const { model } = getLLMConfig('embedding');
+    const dimensions = resolveDimensions(model);
+    return {
+        model,
+        dimensions,
+        version: process.env.EMBEDDING_VERSION?.trim() || `${model}@${dimensions}`,
+        reembed: {
+            enabled: process.env.REEMBED_ENABLED !== 'false',
+            batchSize: Number(process.env.REEMBED_BATCH_SIZE) || 50,
+            intervalMs: Number(process.env.REEMBED_INTERVAL_MS) || 10 * 60_000,
+        },
+    };
+}
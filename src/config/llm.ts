@@ -0,0 +1,81 @@
+import { LLMRole, ProviderConfig, ProviderName } from '../llm/types';
+
+const PROVIDERS: ProviderName[] = ['ollama', 'groq', 'openai', 'fake'];
+
+function defaultModels(): Record<ProviderName, Record<LLMRole, string>> {
+    return {
+        ollama: {
+            intent: process.env.OLLAMA_INTENT_MODEL || 'llama3.2:latest',
+            chat: process.env.OLLAMA_SMALLTALK_MODEL || 'llama3.2:latest',
+            embedding: process.env.OLLAMA_EMBEDDING_MODEL || 'nomic-embed-text',
+            agent: process.env.OLLAMA_AGENT_MODEL || 'llama3.2:latest',
+        },
+        groq: {
+            intent: process.env.GROQ_INTENT_MODEL || 'llama-3.1-8b-instant',
+            chat: process.env.GROQ_SMALLTALK_MODEL || 'llama-3.1-8b-instant',
+            embedding: process.env.GROQ_EMBEDDING_MODEL || 'nomic-embed-text-v1_5',
+            agent: process.env.GROQ_AGENT_MODEL || 'llama-3.3-70b-versatile',
+        },
+        openai: {
+            intent: process.env.OPENAI_INTENT_MODEL || 'gpt-4o-mini',
+            chat: process.env.OPENAI_SMALLTALK_MODEL || 'gpt-4o-mini',
+            embedding: process.env.OPENAI_EMBEDDING_MODEL || 'text-embedding-3-small',
+            agent: process.env.OPENAI_AGENT_MODEL || 'gpt-4o-mini',
+        },
+        fake: {
+            intent: 'fake',
+            chat: 'fake',
+            embedding: 'fake',
+            agent: 'fake',
+        },
+    };
+}
+
+function parseProvider(value: string | undefined): ProviderName | undefined {
+    if (!value) return undefined;
+    const name = value.trim().toLowerCase() as ProviderName;
+    if (!PROVIDERS.includes(name)) {
+        throw new Error(
+            `Unknown LLM provider "${value}". Expected one of: ${PROVIDERS.join(', ')}`
+        );
+    }
+    return name;
+}
+
+/**
+ * Resolve which provider and model serve a role.
+ * LLM_<ROLE>_PROVIDER / LLM_<ROLE>_MODEL override the global LLM_PROVIDER default.
+ */
+export function getLLMConfig(role: LLMRole): ProviderConfig {
+    const prefix = `LLM_${role.toUpperCase()}`;
+    const provider =
+        parseProvider(process.env[`${prefix}_PROVIDER`]) ??
+        parseProvider(process.env.LLM_PROVIDER) ??
+        'ollama';
+    const model = process.env[`${prefix}_MODEL`] || defaultModels()[provider][role];
+
+    switch (provider) {
+        case 'ollama':
+            return {
+                provider,
+                model,
+                baseUrl: process.env.OLLAMA_BASE_URL || 'http://localhost:11434',
+            };
+        case 'groq':
+            return {
+                provider,
+                model,
+                baseUrl: process.env.GROQ_BASE_URL,
+                apiKey: process.env.GROQ_API_KEY,
+            };
+        case 'openai':
+            return {
+                provider,
+                model,
+                baseUrl: process.env.OPENAI_BASE_URL,
+                apiKey: process.env.OPENAI_API_KEY,
+            };
+        default:
+            return { provider, model };
+    }
+}
@@ -0,0 +1,32 @@
+import path from 'path';
+
+export interface MemoryQueueConfig {
+    enabled: boolean;
+    /** Where the queue log and dead letters are kept */
+    dir: string;
+    /** Messages embedded per embedding request */
+    batchSize: number;
+    /** How often waiting messages are picked up when nothing new arrives */
+    flushIntervalMs: number;
+    /** Attempts before a message is dead-lettered */
+    maxAttempts: number;
+    /** Retry delay after the first failure; doubles with every further attempt */
+    retryBaseMs: number;
+    retryMaxMs: number;
+}
+
+/**
+ * Write-behind memory queue settings. MEMORY_QUEUE_ENABLED=false stores exchanges before the
+ * response instead.
+ */
+export function getMemoryQueueConfig(): MemoryQueueConfig {
+    return {
+        enabled: process.env.MEMORY_QUEUE_ENABLED !== 'false',
+        dir: path.resolve(process.env.MEMORY_QUEUE_DIR || 'data/memory-queue'),
+        batchSize: Number(process.env.MEMORY_QUEUE_BATCH_SIZE) || 32,
+        flushIntervalMs: Number(process.env.MEMORY_QUEUE_FLUSH_INTERVAL_MS) || 1000,
+        maxAttempts: Number(process.env.MEMORY_QUEUE_MAX_ATTEMPTS) || 8,
+        retryBaseMs: Number(process.env.MEMORY_QUEUE_RETRY_BASE_MS) || 2000,
+        retryMaxMs: Number(process.env.MEMORY_QUEUE_RETRY_MAX_MS) || 5 * 60_000,
+    };
+}
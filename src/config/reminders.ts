@@ -0,0 +1,53 @@
+export const REMINDER_CHANNELS = ['inbox', 'log', 'webhook'] as const;
+
+export type ReminderChannel = (typeof REMINDER_CHANNELS)[number];
+
+export interface ReminderConfig {
+    enabled: boolean;
+    channel: ReminderChannel;
+    webhookUrl?: string;
+    webhookSecret?: string;
+    /** How long before a timed task the reminder fires */
+    leadMinutes: number;
+    /** Wall-clock time reminders fire for tasks that only have a due date */
+    defaultTime: string;
+    pollIntervalMs: number;
+    maxAttempts: number;
+}
+
+function parseChannel(value: string | undefined): ReminderChannel {
+    const channel = (value?.trim().toLowerCase() || 'inbox') as ReminderChannel;
+    if (!REMINDER_CHANNELS.includes(channel)) {
+        throw new Error(
+            `Unknown REMINDER_DELIVERY "${value}". Expected one of: ${REMINDER_CHANNELS.join(', ')}`
+        );
+    }
+    return channel;
+}
+
+/**
+ * Reminder settings. REMINDER_DELIVERY picks where fired reminders go (every reminder is also
+ * kept in the inbox).
+ */
+export function getReminderConfig(): ReminderConfig {
+    const channel = parseChannel(process.env.REMINDER_DELIVERY);
+    if (channel === 'webhook' && !process.env.REMINDER_WEBHOOK_URL) {
+        throw new Error('REMINDER_DELIVERY=webhook requires REMINDER_WEBHOOK_URL');
+    }
+    const defaultTime = process.env.REMINDER_DEFAULT_TIME || '09:00';
+    if (!/^([01]\d|2[0-3]):[0-5]\d$/.test(defaultTime)) {
+        throw new Error(`REMINDER_DEFAULT_TIME must be HH:MM, got "${defaultTime}"`);
+    }
+
+    return {
+        enabled: process.env.REMINDERS_ENABLED !== 'false',
+        channel,
+        webhookUrl: process.env.REMINDER_WEBHOOK_URL,
+        webhookSecret: process.env.REMINDER_WEBHOOK_SECRET,
+        // 0 is a valid lead: remind exactly at the due time
+        leadMinutes: Number(process.env.REMINDER_LEAD_MINUTES ?? 15) || 0,
+        defaultTime,
+        pollIntervalMs: Number(process.env.REMINDER_POLL_INTERVAL_MS) || 30_000,
+        maxAttempts: Number(process.env.REMINDER_MAX_ATTEMPTS) || 5,
+    };
+}
@@ -0,0 +1,33 @@
+import type { HybridRanking } from '../utils/ranking';
+
+export const MEMORY_SEARCH_MODES = ['vector', 'hybrid'] as const;
+export type MemorySearchMode = (typeof MEMORY_SEARCH_MODES)[number];
+
+export interface RetrievalConfig {
+    /** Used when a search does not choose a mode */
+    mode: MemorySearchMode;
+    ranking: HybridRanking;
+}
+
+/**
+ * Memory search settings. Hybrid search (vector similarity, full-text and recency) is the
+ * default; MEMORY_SEARCH_MODE=vector keeps similarity-only matching.
+ */
+export function getRetrievalConfig(): RetrievalConfig {
+    const mode = process.env.MEMORY_SEARCH_MODE as MemorySearchMode;
+    const recencyWeight = Number(process.env.HYBRID_RECENCY_WEIGHT);
+    return {
+        mode: MEMORY_SEARCH_MODES.includes(mode) ? mode : 'hybrid',
+        ranking: {
+            rrfK: Number(process.env.HYBRID_RRF_K) || 60,
+            vectorWeight: Number(process.env.HYBRID_VECTOR_WEIGHT) || 1,
+            textWeight: Number(process.env.HYBRID_TEXT_WEIGHT) || 1,
+            // 0 is a meaningful weight (no recency boost), so only a missing value defaults
+            recencyWeight:
+                Number.isFinite(recencyWeight) && process.env.HYBRID_RECENCY_WEIGHT
+                    ? Math.min(Math.max(recencyWeight, 0), 1)
+                    : 0.2,
+            recencyHalfLifeDays: Number(process.env.HYBRID_RECENCY_HALF_LIFE_DAYS) || 30,
+        },
+    };
+}
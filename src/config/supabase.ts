@@ -4,21 +4,21 @@ const supabaseUrl = process.env.SUPABASE_URL;
 const supabaseAnonKey = process.env.SUPABASE_ANON_KEY;
 const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
 
-if (!supabaseUrl || !supabaseAnonKey) {
-    throw new Error('Missing Supabase environment variables');
-}
+// Both clients are null when Supabase is not configured (local storage backend)
 
 // Public client (for client-side operations)
-export const supabase = createClient(supabaseUrl, supabaseAnonKey);
+export const supabase: SupabaseClient | null =
+    supabaseUrl && supabaseAnonKey ? createClient(supabaseUrl, supabaseAnonKey) : null;
 
 // Admin client (for server-side operations)
-export const supabaseAdmin = supabaseServiceRoleKey
-    ? createClient(supabaseUrl, supabaseServiceRoleKey, {
-          auth: {
-              autoRefreshToken: false,
-              persistSession: false,
-          },
-      })
-    : null;
+export const supabaseAdmin: SupabaseClient | null =
+    supabaseUrl && supabaseServiceRoleKey
+        ? createClient(supabaseUrl, supabaseServiceRoleKey, {
+              auth: {
+                  autoRefreshToken: false,
+                  persistSession: false,
+              },
+          })
+        : null;
 
 export type { SupabaseClient };
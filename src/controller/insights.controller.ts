@@ -0,0 +1,30 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { getInsights } from '../services/insights.service';
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+/**
+ * Raw productivity metrics for charts: ?period=this week|last month|past 90 days
+ * (default past 30 days)
+ */
+export const getProductivityInsights = async (req: Request, res: Response) => {
+    const period = typeof req.query.period === 'string' ? req.query.period : undefined;
+    try {
+        const metrics = await getInsights(
+            req.user!.id,
+            { period },
+            { timeZone: req.profile?.timezone }
+        );
+        res.json(metrics);
+        return;
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return res.status(400).json({
+                error: 'Invalid insights period',
+                details: error.flatten().fieldErrors,
+            });
+        }
+        return res.status(500).json({ error: errorMessage(error) });
+    }
+};
@@ -0,0 +1,122 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import * as journalService from '../services/journal.service';
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+function handleError(res: Response, error: unknown, invalidMessage = 'Invalid journal entry') {
+    if (error instanceof z.ZodError) {
+        return res.status(400).json({
+            error: invalidMessage,
+            details: error.flatten().fieldErrors,
+        });
+    }
+    return res.status(500).json({ error: errorMessage(error) });
+}
+
+// Date ranges are calendar days in the caller's timezone
+function journalContext(req: Request): journalService.JournalContext {
+    return { timeZone: req.profile?.timezone };
+}
+
+function parseEntryId(req: Request): number | null {
+    const id = Number(req.params.id);
+    return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+// Only single string values; repeated parameters are ignored
+function stringQuery(req: Request): Record<string, string> {
+    return Object.fromEntries(
+        Object.entries(req.query).filter((entry): entry is [string, string] => {
+            return typeof entry[1] === 'string';
+        })
+    );
+}
+
+/**
+ * ?from=2025-10-01&to=2025-10-31&q=gratitude&mode=text|semantic&cursor=...&limit=20
+ */
+export const getEntries = async (req: Request, res: Response) => {
+    try {
+        const page = await journalService.listEntries(
+            req.user!.id,
+            stringQuery(req),
+            journalContext(req)
+        );
+        res.json(page);
+        return;
+    } catch (error) {
+        return handleError(res, error, 'Invalid journal query');
+    }
+};
+
+export const exportEntries = async (req: Request, res: Response) => {
+    try {
+        const file = await journalService.exportEntries(
+            req.user!.id,
+            stringQuery(req),
+            journalContext(req)
+        );
+        res.setHeader('Content-Type', file.contentType);
+        res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+        res.send(file.body);
+        return;
+    } catch (error) {
+        return handleError(res, error, 'Invalid journal export');
+    }
+};
+
+export const getEntryById = async (req: Request, res: Response) => {
+    const id = parseEntryId(req);
+    try {
+        const entry = id ? await journalService.getEntry(req.user!.id, id) : null;
+        if (entry) {
+            res.json(entry);
+            return;
+        } else {
+            res.status(404).send('Journal entry not found');
+            return;
+        }
+    } catch (error) {
+        return handleError(res, error);
+    }
+};
+
+export const createEntry = async (req: Request, res: Response) => {
+    try {
+        const entry = await journalService.createEntry(req.user!.id, req.body);
+        res.status(201).json(entry);
+        return;
+    } catch (error) {
+        return handleError(res, error);
+    }
+};
+
+export const updateEntry = async (req: Request, res: Response) => {
+    const id = parseEntryId(req);
+    try {
+        const entry = id ? await journalService.updateEntry(req.user!.id, id, req.body) : null;
+        if (entry) {
+            res.json(entry);
+            return;
+        } else {
+            res.status(404).send('Journal entry not found');
+            return;
+        }
+    } catch (error) {
+        return handleError(res, error);
+    }
+};
+
+export const deleteEntry = async (req: Request, res: Response) => {
+    const id = parseEntryId(req);
+    try {
+        if (id) {
+            await journalService.deleteEntry(req.user!.id, id);
+        }
+        res.status(204).send();
+        return;
+    } catch (error) {
+        return handleError(res, error);
+    }
+};
@@ -0,0 +1,133 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import * as memoryService from '../services/memory.service';
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+function handleError(res: Response, error: unknown, invalidMessage = 'Invalid memory') {
+    if (error instanceof z.ZodError) {
+        return res.status(400).json({
+            error: invalidMessage,
+            details: error.flatten().fieldErrors,
+        });
+    }
+    return res.status(500).json({ error: errorMessage(error) });
+}
+
+// Date ranges are calendar days in the caller's timezone
+function memoryContext(req: Request): memoryService.MemoryContext {
+    return { timeZone: req.profile?.timezone };
+}
+
+function parseMemoryId(req: Request): number | null {
+    const id = Number(req.params.id);
+    return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+// Only single string values; repeated parameters are ignored
+function stringQuery(req: Request): Record<string, string> {
+    return Object.fromEntries(
+        Object.entries(req.query).filter((entry): entry is [string, string] => {
+            return typeof entry[1] === 'string';
+        })
+    );
+}
+
+/**
+ * ?role=user|ai&from=2025-10-01&to=2025-10-31&pinned=true&cursor=...&limit=20
+ */
+export const getMemories = async (req: Request, res: Response) => {
+    try {
+        const page = await memoryService.listMemories(
+            req.user!.id,
+            stringQuery(req),
+            memoryContext(req)
+        );
+        res.json(page);
+        return;
+    } catch (error) {
+        return handleError(res, error, 'Invalid memory query');
+    }
+};
+
+/**
+ * ?q=my sister&mode=vector|hybrid&role=user&from=2025-10-01&to=2025-10-31&summary_id=7&limit=10
+ */
+export const searchMemories = async (req: Request, res: Response) => {
+    try {
+        const memories = await memoryService.searchMemoryRecords(
+            req.user!.id,
+            stringQuery(req),
+            memoryContext(req)
+        );
+        res.json({ memories });
+        return;
+    } catch (error) {
+        return handleError(res, error, 'Invalid memory search');
+    }
+};
+
+export const getMemoryById = async (req: Request, res: Response) => {
+    const id = parseMemoryId(req);
+    try {
+        const memory = id ? await memoryService.getMemory(req.user!.id, id) : null;
+        if (memory) {
+            res.json(memory);
+            return;
+        } else {
+            res.status(404).send('Memory not found');
+            return;
+        }
+    } catch (error) {
+        return handleError(res, error);
+    }
+};
+
+export const updateMemory = async (req: Request, res: Response) => {
+    const id = parseMemoryId(req);
+    try {
+        const memory = id ? await memoryService.updateMemory(req.user!.id, id, req.body) : null;
+        if (memory) {
+            res.json(memory);
+            return;
+        } else {
+            res.status(404).send('Memory not found');
+            return;
+        }
+    } catch (error) {
+        return handleError(res, error);
+    }
+};
+
+export const deleteMemory = async (req: Request, res: Response) => {
+    const id = parseMemoryId(req);
+    try {
+        const deleted = id ? await memoryService.deleteMemory(req.user!.id, id) : false;
+        if (deleted) {
+            res.status(204).send();
+            return;
+        } else {
+            res.status(404).send('Memory not found');
+            return;
+        }
+    } catch (error) {
+        return handleError(res, error);
+    }
+};
+
+/**
+ * ?from=2025-10-01&to=2025-10-31&role=user&include_pinned=true
+ */
+export const purgeMemories = async (req: Request, res: Response) => {
+    try {
+        const deleted = await memoryService.purgeMemories(
+            req.user!.id,
+            stringQuery(req),
+            memoryContext(req)
+        );
+        res.json({ deleted });
+        return;
+    } catch (error) {
+        return handleError(res, error, 'Invalid memory purge');
+    }
+};
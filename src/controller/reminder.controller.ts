@@ -0,0 +1,40 @@
+import { Request, Response } from 'express';
+import { getRepositories } from '../repositories';
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+/**
+ * The reminder inbox: ?unread=true for unread only, ?limit= up to 100 (default 50)
+ */
+export const getReminders = async (req: Request, res: Response) => {
+    const limit = Math.min(Math.max(Number(req.query.limit) || 50, 1), 100);
+    try {
+        const reminders = await getRepositories().reminders.list(req.user!.id, {
+            unreadOnly: req.query.unread === 'true',
+            limit,
+        });
+        res.json(reminders);
+        return;
+    } catch (error) {
+        return res.status(500).json({ error: errorMessage(error) });
+    }
+};
+
+export const markReminderRead = async (req: Request, res: Response) => {
+    const id = Number(req.params.id);
+    try {
+        const reminder =
+            Number.isInteger(id) && id > 0
+                ? await getRepositories().reminders.markRead(req.user!.id, id)
+                : null;
+        if (reminder) {
+            res.json(reminder);
+            return;
+        } else {
+            res.status(404).send('Reminder not found');
+            return;
+        }
+    } catch (error) {
+        return res.status(500).json({ error: errorMessage(error) });
+    }
+};
@@ -0,0 +1,29 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { summarize } from '../services/summary.service';
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+/**
+ * ?period=today|yesterday|this week|last week|last month|past 7 days (default today)
+ */
+export const getSummary = async (req: Request, res: Response) => {
+    const period = typeof req.query.period === 'string' ? req.query.period : undefined;
+    try {
+        const summary = await summarize(
+            req.user!.id,
+            { period },
+            { timeZone: req.profile?.timezone }
+        );
+        res.json(summary);
+        return;
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return res.status(400).json({
+                error: 'Invalid summary period',
+                details: error.flatten().fieldErrors,
+            });
+        }
+        return res.status(500).json({ error: errorMessage(error) });
+    }
+};
@@ -1,72 +1,122 @@
 import { Request, Response } from 'express';
-import { supabaseAdmin } from '../config/supabase';
+import { z } from 'zod';
+import { TaskQueryInput } from '../models/task.model';
+import * as taskService from '../services/task.service';
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+function handleError(res: Response, error: unknown, invalidMessage = 'Invalid task') {
+    if (error instanceof z.ZodError) {
+        return res.status(400).json({
+            error: invalidMessage,
+            details: error.flatten().fieldErrors,
+        });
+    }
+    return res.status(500).json({ error: errorMessage(error) });
+}
+
+// Due dates and reminders are worked out in the caller's timezone
+function taskContext(req: Request): taskService.TaskContext {
+    return { timeZone: req.profile?.timezone };
+}
+
+function parseTaskId(req: Request): number | null {
+    const id = Number(req.params.id);
+    return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+/**
+ * ?status=pending,in_progress&priority=high,urgent&tag=work&search=report
+ * &due_from=2025-10-20&due_to=2025-10-26&sort=due_date&order=asc&limit=20
+ */
+function parseListQuery(req: Request): TaskQueryInput | undefined {
+    const value = (key: string) => {
+        const raw = req.query[key];
+        return typeof raw === 'string' && raw.trim() ? raw.trim() : undefined;
+    };
+    const list = (key: string) =>
+        value(key)
+            ?.split(',')
+            .map(item => item.trim());
+
+    const query: Record<string, unknown> = {
+        status: list('status'),
+        priority: list('priority'),
+        tag: value('tag'),
+        search: value('search'),
+        due_from: value('due_from'),
+        due_to: value('due_to'),
+        sort: value('sort'),
+        order: value('order'),
+        limit: value('limit') === undefined ? undefined : Number(value('limit')),
+    };
+    const given = Object.entries(query).filter(([, v]) => v !== undefined);
+    return given.length ? (Object.fromEntries(given) as TaskQueryInput) : undefined;
+}
 
 export const getTasks = async (req: Request, res: Response) => {
-    const { data, error } = await supabaseAdmin!.from('tasks').select('*');
-    if (error) {
-        return res.status(500).json({ error: error.message });
+    try {
+        const tasks = await taskService.listTasks(req.user!.id, parseListQuery(req));
+        res.json(tasks);
+        return;
+    } catch (error) {
+        return handleError(res, error, 'Invalid task query');
     }
-    res.json(data);
-    return;
 };
 
 export const getTaskById = async (req: Request, res: Response) => {
-    const { data, error } = await supabaseAdmin!
-        .from('tasks')
-        .select('*')
-        .eq('id', req.params.id)
-        .single();
-    if (error) {
-        return res.status(500).json({ error: error.message });
-    }
-    if (data) {
-        res.json(data);
-        return;
-    } else {
-        res.status(404).send('Task not found');
-        return;
+    const id = parseTaskId(req);
+    try {
+        const task = id ? await taskService.getTask(req.user!.id, id) : null;
+        if (task) {
+            res.json(task);
+            return;
+        } else {
+            res.status(404).send('Task not found');
+            return;
+        }
+    } catch (error) {
+        return handleError(res, error);
     }
 };
 
 export const createTask = async (req: Request, res: Response) => {
-    const { title, description } = req.body;
-    const { data, error } = await supabaseAdmin!
-        .from('tasks')
-        .insert([{ title, description, completed: false }])
-        .select()
-        .single();
-    if (error) {
-        return res.status(500).json({ error: error.message });
+    try {
+        const task = await taskService.createTask(req.user!.id, req.body, taskContext(req));
+        res.status(201).json(task);
+        return;
+    } catch (error) {
+        return handleError(res, error);
     }
-    res.status(201).json(data);
-    return;
 };
 
 export const updateTask = async (req: Request, res: Response) => {
-    const { title, description, completed } = req.body;
-    const { data, error } = await supabaseAdmin!
-        .from('tasks')
-        .update({ title, description, completed })
-        .eq('id', req.params.id)
-        .select()
-        .single();
-    if (error) {
-        return res.status(500).json({ error: error.message });
-    }
-    if (data) {
-        res.json(data);
-        return;
-    } else {
-        res.status(404).send('Task not found');
-        return;
+    const id = parseTaskId(req);
+    try {
+        const task = id
+            ? await taskService.updateTask(req.user!.id, id, req.body, taskContext(req))
+            : null;
+        if (task) {
+            res.json(task);
+            return;
+        } else {
+            res.status(404).send('Task not found');
+            return;
+        }
+    } catch (error) {
+        return handleError(res, error);
     }
 };
 
 export const deleteTask = async (req: Request, res: Response) => {
-    const { error } = await supabaseAdmin!.from('tasks').delete().eq('id', req.params.id);
-    if (error) {
-        return res.status(500).json({ error: error.message });
+    const id = parseTaskId(req);
+    try {
+        if (id) {
+            await taskService.deleteTask(req.user!.id, id);
+        }
+        res.status(204).send();
+        return;
+    } catch (error) {
+        return handleError(res, error);
     }
-    res.status(204).send();
-    return;
 };
@@ -0,0 +1,101 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+import dotenv from 'dotenv';
+import {
+    createRecordingProvider,
+    getProvider,
+    loadRecordings,
+    RecordingProvider,
+    saveRecordings,
+    setProvider,
+} from '../llm';
+import { evaluateIntents, formatMarkdown, LabelledExample } from './intents';
+import defaultCorpus from './intents.corpus.json';
+import { logger } from '../utils/logger';
+
+dotenv.config();
+
+const USAGE = `Usage: npm run eval:intents -- [--record | --replay] [options]
+
+Runs the labelled corpus through intent detection and parameter extraction and writes
+report.json and report.md. Without --record or --replay the configured intent model is
+called directly.
+
+  --record              Call the intent model and save its responses to the fixtures file
+  --replay              Answer from the fixtures file instead of a model (offline)
+  --fixtures <file>     Fixtures file (default src/eval/fixtures/intents.json)
+  --corpus <file>       Labelled corpus (default src/eval/intents.corpus.json)
+  --out <dir>           Where the reports are written (default eval-results)
+  --min-accuracy <n>    Exit with status 1 when intent accuracy is below n (0..1)`;
+
+async function main(): Promise<number> {
+    const { values } = parseArgs({
+        options: {
+            record: { type: 'boolean', default: false },
+            replay: { type: 'boolean', default: false },
+            fixtures: { type: 'string', default: 'src/eval/fixtures/intents.json' },
+            corpus: { type: 'string' },
+            out: { type: 'string', default: 'eval-results' },
+            'min-accuracy': { type: 'string' },
+            help: { type: 'boolean', default: false },
+        },
+    });
+    if (values.help || (values.record && values.replay)) {
+        logger.info(USAGE);
+        return values.help ? 0 : 1;
+    }
+
+    const corpus: LabelledExample[] = values.corpus
+        ? JSON.parse(await fs.readFile(values.corpus, 'utf8'))
+        : (defaultCorpus as LabelledExample[]);
+
+    let recorder: RecordingProvider | null = null;
+    if (values.record) {
+        recorder = createRecordingProvider({ mode: 'record', provider: getProvider('intent') });
+    } else if (values.replay) {
+        const recordings = await loadRecordings(values.fixtures).catch(error => {
+            if (error.code !== 'ENOENT') throw error;
+            throw new Error(`No fixtures at ${values.fixtures}; run with --record first`);
+        });
+        recorder = createRecordingProvider({ mode: 'replay', recordings });
+    }
+    if (recorder) setProvider('intent', recorder);
+
+    const report = await evaluateIntents(corpus, (result, index) => {
+        const mark = result.expected === result.predicted ? '✓' : '✗';
+        logger.info(`${mark} [${index + 1}/${corpus.length}] ${result.text}`);
+    });
+
+    if (values.record && recorder) {
+        await saveRecordings(values.fixtures, recorder.recordings);
+        logger.info(
+            `Recorded ${Object.keys(recorder.recordings.recordings).length} responses to ${values.fixtures}`
+        );
+    }
+
+    await fs.mkdir(values.out, { recursive: true });
+    await fs.writeFile(
+        path.join(values.out, 'report.json'),
+        `${JSON.stringify(report, null, 4)}\n`
+    );
+    await fs.writeFile(path.join(values.out, 'report.md'), formatMarkdown(report));
+    logger.info(
+        `Intent accuracy ${report.accuracy}, slot accuracy ${report.slots.accuracy}; reports in ${values.out}`
+    );
+
+    const minimum = Number(values['min-accuracy']);
+    if (values['min-accuracy'] !== undefined && report.accuracy < minimum) {
+        logger.error(`Intent accuracy ${report.accuracy} is below ${minimum}`);
+        return 1;
+    }
+    return 0;
+}
+
+main().then(
+    code => process.exit(code),
+    error => {
+        logger.error(error instanceof Error ? error.message : error);
+        process.exit(1);
+    }
+);
@@ -0,0 +1,254 @@
+import { getProvider } from '../llm';
+import { detectIntent, extractParameters } from '../services/chat.service';
+import { Intent } from '../intents';
+
+export type SlotValue = string | number;
+
+/** A labelled message: the intent it should get and, optionally, slots it should yield */
+export interface LabelledExample {
+    text: string;
+    intent: Intent;
+    params?: Record<string, SlotValue>;
+}
+
+export interface ExampleResult {
+    text: string;
+    expected: Intent;
+    predicted: Intent;
+    /** Expected slots against what was extracted, empty for examples without labelled slots */
+    slots: { field: string; expected: SlotValue; actual: unknown }[];
+}
+
+export interface IntentMetrics {
+    precision: number;
+    recall: number;
+    f1: number;
+    /** Examples labelled with the intent */
+    support: number;
+}
+
+export interface SlotMetrics {
+    correct: number;
+    total: number;
+    accuracy: number;
+}
+
+export interface EvaluationReport {
+    provider: string;
+    model: string;
+    examples: number;
+    accuracy: number;
+    intents: Record<Intent, IntentMetrics>;
+    /** Counts by expected intent, then predicted intent */
+    confusion: Record<Intent, Record<Intent, number>>;
+    slots: SlotMetrics & { fields: Record<string, SlotMetrics> };
+    misclassified: { text: string; expected: Intent; predicted: Intent }[];
+    slot_errors: { text: string; field: string; expected: SlotValue; actual: unknown }[];
+}
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+const ratio = (part: number, whole: number) => (whole ? round(part / whole) : 0);
+
+// Slots are copied "as written", so case, punctuation and spacing do not count
+function normalize(value: unknown): string {
+    return String(value ?? '')
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, ' ')
+        .trim();
+}
+
+export function slotMatches(expected: SlotValue, actual: unknown): boolean {
+    return typeof expected === 'number'
+        ? Number(actual) === expected
+        : normalize(expected) === normalize(actual);
+}
+
+/**
+ * Run every example through intent detection, and the labelled ones through parameter
+ * extraction for their expected intent, so slot accuracy does not depend on the intent
+ * being right. Examples run one at a time; the intent model serves one request at a time
+ * on most laptops anyway.
+ */
+export async function runExamples(
+    corpus: LabelledExample[],
+    onResult?: (result: ExampleResult, index: number) => void
+): Promise<ExampleResult[]> {
+    const results: ExampleResult[] = [];
+
+    for (const example of corpus) {
+        const predicted = await detectIntent(example.text);
+        const expectedSlots = Object.entries(example.params ?? {});
+        const extracted = expectedSlots.length
+            ? await extractParameters(example.intent, example.text)
+            : {};
+
+        const result: ExampleResult = {
+            text: example.text,
+            expected: example.intent,
+            predicted,
+            slots: expectedSlots.map(([field, expected]) => ({
+                field,
+                expected,
+                actual: extracted[field],
+            })),
+        };
+        results.push(result);
+        onResult?.(result, results.length - 1);
+    }
+    return results;
+}
+
+export function buildReport(
+    results: ExampleResult[],
+    model: { provider: string; model: string }
+): EvaluationReport {
+    const labels = [...new Set(results.flatMap(r => [r.expected, r.predicted]))].sort();
+
+    const confusion: EvaluationReport['confusion'] = {};
+    for (const expected of labels) {
+        confusion[expected] = Object.fromEntries(labels.map(predicted => [predicted, 0]));
+    }
+    results.forEach(r => confusion[r.expected][r.predicted]++);
+
+    const intents: EvaluationReport['intents'] = {};
+    for (const intent of labels) {
+        const truePositives = confusion[intent][intent];
+        const predicted = labels.reduce((sum, expected) => sum + confusion[expected][intent], 0);
+        const support = results.filter(r => r.expected === intent).length;
+        const precision = ratio(truePositives, predicted);
+        const recall = ratio(truePositives, support);
+        intents[intent] = {
+            precision,
+            recall,
+            f1: precision + recall ? round((2 * precision * recall) / (precision + recall)) : 0,
+            support,
+        };
+    }
+
+    const slotResults = results.flatMap(r =>
+        r.slots.map(slot => ({
+            ...slot,
+            text: r.text,
+            correct: slotMatches(slot.expected, slot.actual),
+        }))
+    );
+    const fields: Record<string, SlotMetrics> = {};
+    for (const field of [...new Set(slotResults.map(slot => slot.field))].sort()) {
+        const ofField = slotResults.filter(slot => slot.field === field);
+        const correct = ofField.filter(slot => slot.correct).length;
+        fields[field] = {
+            correct,
+            total: ofField.length,
+            accuracy: ratio(correct, ofField.length),
+        };
+    }
+    const correctSlots = slotResults.filter(slot => slot.correct).length;
+
+    const correct = results.filter(r => r.expected === r.predicted).length;
+    return {
+        provider: model.provider,
+        model: model.model,
+        examples: results.length,
+        accuracy: ratio(correct, results.length),
+        intents,
+        confusion,
+        slots: {
+            correct: correctSlots,
+            total: slotResults.length,
+            accuracy: ratio(correctSlots, slotResults.length),
+            fields,
+        },
+        misclassified: results
+            .filter(r => r.expected !== r.predicted)
+            .map(({ text, expected, predicted }) => ({ text, expected, predicted })),
+        slot_errors: slotResults
+            .filter(slot => !slot.correct)
+            .map(({ text, field, expected, actual }) => ({ text, field, expected, actual })),
+    };
+}
+
+/**
+ * Evaluate the intent model on a labelled corpus with whichever provider serves the intent role
+ */
+export async function evaluateIntents(
+    corpus: LabelledExample[],
+    onResult?: (result: ExampleResult, index: number) => void
+): Promise<EvaluationReport> {
+    const { name, model } = getProvider('intent');
+    const results = await runExamples(corpus, onResult);
+    return buildReport(results, { provider: name, model });
+}
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+function table(header: string[], rows: (string | number)[][]): string {
+    return [
+        `| ${header.join(' | ')} |`,
+        `| ${header.map(() => '---').join(' | ')} |`,
+        ...rows.map(row => `| ${row.join(' | ')} |`),
+    ].join('\n');
+}
+
+export function formatMarkdown(report: EvaluationReport): string {
+    const labels = Object.keys(report.confusion);
+    const sections = [
+        `# Intent evaluation: ${report.provider} ${report.model}`,
+        `Intent accuracy: **${percent(report.accuracy)}** over ${report.examples} examples. ` +
+            `Slot accuracy: **${percent(report.slots.accuracy)}** over ${report.slots.total} slots.`,
+        '## Intents',
+        table(
+            ['Intent', 'Precision', 'Recall', 'F1', 'Support'],
+            Object.entries(report.intents).map(([intent, m]) => [
+                intent,
+                percent(m.precision),
+                percent(m.recall),
+                percent(m.f1),
+                m.support,
+            ])
+        ),
+        '## Confusion matrix',
+        'Rows are the expected intent, columns the predicted one.',
+        table(
+            ['', ...labels],
+            labels.map(expected => [
+                expected,
+                ...labels.map(predicted => report.confusion[expected][predicted] || '·'),
+            ])
+        ),
+        '## Slots',
+        table(
+            ['Slot', 'Correct', 'Total', 'Accuracy'],
+            Object.entries(report.slots.fields).map(([field, m]) => [
+                field,
+                m.correct,
+                m.total,
+                percent(m.accuracy),
+            ])
+        ),
+    ];
+
+    if (report.misclassified.length) {
+        sections.push(
+            '## Misclassified',
+            table(
+                ['Message', 'Expected', 'Predicted'],
+                report.misclassified.map(m => [m.text, m.expected, m.predicted])
+            )
+        );
+    }
+    if (report.slot_errors.length) {
+        sections.push(
+            '## Slot errors',
+            table(
+                ['Message', 'Slot', 'Expected', 'Extracted'],
+                report.slot_errors.map(e => [
+                    e.text,
+                    e.field,
+                    String(e.expected),
+                    e.actual === undefined ? '(none)' : JSON.stringify(e.actual),
+                ])
+            )
+        );
+    }
+    return `${sections.join('\n\n')}\n`;
+}
@@ -22,13 +22,34 @@ app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 import authRoutes from './routes/auth';
 import chatRoutes from './routes/chat';
 import taskRoutes from './routes/task.route';
+import reminderRoutes from './routes/reminder.route';
+import journalRoutes from './routes/journal.route';
+import summaryRoutes from './routes/summary.route';
+import insightsRoutes from './routes/insights.route';
+import memoryRoutes from './routes/memory.route';
 import { errorHandler } from './middleware/errorHandler';
 import { notFoundHandler } from './middleware/notFoundHandler';
+import { getStorageBackend } from './repositories';
+import { startReminders } from './reminders';
+import { getReminderConfig } from './config/reminders';
+import { startCompaction } from './memory/compaction';
+import { ReembedScheduler, startReembedding } from './memory/reembed';
+import { getEmbeddingConfig } from './config/embedding';
+import { getMemoryQueue, startMemoryQueue } from './memory/queue';
+import { getAgentConfig } from './config/agent';
+import { logger } from './utils/logger';
 
 // API routes
 app.use('/api/auth', authRoutes);
 app.use('/api', chatRoutes);
 app.use('/api/tasks', taskRoutes);
+app.use('/api/reminders', reminderRoutes);
+app.use('/api/journal', journalRoutes);
+app.use('/api/summaries', summaryRoutes);
+app.use('/api/insights', insightsRoutes);
+app.use('/api/memories', memoryRoutes);
+
+let reembedding: ReembedScheduler | null = null;
 
 // Health check endpoint
 app.get('/health', (req, res) => {
@@ -36,6 +57,8 @@ app.get('/health', (req, res) => {
         status: 'OK',
         timestamp: new Date().toISOString(),
         environment: process.env.NODE_ENV || 'development',
+        reembedding: reembedding?.progress() ?? null,
+        memory_queue: getMemoryQueue()?.stats() ?? null,
     });
 });
 
@@ -47,13 +70,26 @@ app.use(errorHandler);
 
 const HOST = process.env.HOST || '0.0.0.0';
 
+// Chat reads these on every message; an invalid value stops the server here instead
+const agentConfig = getAgentConfig();
+
 app.listen(parseInt(PORT.toString()), HOST, () => {
-    console.log(`🚀 Server running on ${HOST}:${PORT}`);
-    console.log(`📊 Health check: http://localhost:${PORT}/health`);
-    console.log(`🔐 Auth API: http://localhost:${PORT}/api/auth`);
-    console.log(`💬 Chat API: http://localhost:${PORT}/api/send-message`);
-    console.log(`🌐 Network access: http://${HOST}:${PORT}`);
-    console.log(`� Environment: ${process.env.NODE_ENV || 'development'}`);
+    logger.info(`🚀 Server running on ${HOST}:${PORT}`);
+    logger.info(`📊 Health check: http://localhost:${PORT}/health`);
+    logger.info(`🔐 Auth API: http://localhost:${PORT}/api/auth`);
+    logger.info(`💬 Chat API: http://localhost:${PORT}/api/send-message`);
+    logger.info(`🌐 Network access: http://${HOST}:${PORT}`);
+    logger.info(`🗄️ Storage backend: ${getStorageBackend()}`);
+    logger.info(`🤖 Chat mode: ${agentConfig.defaultMode}`);
+    const reminders = startReminders();
+    logger.info(`⏰ Reminders: ${reminders ? getReminderConfig().channel : 'disabled'}`);
+    const compaction = startCompaction();
+    logger.info(`🗜️ Conversation compaction: ${compaction ? 'enabled' : 'disabled'}`);
+    reembedding = startReembedding();
+    logger.info(`🧬 Embeddings: ${getEmbeddingConfig().version}`);
+    const memoryQueue = startMemoryQueue();
+    logger.info(`📥 Memory write queue: ${memoryQueue ? 'enabled' : 'disabled'}`);
+    logger.info(`� Environment: ${process.env.NODE_ENV || 'development'}`);
 });
 
 export default app;
@@ -0,0 +1,85 @@
+import { embedTexts, getProvider } from '../llm';
+import { logger } from '../utils/logger';
+import { cosineSimilarity } from '../utils/vector';
+import { listIntents } from './registry';
+import { Intent, IntentClassification } from './types';
+
+const RULE_CONFIDENCE = 0.95;
+
+// Example embeddings by provider, model and text; registered examples do not change
+const exampleVectors = new Map<string, number[]>();
+
+/**
+ * The intent whose keyword rules match the message, when exactly one intent's do
+ */
+export function classifyByRules(message: string): IntentClassification | null {
+    const text = message.trim();
+    const matches = listIntents().filter(intent =>
+        intent.patterns?.some(pattern => pattern.test(text))
+    );
+    return matches.length === 1
+        ? { intent: matches[0].name, path: 'rules', confidence: RULE_CONFIDENCE }
+        : null;
+}
+
+/**
+ * Nearest-neighbour vote over the embedded examples of every intent. The nearest examples
+ * vote with their similarity; confidence is the winner's share of the vote scaled by its
+ * closest example's similarity, so both a split vote and a distant match score low.
+ */
+export async function classifyByExamples(
+    message: string,
+    neighbours: number
+): Promise<IntentClassification | null> {
+    const examples = listIntents().flatMap(intent =>
+        (intent.examples ?? []).map(text => ({ intent: intent.name, text }))
+    );
+    if (!examples.length) return null;
+
+    const provider = getProvider('embedding');
+    const key = (text: string) => `${provider.name}:${provider.model}:${text}`;
+    const missing = [...new Set(examples.map(example => example.text))].filter(
+        text => !exampleVectors.has(key(text))
+    );
+    const [query, ...vectors] = await embedTexts([message, ...missing]);
+    missing.forEach((text, index) => exampleVectors.set(key(text), vectors[index]));
+
+    const nearest = examples
+        .map(example => ({
+            intent: example.intent,
+            similarity: cosineSimilarity(query, exampleVectors.get(key(example.text))!),
+        }))
+        .filter(example => example.similarity > 0)
+        .sort((a, b) => b.similarity - a.similarity)
+        .slice(0, neighbours);
+    if (!nearest.length) return null;
+
+    const votes = new Map<Intent, number>();
+    for (const { intent, similarity } of nearest) {
+        votes.set(intent, (votes.get(intent) ?? 0) + similarity);
+    }
+    const [winner, score] = [...votes].sort((a, b) => b[1] - a[1])[0];
+    const total = nearest.reduce((sum, example) => sum + example.similarity, 0);
+    const closest = nearest.find(example => example.intent === winner)!.similarity;
+
+    return { intent: winner, path: 'examples', confidence: (score / total) * closest };
+}
+
+/**
+ * The fast path: keyword rules first, then the labelled examples. Embedding failures leave
+ * the decision to the intent model.
+ */
+export async function classifyLocally(
+    message: string,
+    neighbours: number
+): Promise<IntentClassification | null> {
+    const byRules = classifyByRules(message);
+    if (byRules) return byRules;
+
+    try {
+        return await classifyByExamples(message, neighbours);
+    } catch (error) {
+        logger.error('Example-based intent classification failed:', error);
+        return null;
+    }
+}
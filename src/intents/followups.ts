@@ -0,0 +1,35 @@
+import { Task } from '../models/task.model';
+import { setPendingAction } from '../services/conversation.service';
+import { getIntent } from './registry';
+import { Intent, IntentParams, SendMessageResponse } from './types';
+
+/**
+ * Ask for a missing parameter with the intent's follow-up question; the answer fills the
+ * slot and the intent runs again
+ */
+export function askForSlot(
+    userId: string,
+    intent: Intent,
+    slot: string,
+    params: IntentParams
+): SendMessageResponse {
+    setPendingAction(userId, { type: 'fill_slot', intent, slot, params });
+    return {
+        reply: getIntent(intent)?.followUps?.[slot] ?? `What is the ${slot.replace(/_/g, ' ')}?`,
+        optional_data: { pending_action: { type: 'fill_slot', intent, slot } },
+    };
+}
+
+export function askForConfirmation(
+    userId: string,
+    intent: Intent,
+    params: IntentParams,
+    task: Task,
+    question: string
+): SendMessageResponse {
+    setPendingAction(userId, { type: 'confirm', intent, params, task });
+    return {
+        reply: `${question} (yes/no)`,
+        optional_data: { pending_action: { type: 'confirm', intent, task } },
+    };
+}
@@ -0,0 +1,23 @@
+import { journalIntents } from './journal';
+import { INTENTS } from './names';
+import { registerIntent } from './registry';
+import { reportIntents } from './reports';
+import { smalltalkIntents } from './smalltalk';
+import { taskIntents } from './tasks';
+
+/**
+ * In-process intent handlers. The built-in intents register here in classifier order; other
+ * modules can add their own with registerIntent and the chat service picks them up.
+ */
+for (const definition of [
+    ...taskIntents,
+    ...journalIntents,
+    ...smalltalkIntents,
+    ...reportIntents,
+]) {
+    registerIntent(definition);
+}
+
+export { INTENTS };
+export { getIntent, listIntents, registerIntent, unregisterIntent } from './registry';
+export * from './types';
@@ -0,0 +1,33 @@
+import { z } from 'zod';
+import { createEntry } from '../services/journal.service';
+import { INTENTS } from './names';
+import { IntentDefinition } from './types';
+
+export const journalIntents: IntentDefinition[] = [
+    {
+        name: INTENTS.REFLECT_JOURNAL,
+        description: 'write a journal entry or reflect on the day, thoughts or feelings',
+        patterns: [/^(journal|dear diary)\b/i, /\b(new |a )?journal entry\b/i],
+        examples: [
+            'Journal: long day but I finished the draft',
+            'Write in my journal that I felt calm today',
+            'I want to reflect on this week',
+            'Dear diary, the interview went well',
+            'Log how I feel today',
+            'Add to my journal: ran 5k this morning',
+            'Record my thoughts about the move',
+            'Let me reflect on what went well today',
+        ],
+        singleRequest: true,
+        parameters: {
+            schema: z.object({
+                content: z.string(),
+            }),
+            instructions: 'Extract the journal content from the message.',
+        },
+        async handle(params: { content?: string }, { userId, message }) {
+            const entry = await createEntry(userId, { content: params.content || message });
+            return { reply: 'Journal entry added.', optional_data: { journal_id: entry.id } };
+        },
+    },
+];
@@ -0,0 +1,14 @@
+/** Names of the built-in intents, in the order they are registered */
+export const INTENTS = {
+    ADD_TASK: 'add_task',
+    LIST_TASKS: 'list_tasks',
+    DELETE_TASK: 'delete_task',
+    COMPLETE_TASK: 'complete_task',
+    UPDATE_TASK: 'update_task',
+    RESCHEDULE_TASK: 'reschedule_task',
+    REFLECT_JOURNAL: 'reflect_journal',
+    SMALLTALK: 'smalltalk',
+    SUMMARIES: 'summaries',
+    PERFORMANCE_INSIGHTS: 'performance_insights',
+    LONG_CONVERSATION_ANALYSIS: 'long_conversation_analysis',
+} as const;
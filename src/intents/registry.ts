@@ -0,0 +1,26 @@
+import { Intent, IntentDefinition } from './types';
+
+// Registration order is the order intents are offered to the classifier
+const intents = new Map<Intent, IntentDefinition>();
+
+/**
+ * Add an intent. Names are unique; registering one twice is a programming error.
+ */
+export function registerIntent(definition: IntentDefinition): void {
+    if (intents.has(definition.name)) {
+        throw new Error(`Intent "${definition.name}" is already registered`);
+    }
+    intents.set(definition.name, definition);
+}
+
+export function getIntent(name: Intent): IntentDefinition | null {
+    return intents.get(name) ?? null;
+}
+
+export function listIntents(): IntentDefinition[] {
+    return [...intents.values()];
+}
+
+export function unregisterIntent(name: Intent): boolean {
+    return intents.delete(name);
+}
@@ -0,0 +1,143 @@
+import { z } from 'zod';
+import { analyzeConversation } from '../services/analysis.service';
+import { getInsights, narrateInsights } from '../services/insights.service';
+import { summarize } from '../services/summary.service';
+import { INTENTS } from './names';
+import { IntentContext, IntentDefinition, SendMessageResponse } from './types';
+
+const periodSchema = z.object({
+    period: z.string().optional(),
+});
+
+const conversationAnalysisSchema = periodSchema.extend({
+    topic: z.string().optional(),
+});
+
+async function runSummary(
+    params: z.infer<typeof periodSchema>,
+    { userId, timeZone }: IntentContext
+): Promise<SendMessageResponse> {
+    const period = params.period?.trim() || 'today';
+    try {
+        const { summary, ...details } = await summarize(userId, { period }, { timeZone });
+        return { reply: summary, optional_data: details };
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return {
+                reply: `I can summarize a day, a week or a month, but I couldn't tell which period "${period}" is.`,
+            };
+        }
+        throw error;
+    }
+}
+
+// Metrics are computed from the tasks; the model only narrates them
+async function runInsights(
+    params: z.infer<typeof periodSchema>,
+    { userId, timeZone }: IntentContext
+): Promise<SendMessageResponse> {
+    const period = params.period?.trim() || undefined;
+    try {
+        const metrics = await getInsights(userId, { period }, { timeZone });
+        return { reply: await narrateInsights(metrics), optional_data: { metrics } };
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return {
+                reply: `I can report on a day, a week, a month or the past N days, but I couldn't tell which period "${period}" is.`,
+            };
+        }
+        throw error;
+    }
+}
+
+async function runConversationAnalysis(
+    params: z.infer<typeof conversationAnalysisSchema>,
+    { userId, message, timeZone }: IntentContext
+): Promise<SendMessageResponse> {
+    const period = params.period?.trim() || undefined;
+    try {
+        const { answer, ...details } = await analyzeConversation(
+            userId,
+            message,
+            { period, topic: params.topic },
+            { timeZone }
+        );
+        return { reply: answer, optional_data: details };
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return {
+                reply: `I can look back over a day, a week or a month, but I couldn't tell which period "${period}" is.`,
+            };
+        }
+        throw error;
+    }
+}
+
+export const reportIntents: IntentDefinition[] = [
+    {
+        name: INTENTS.SUMMARIES,
+        description: 'summarize what the user did or wrote over a period',
+        patterns: [/^summari[sz]e my (day|week|month)\b/i],
+        examples: [
+            'Summarize my day',
+            'What did I do yesterday?',
+            'Give me a recap of last week',
+            'Digest of the past 30 days',
+            'What happened this month?',
+            'Recap today for me',
+            'Summary of this week please',
+            'What did I get done last month?',
+        ],
+        parameters: {
+            schema: periodSchema,
+            instructions:
+                'Extract the period the user wants summarized, as written (e.g. "today", "yesterday", "this week", "last week", "last month", "past 7 days"). Leave it out if none is given.',
+        },
+        handle: runSummary,
+    },
+    {
+        name: INTENTS.PERFORMANCE_INSIGHTS,
+        description: 'report on productivity: completion rates, streaks, overdue tasks',
+        patterns: [
+            /^how productive\b/i,
+            /\b(productivity|performance) (insights|report|stats|metrics)\b/i,
+        ],
+        examples: [
+            'How productive was I this week?',
+            'Show my productivity insights',
+            'What is my completion rate?',
+            'Am I finishing tasks on time?',
+            'What is my longest streak?',
+            'Which days am I most productive?',
+            'Give me productivity stats for last month',
+            'How many tasks did I complete late?',
+        ],
+        parameters: {
+            schema: periodSchema,
+            instructions:
+                'Extract the period the user wants productivity insights for, as written (e.g. "this week", "last month", "past 90 days"). Leave it out if none is given.',
+        },
+        handle: runInsights,
+    },
+    {
+        name: INTENTS.LONG_CONVERSATION_ANALYSIS,
+        description: 'answer questions about past conversations with the assistant',
+        patterns: [/\bwhat (have|did) we (talk(ed)?|discuss(ed)?|chat(ted)?) about\b/i],
+        examples: [
+            'What have we talked about this month?',
+            'What topics keep coming up?',
+            'What did we say about my job search?',
+            'Look back over our conversations',
+            'What did I tell you about my sister?',
+            'Which subjects do we discuss most?',
+            'Recap our chats from last week',
+            'Have I mentioned the move before?',
+        ],
+        parameters: {
+            schema: conversationAnalysisSchema,
+            instructions:
+                'The user is asking about their past conversations with the assistant. Extract the period, as written (e.g. "this month", "last week"), and a specific subject they ask about (e.g. "my job search") into topic. Leave out either if not given.',
+        },
+        handle: runConversationAnalysis,
+    },
+];
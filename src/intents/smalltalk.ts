@@ -0,0 +1,58 @@
+import { generateText, streamText } from '../llm';
+import { buildConversationContext, contextToMessages } from '../memory/context';
+import { INTENTS } from './names';
+import { IntentContext, IntentDefinition, IntentParams, SendMessageResponse } from './types';
+
+// Generate AI reply for smalltalk, grounded in relevant memories and the recent conversation
+async function generateSmalltalkReply(
+    _params: IntentParams,
+    { userId, message, profile, stream }: IntentContext
+): Promise<SendMessageResponse> {
+    const userName = profile?.first_name ? ` ${profile.first_name}` : '';
+    const systemPrompt = `Respond naturally and helpfully as a friendly AI assistant in very very less words${userName ? ` to${userName}` : ''}.`;
+
+    const context = await buildConversationContext(userId, message);
+    const messages = contextToMessages(systemPrompt, context, message);
+
+    let reply = '';
+    if (stream?.onDelta) {
+        for await (const delta of streamText('chat', messages, { signal: stream.signal })) {
+            reply += delta;
+            stream.onDelta(delta);
+        }
+    } else {
+        reply = await generateText('chat', messages);
+    }
+
+    return {
+        reply: reply.trim() || "Sorry, I couldn't generate a response.",
+        optional_data: {
+            memory_ids: [...context.pinned, ...context.memories].map(memory => memory.id),
+            summary_ids: context.summaries.map(summary => summary.id),
+        },
+    };
+}
+
+export const smalltalkIntents: IntentDefinition[] = [
+    {
+        name: INTENTS.SMALLTALK,
+        description: 'anything else: greetings, questions and general conversation',
+        patterns: [
+            /^(hi|hello|hey|hiya|greetings|good (morning|afternoon|evening))( there)?[\s!.,]*$/i,
+            /^(thanks|thank you)\b/i,
+            /^how are you\b/i,
+        ],
+        examples: [
+            'Hello',
+            'Hey, how is it going?',
+            'Good morning',
+            'Thanks a lot',
+            'What can you do?',
+            'Tell me something fun',
+            'How are you doing today?',
+            'Who are you?',
+        ],
+        singleRequest: true,
+        handle: generateSmalltalkReply,
+    },
+];
@@ -0,0 +1,518 @@
+import { z } from 'zod';
+import {
+    Task,
+    TASK_SORT_FIELDS,
+    taskPrioritySchema,
+    TaskQueryInput,
+    TaskStatus,
+} from '../models/task.model';
+import {
+    DateRange,
+    formatDue,
+    parseDateRange,
+    resolveDueDate,
+    ResolvedDue,
+} from '../services/date.resolver';
+import { setPendingAction } from '../services/conversation.service';
+import { resolveTaskReference } from '../services/task.resolver';
+import {
+    completeTask,
+    createTask,
+    deleteTask,
+    listTasks,
+    updateTask,
+} from '../services/task.service';
+import { zonedDateTime } from '../utils/datetime';
+import { describeRecurrence, formatRecurrence, parseRecurrence } from '../utils/recurrence';
+import { askForConfirmation, askForSlot } from './followups';
+import { INTENTS } from './names';
+import {
+    Intent,
+    IntentContext,
+    IntentDefinition,
+    IntentParams,
+    SendMessageResponse,
+} from './types';
+
+// Identifies an existing task; shared by every intent that acts on one
+const taskReferenceShape = {
+    task_id: z.number().optional(),
+    task_description: z.string().optional(),
+};
+
+const addTaskSchema = z.object({
+    content: z.string(),
+    due_date: z.string().optional(),
+    recurrence: z.string().optional(),
+});
+
+const listTasksSchema = z.object({
+    due_period: z.string().optional(),
+    status: z.enum(['pending', 'in_progress', 'completed', 'incomplete']).optional(),
+    priority: z.union([taskPrioritySchema, z.array(taskPrioritySchema)]).optional(),
+    tag: z.string().optional(),
+    search: z.string().optional(),
+    sort: z.enum(TASK_SORT_FIELDS).optional(),
+    limit: z.number().int().positive().optional(),
+});
+
+// A follow-up may run the intent before the model filled in content
+type AddTaskParams = Partial<z.infer<typeof addTaskSchema>>;
+
+type ListTasksParams = z.infer<typeof listTasksSchema>;
+
+// What the intents that act on an existing task read; confirmed is set once the user says yes
+type TaskActionParams = {
+    task_id?: number;
+    task_description?: string;
+    new_content?: string;
+    new_due_date?: string;
+    confirmed?: boolean;
+};
+
+const TASK_REFERENCE_INSTRUCTIONS =
+    'Use task_id only for an explicit task number; otherwise put the words that describe the task in task_description (e.g. "grocery shopping", "the last one", "the task I added yesterday").';
+
+// CRUD functions for tasks
+async function addTask(
+    userId: string,
+    content: string,
+    due: ResolvedDue | undefined,
+    recurrence: string | null,
+    timeZone: string
+): Promise<Task> {
+    return createTask(
+        userId,
+        {
+            content,
+            due_date: due?.due_date ?? null,
+            due_time: due?.due_time ?? null,
+            recurrence,
+        },
+        { timeZone }
+    );
+}
+
+function dueSuffix(task: Task): string {
+    return task.due_date ? ` (due ${formatDue(task.due_date, task.due_time)})` : '';
+}
+
+function describeTask(task: Task): string {
+    return `${task.id}. ${task.content}${dueSuffix(task)}`;
+}
+
+function askToChooseTask(
+    userId: string,
+    intent: Intent,
+    params: IntentParams,
+    candidates: Task[]
+): SendMessageResponse {
+    setPendingAction(userId, { type: 'choose_task', intent, params, candidates });
+    return {
+        reply: `Which task do you mean? Reply with its number:\n${candidates.map(describeTask).join('\n')}`,
+        optional_data: { pending_action: { type: 'choose_task', intent, candidates } },
+    };
+}
+
+async function runAddTask(
+    params: AddTaskParams,
+    { userId, timeZone }: IntentContext
+): Promise<SendMessageResponse> {
+    const content = params.content?.trim();
+    if (!content) {
+        return askForSlot(userId, INTENTS.ADD_TASK, 'content', params);
+    }
+    const due = params.due_date ? await resolveDueDate(params.due_date, { timeZone }) : undefined;
+    if (due === null) {
+        return askForSlot(userId, INTENTS.ADD_TASK, 'due_date', { ...params, content });
+    }
+    const rule = params.recurrence ? parseRecurrence(params.recurrence) : undefined;
+    if (rule === null) {
+        return askForSlot(userId, INTENTS.ADD_TASK, 'recurrence', { ...params, content });
+    }
+
+    const task = await addTask(
+        userId,
+        content,
+        due,
+        rule ? formatRecurrence(rule) : null,
+        timeZone
+    );
+    // A recurring task without a date starts on its first occurrence
+    const dueLabel =
+        due?.label ?? (rule && task.due_date && formatDue(task.due_date, task.due_time));
+    const reply = `Task added: "${content}"${dueLabel ? ` due ${dueLabel}` : ''}${rule ? `, repeats ${describeRecurrence(rule)}` : ''}`;
+    return { reply, optional_data: { task_id: task.id, ...(due && { due }) } };
+}
+
+// Find the task an action refers to, or the follow-up question to ask instead
+async function resolveTargetTask(
+    userId: string,
+    intent: Intent,
+    params: TaskActionParams,
+    message: string,
+    timeZone: string
+): Promise<Task | SendMessageResponse> {
+    const tasks = await listTasks(userId);
+    if (!tasks.length) {
+        return { reply: 'You have no tasks yet.' };
+    }
+
+    const resolution = await resolveTaskReference(tasks, params, message, { timeZone });
+    switch (resolution.status) {
+        case 'not_found':
+            return params.task_id
+                ? { reply: `I couldn't find task ${params.task_id}.` }
+                : askToChooseTask(userId, intent, params, tasks.slice(0, 10));
+        case 'ambiguous':
+            return askToChooseTask(userId, intent, params, resolution.candidates);
+        case 'resolved':
+            return resolution.task;
+    }
+}
+
+function isResponse(value: Task | SendMessageResponse): value is SendMessageResponse {
+    return 'reply' in value;
+}
+
+async function runDeleteTask(
+    params: TaskActionParams,
+    { userId, message, timeZone }: IntentContext
+): Promise<SendMessageResponse> {
+    const task = await resolveTargetTask(userId, INTENTS.DELETE_TASK, params, message, timeZone);
+    if (isResponse(task)) return task;
+
+    if (!params.confirmed) {
+        return askForConfirmation(
+            userId,
+            INTENTS.DELETE_TASK,
+            { ...params, task_id: task.id },
+            task,
+            `Delete task ${describeTask(task)}?`
+        );
+    }
+    await deleteTask(userId, task.id);
+    return { reply: `Task ${task.id} deleted.`, optional_data: { task_id: task.id } };
+}
+
+async function runCompleteTask(
+    params: TaskActionParams,
+    { userId, message, timeZone }: IntentContext
+): Promise<SendMessageResponse> {
+    const task = await resolveTargetTask(userId, INTENTS.COMPLETE_TASK, params, message, timeZone);
+    if (isResponse(task)) return task;
+
+    if (task.status === 'completed') {
+        return { reply: `"${task.content}" is already done.`, optional_data: { task } };
+    }
+    const result = await completeTask(userId, task.id, { timeZone });
+    // Deleted between the lookup and now
+    if (!result) return { reply: `I couldn't find task ${task.id}.` };
+    const { next } = result;
+    const reply = `Marked "${task.content}" as done.${next?.due_date ? ` Next one is due ${formatDue(next.due_date, next.due_time)}.` : ''}`;
+    return { reply, optional_data: { task: result.task, next_task: next } };
+}
+
+async function runUpdateTask(
+    params: TaskActionParams,
+    { userId, message, timeZone }: IntentContext
+): Promise<SendMessageResponse> {
+    const task = await resolveTargetTask(userId, INTENTS.UPDATE_TASK, params, message, timeZone);
+    if (isResponse(task)) return task;
+
+    const newContent = params.new_content?.trim();
+    if (!newContent) {
+        return askForSlot(userId, INTENTS.UPDATE_TASK, 'new_content', {
+            ...params,
+            task_id: task.id,
+        });
+    }
+    const updated = await updateTask(userId, task.id, { content: newContent });
+    return {
+        reply: `Task ${task.id} updated: "${newContent}"`,
+        optional_data: { task: updated },
+    };
+}
+
+async function runRescheduleTask(
+    params: TaskActionParams,
+    { userId, message, timeZone }: IntentContext
+): Promise<SendMessageResponse> {
+    const task = await resolveTargetTask(
+        userId,
+        INTENTS.RESCHEDULE_TASK,
+        params,
+        message,
+        timeZone
+    );
+    if (isResponse(task)) return task;
+
+    const due = params.new_due_date
+        ? await resolveDueDate(params.new_due_date, { timeZone })
+        : null;
+    if (!due) {
+        return askForSlot(userId, INTENTS.RESCHEDULE_TASK, 'new_due_date', {
+            ...params,
+            task_id: task.id,
+        });
+    }
+    // Moving a task to another day keeps its time unless a new one is given
+    const dueTime = due.due_time ?? task.due_time;
+    const updated = await updateTask(
+        userId,
+        task.id,
+        { due_date: due.due_date, due_time: dueTime },
+        { timeZone }
+    );
+    return {
+        reply: `"${task.content}" is now due ${formatDue(due.due_date, dueTime)}.`,
+        optional_data: { task: updated, due },
+    };
+}
+
+const OPEN_STATUSES: TaskStatus[] = ['pending', 'in_progress'];
+
+// Turn extracted LIST_TASKS parameters into a task query
+function toTaskQuery(
+    params: ListTasksParams,
+    timeZone: string
+): { query: TaskQueryInput; range: DateRange | null } {
+    const range = params.due_period ? parseDateRange(params.due_period, { timeZone }) : null;
+    const query: TaskQueryInput = { sort: params.sort ?? 'due_date' };
+
+    if (range) {
+        if (range.from) query.due_from = range.from;
+        if (range.to) query.due_to = range.to;
+    }
+    if (params.status === 'incomplete' || (range?.label === 'overdue' && !params.status)) {
+        query.status = OPEN_STATUSES;
+    } else if (params.status) {
+        query.status = [params.status];
+    }
+    if (params.priority) {
+        query.priority = Array.isArray(params.priority) ? params.priority : [params.priority];
+    }
+    if (params.tag?.trim()) query.tag = params.tag.trim().replace(/^#/, '');
+    if (params.search?.trim()) query.search = params.search.trim();
+    if (params.limit) query.limit = Math.min(params.limit, 100);
+
+    return { query, range };
+}
+
+const TASK_GROUPS = [
+    ['overdue', 'Overdue'],
+    ['today', 'Today'],
+    ['upcoming', 'Upcoming'],
+    ['no_due_date', 'No due date'],
+    ['completed', 'Done'],
+] as const;
+
+type TaskGroup = (typeof TASK_GROUPS)[number][0];
+
+function taskGroup(task: Task, today: string): TaskGroup {
+    if (task.status === 'completed') return 'completed';
+    if (!task.due_date) return 'no_due_date';
+    if (task.due_date < today) return 'overdue';
+    return task.due_date === today ? 'today' : 'upcoming';
+}
+
+async function runListTasks(
+    params: ListTasksParams,
+    { userId, timeZone }: IntentContext
+): Promise<SendMessageResponse> {
+    const { query, range } = toTaskQuery(params, timeZone);
+    const tasks = await listTasks(userId, query);
+    const today = zonedDateTime(new Date(), timeZone).date;
+
+    const groups = Object.fromEntries(TASK_GROUPS.map(([key]) => [key, [] as Task[]])) as Record<
+        TaskGroup,
+        Task[]
+    >;
+    for (const task of tasks) {
+        groups[taskGroup(task, today)].push(task);
+    }
+
+    const filtered = Object.keys(query).some(
+        key => key !== 'sort' && key !== 'due_from' && key !== 'due_to'
+    );
+    const period = range ? ` due ${range.label}` : '';
+    if (!tasks.length) {
+        return {
+            reply: `You have no ${filtered ? 'matching ' : ''}tasks${period}.`,
+            optional_data: { tasks, groups: {}, query },
+        };
+    }
+
+    // Group headings only help when there is more than one group
+    const nonEmpty = TASK_GROUPS.filter(([key]) => groups[key].length);
+    const sections = nonEmpty.map(([key, title]) => {
+        const lines = groups[key].map(
+            t => `- ${t.content}${dueSuffix(t)}${key === 'completed' ? ' ✓' : ''}`
+        );
+        return nonEmpty.length > 1 ? `${title}:\n${lines.join('\n')}` : lines.join('\n');
+    });
+
+    return {
+        reply: `Here are your ${filtered ? 'matching ' : ''}tasks${period}:\n${sections.join('\n\n')}`,
+        optional_data: {
+            tasks,
+            groups: Object.fromEntries(nonEmpty.map(([key]) => [key, groups[key].map(t => t.id)])),
+            query,
+            ...(range && { range }),
+        },
+    };
+}
+
+const DUE_DATE_EXAMPLES = '(e.g. tomorrow 6pm, next Monday, 27 Oct)';
+
+export const taskIntents: IntentDefinition[] = [
+    {
+        name: INTENTS.ADD_TASK,
+        description: 'create a new task or to-do, optionally with a due date or a repetition',
+        patterns: [
+            /^(please |can you )?(add|create)( a| another| new)* (task|to-?do)\b/i,
+            /^remind me to\b/i,
+        ],
+        examples: [
+            'Add a task to renew my passport',
+            'Create a task to email the landlord',
+            'Put pay rent on my to-do list',
+            'New task: book the car service',
+            'Remind me to buy dog food on Friday',
+            'I need to pick up the parcel tomorrow, add it',
+            'Add water the garden every Sunday',
+            'Note a task to call the plumber',
+        ],
+        parameters: {
+            schema: addTaskSchema,
+            instructions:
+                'Extract the task content, optional due date and optional repetition from the message. Copy the due date and time exactly as written (e.g. "next Monday", "tomorrow 6 AM") into due_date, and how often it repeats (e.g. "every day", "every Monday and Thursday", "every 2 weeks") into recurrence. Leave both out of content.',
+        },
+        followUps: {
+            content: 'What should the task say?',
+            due_date: `I couldn't work out the due date. When is it due? ${DUE_DATE_EXAMPLES}`,
+            recurrence:
+                "I couldn't work out how often it repeats. How often should it repeat? (e.g. every day, every Monday, every 2 weeks)",
+        },
+        handle: runAddTask,
+    },
+    {
+        name: INTENTS.LIST_TASKS,
+        description: 'show tasks, optionally filtered by due period, status, priority, tag or text',
+        patterns: [
+            /^(show|list|display)( me)?( all)?( of)?( my)? (tasks|to-?dos?|to-?do list)\b/i,
+            /^what (tasks|to-?dos) do i have\b/i,
+        ],
+        examples: [
+            'Show my tasks',
+            'What do I have to do today?',
+            'List everything due this week',
+            'Which tasks are overdue?',
+            'Show my high priority tasks',
+            'What is on my to-do list?',
+            'Show completed tasks',
+            'Any tasks tagged work?',
+        ],
+        parameters: {
+            schema: listTasksSchema,
+            instructions:
+                'Extract filters for listing tasks. Only include what the message asks for. due_period: the period as written (e.g. "today", "this week", "next 7 days", "overdue"). status: "incomplete" for unfinished, open or pending tasks, "completed" for done ones. priority: low, medium, high or urgent. tag: a single label such as "work". search: words the tasks must contain. sort: due_date, priority or created_at. limit: how many tasks to show.',
+        },
+        handle: runListTasks,
+    },
+    {
+        name: INTENTS.DELETE_TASK,
+        description: 'delete or remove an existing task',
+        patterns: [/^(delete|remove|erase)( the| my| this| that)? (task|to-?do)\b/i],
+        examples: [
+            'Delete the passport task',
+            'Remove task 4',
+            'Get rid of the landlord email task',
+            'Delete my last task',
+            'Take the parcel off my list',
+            'Remove the to-do about the plumber',
+            'Erase the car service task',
+            'Drop the dog food task',
+        ],
+        parameters: {
+            schema: z.object(taskReferenceShape),
+            instructions: `Extract which task to delete. ${TASK_REFERENCE_INSTRUCTIONS}`,
+        },
+        handle: runDeleteTask,
+    },
+    {
+        name: INTENTS.COMPLETE_TASK,
+        description: 'mark an existing task as done',
+        patterns: [
+            /^mark\b.*\b(as )?(done|complete|completed|finished)[.!]*$/i,
+            /^(tick|check|cross) off\b/i,
+        ],
+        examples: [
+            'Mark the rent task as done',
+            'I renewed my passport',
+            'Done with the landlord email',
+            'Finished task 2',
+            'Tick off the parcel pickup',
+            'I already booked the car service',
+            'Complete the plumber task',
+            'Check off buying dog food',
+        ],
+        parameters: {
+            schema: z.object(taskReferenceShape),
+            instructions: `Extract which task to mark as done. ${TASK_REFERENCE_INSTRUCTIONS}`,
+        },
+        handle: runCompleteTask,
+    },
+    {
+        name: INTENTS.UPDATE_TASK,
+        description: 'change the text of an existing task',
+        patterns: [/^(rename|reword)\b/i],
+        examples: [
+            'Rename task 2 to renew both passports',
+            'Change the landlord task to email and call the landlord',
+            'Edit the car task to say book the MOT',
+            'Reword the parcel task',
+            'Update task 5 to buy cat food',
+            'Fix the spelling in my plumber task',
+            'Change the text of the rent task',
+            'Rename my last task',
+        ],
+        parameters: {
+            schema: z.object({
+                ...taskReferenceShape,
+                new_content: z.string().optional(),
+            }),
+            instructions: `Extract which task to edit and its new text. ${TASK_REFERENCE_INSTRUCTIONS} Put the replacement text in new_content.`,
+        },
+        followUps: {
+            new_content: 'What should the task say now?',
+        },
+        handle: runUpdateTask,
+    },
+    {
+        name: INTENTS.RESCHEDULE_TASK,
+        description: 'move an existing task to another due date or time',
+        patterns: [/^(reschedule|postpone)\b/i],
+        examples: [
+            'Move the passport task to next Tuesday',
+            'Postpone the car service to next month',
+            'Push the rent task to the 1st',
+            'Reschedule task 3 for tomorrow at 9',
+            'Change the due date of the plumber task to Friday',
+            'Delay the parcel pickup by two days',
+            'Make the landlord task due tonight',
+            'Bring the dog food task forward to today',
+        ],
+        parameters: {
+            schema: z.object({
+                ...taskReferenceShape,
+                new_due_date: z.string().optional(),
+            }),
+            instructions: `Extract which task to reschedule and when it should now be due. ${TASK_REFERENCE_INSTRUCTIONS} Put the new date or time, as written, in new_due_date.`,
+        },
+        followUps: {
+            new_due_date: `When should it be due? ${DUE_DATE_EXAMPLES}`,
+        },
+        handle: runRescheduleTask,
+    },
+];
@@ -0,0 +1,83 @@
+import { z } from 'zod';
+import { UserProfile } from '../models/user.model';
+
+/** The name of a registered intent */
+export type Intent = string;
+
+/**
+ * How an intent was chosen: a keyword rule, the nearest labelled examples, the intent model
+ * or the answer to an open question
+ */
+export type ClassificationPath = 'rules' | 'examples' | 'llm' | 'pending';
+
+export interface IntentClassification {
+    intent: Intent;
+    path: ClassificationPath;
+    /** 0..1; null when the intent model chose, as it reports none */
+    confidence: number | null;
+}
+
+/** Routing details for debugging; candidate is a fast-path guess that was not confident enough */
+export interface ResponseMetadata extends IntentClassification {
+    candidate?: IntentClassification;
+}
+
+export interface SendMessageResponse {
+    reply: string;
+    optional_data?: any;
+    metadata?: ResponseMetadata;
+}
+
+/**
+ * Hooks for streaming a reply. Free-form replies are generated token by token through
+ * onDelta; other intents only report the intent and resolve with the full response.
+ */
+export interface MessageStream {
+    signal?: AbortSignal;
+    onIntent?: (intent: Intent) => void;
+    onDelta?: (text: string) => void;
+}
+
+/**
+ * The parameters a handler runs with: what its schema extracted from the message, plus any
+ * filled in by follow-up answers. Handlers declare the ones they read.
+ */
+export type IntentParams = Record<string, unknown>;
+
+/** Everything a handler knows about the message it is answering */
+export interface IntentContext {
+    userId: string;
+    message: string;
+    timeZone: string;
+    profile?: UserProfile;
+    stream?: MessageStream;
+}
+
+/**
+ * One intent: how the classifier recognises it, what to extract from the message and how
+ * to act on it. Handlers also receive parameters filled in by follow-up answers
+ * (task_id after a choice, confirmed after a yes).
+ */
+export interface IntentDefinition {
+    name: Intent;
+    /** Shown to the classifier next to the name, e.g. "create a new task or to-do" */
+    description: string;
+    /** Keyword rules for the fast path: a message matching only this intent's rules is its */
+    patterns?: RegExp[];
+    /** Labelled example messages; the fast path votes among the nearest by embedding */
+    examples?: string[];
+    /**
+     * A message the fast path confidently gives this intent is one request, so it is not
+     * split even when it says "and" or "then" (a journal entry, small talk)
+     */
+    singleRequest?: boolean;
+    /** Intents without parameters skip the extraction call */
+    parameters?: {
+        schema: z.ZodObject<z.ZodRawShape>;
+        /** What to extract; the JSON-schema reminder is added automatically */
+        instructions: string;
+    };
+    /** Questions asked when a required parameter is missing, keyed by parameter */
+    followUps?: Record<string, string>;
+    handle(params: IntentParams, context: IntentContext): Promise<SendMessageResponse>;
+}
@@ -0,0 +1,142 @@
+import { AgentMessage, JsonSchema, LLMProvider, ToolCall, ToolDefinition } from './types';
+
+export type FakeResponder = (messages: AgentMessage[], schema?: JsonSchema) => string | undefined;
+
+export interface FakeProviderOptions {
+    responses?: string[];
+    responder?: FakeResponder;
+    dimensions?: number;
+}
+
+export interface FakeCall {
+    kind: 'complete' | 'stream' | 'json' | 'tools';
+    messages: AgentMessage[];
+    schema?: JsonSchema;
+    tools?: ToolDefinition[];
+}
+
+export interface FakeProvider extends LLMProvider {
+    readonly calls: FakeCall[];
+    enqueue(...responses: string[]): void;
+    reset(): void;
+}
+
+const DEFAULT_DIMENSIONS = 768;
+
+function hashToken(token: string): number {
+    // FNV-1a, 32 bit
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < token.length; i++) {
+        hash ^= token.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+/**
+ * Deterministic bag-of-words embedding: every token is hashed into one signed bucket and
+ * the result is L2-normalised, so texts sharing words get a high cosine similarity.
+ */
+export function fakeEmbedding(text: string, dimensions = DEFAULT_DIMENSIONS): number[] {
+    const vector = new Array<number>(dimensions).fill(0);
+    const tokens = text.toLowerCase().match(/[a-z0-9]+/g) ?? [];
+
+    for (const token of tokens) {
+        const hash = hashToken(token);
+        vector[hash % dimensions] += hash & 0x80000000 ? -1 : 1;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm ? vector.map(value => value / norm) : vector;
+}
+
+/**
+ * A queued reply to a tool-calling turn is either plain text or a JSON object
+ * {"content"?, "tool_calls": [{"name", "arguments"}]} requesting calls
+ */
+function toToolCompletion(reply: string, turn: number): { content: string; toolCalls: ToolCall[] } {
+    try {
+        const parsed = JSON.parse(reply);
+        if (Array.isArray(parsed?.tool_calls)) {
+            return {
+                content: parsed.content ?? '',
+                toolCalls: parsed.tool_calls.map(
+                    (call: { name: string; arguments?: unknown }, index: number) => ({
+                        id: `call_${turn}_${index}`,
+                        name: call.name,
+                        arguments: JSON.stringify(call.arguments ?? {}),
+                    })
+                ),
+            };
+        }
+    } catch {
+        // Not JSON: a plain answer
+    }
+    return { content: reply, toolCalls: [] };
+}
+
+/**
+ * In-process provider for tests and offline development. Replies come from the queued
+ * responses first, then the responder; otherwise chat echoes the last user message and
+ * JSON requests get an empty object.
+ */
+export function createFakeProvider(options: FakeProviderOptions = {}): FakeProvider {
+    const queue = [...(options.responses ?? [])];
+    const calls: FakeCall[] = [];
+    const dimensions = options.dimensions ?? DEFAULT_DIMENSIONS;
+
+    function next(messages: AgentMessage[], schema?: JsonSchema): string | undefined {
+        if (queue.length) return queue.shift();
+        return options.responder?.(messages, schema);
+    }
+
+    function echo(messages: AgentMessage[]): string {
+        const lastUser = [...messages].reverse().find(message => message.role === 'user');
+        return lastUser ? `You said: ${lastUser.content}` : '';
+    }
+
+    return {
+        name: 'fake',
+        model: 'fake',
+        calls,
+
+        enqueue(...responses) {
+            queue.push(...responses);
+        },
+
+        reset() {
+            queue.length = 0;
+            calls.length = 0;
+        },
+
+        async complete(messages) {
+            calls.push({ kind: 'complete', messages });
+            return next(messages) ?? echo(messages);
+        },
+
+        // Yields word by word, giving the event loop a turn between chunks like a real stream
+        async *stream(messages, streamOptions) {
+            calls.push({ kind: 'stream', messages });
+            const reply = next(messages) ?? echo(messages);
+            for (const chunk of reply.match(/\S+\s*/g) ?? []) {
+                await new Promise(resolve => setImmediate(resolve));
+                streamOptions?.signal?.throwIfAborted();
+                yield chunk;
+            }
+        },
+
+        async completeJson(messages, schema) {
+            calls.push({ kind: 'json', messages, schema });
+            return next(messages, schema) ?? '{}';
+        },
+
+        async completeWithTools(messages, tools) {
+            calls.push({ kind: 'tools', messages, tools });
+            return toToolCompletion(next(messages) ?? echo(messages), calls.length);
+        },
+
+        async embed(input, embedOptions) {
+            return input.map(text => fakeEmbedding(text, embedOptions?.dimensions ?? dimensions));
+        },
+    };
+}
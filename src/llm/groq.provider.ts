@@ -0,0 +1,85 @@
+import Groq from 'groq-sdk';
+import type { ChatCompletionMessageParam } from 'groq-sdk/resources/chat/completions';
+import { ChatMessage, CompletionOptions, LLMProvider, ProviderConfig } from './types';
+import {
+    fromOpenAIToolCalls,
+    toOpenAIMessages,
+    toOpenAITools,
+    withSchemaInstruction,
+} from './utils';
+
+export function createGroqProvider(config: ProviderConfig): LLMProvider {
+    if (!config.apiKey) {
+        throw new Error('GROQ_API_KEY is required for the groq provider');
+    }
+
+    const client = new Groq({ apiKey: config.apiKey, baseURL: config.baseUrl });
+
+    async function chat(
+        messages: ChatMessage[],
+        options: CompletionOptions | undefined,
+        json: boolean
+    ): Promise<string> {
+        const completion = await client.chat.completions.create(
+            {
+                model: config.model,
+                messages,
+                temperature: options?.temperature,
+                response_format: json ? { type: 'json_object' } : undefined,
+            },
+            { signal: options?.signal }
+        );
+        return completion.choices[0]?.message?.content ?? '';
+    }
+
+    return {
+        name: 'groq',
+        model: config.model,
+
+        complete(messages, options) {
+            return chat(messages, options, false);
+        },
+
+        async *stream(messages, options) {
+            const stream = await client.chat.completions.create(
+                {
+                    model: config.model,
+                    messages,
+                    temperature: options?.temperature,
+                    stream: true,
+                },
+                { signal: options?.signal }
+            );
+            for await (const chunk of stream) {
+                const delta = chunk.choices[0]?.delta?.content;
+                if (delta) yield delta;
+            }
+        },
+
+        completeJson(messages, schema, options) {
+            return chat(withSchemaInstruction(messages, schema), options, true);
+        },
+
+        async completeWithTools(messages, tools, options) {
+            const completion = await client.chat.completions.create(
+                {
+                    model: config.model,
+                    messages: toOpenAIMessages(messages) as ChatCompletionMessageParam[],
+                    temperature: options?.temperature,
+                    tools: toOpenAITools(tools),
+                },
+                { signal: options?.signal }
+            );
+            const message = completion.choices[0]?.message;
+            return {
+                content: message?.content ?? '',
+                toolCalls: fromOpenAIToolCalls(message?.tool_calls),
+            };
+        },
+
+        async embed(input) {
+            const response = await client.embeddings.create({ model: config.model, input });
+            return response.data.map(item => item.embedding as number[]);
+        },
+    };
+}
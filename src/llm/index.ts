@@ -0,0 +1,127 @@
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { getLLMConfig } from '../config/llm';
+import { createFakeProvider } from './fake.provider';
+import { createGroqProvider } from './groq.provider';
+import { createOllamaProvider } from './ollama.provider';
+import { createOpenAIProvider } from './openai.provider';
+import {
+    AgentMessage,
+    ChatMessage,
+    CompletionOptions,
+    EmbeddingOptions,
+    JsonSchema,
+    LLMProvider,
+    LLMRole,
+    ProviderConfig,
+    ToolCompletion,
+    ToolDefinition,
+} from './types';
+import { logger } from '../utils/logger';
+
+export * from './types';
+export { createFakeProvider } from './fake.provider';
+export type { FakeProvider, FakeResponder } from './fake.provider';
+export { createRecordingProvider, loadRecordings, saveRecordings } from './recording.provider';
+export type { RecordingMode, RecordingProvider, RecordingSet } from './recording.provider';
+
+// zod-to-json-schema is typed against zod/v3; going through its own parameter type keeps
+// the compiler from comparing the two zod declaration trees structurally.
+type ZodToJsonSchemaInput = Parameters<typeof zodToJsonSchema>[0];
+
+const providers = new Map<LLMRole, LLMProvider>();
+
+export function createProvider(config: ProviderConfig): LLMProvider {
+    switch (config.provider) {
+        case 'ollama':
+            return createOllamaProvider(config);
+        case 'groq':
+            return createGroqProvider(config);
+        case 'openai':
+            return createOpenAIProvider(config);
+        case 'fake':
+            return createFakeProvider();
+    }
+}
+
+/**
+ * Get the provider serving a role, creating it from config on first use
+ */
+export function getProvider(role: LLMRole): LLMProvider {
+    let provider = providers.get(role);
+    if (!provider) {
+        provider = createProvider(getLLMConfig(role));
+        providers.set(role, provider);
+    }
+    return provider;
+}
+
+/**
+ * Override the provider for a role (tests, scripts). Pass null to go back to config.
+ */
+export function setProvider(role: LLMRole, provider: LLMProvider | null): void {
+    if (provider) {
+        providers.set(role, provider);
+    } else {
+        providers.delete(role);
+    }
+}
+
+export function toJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+    return zodToJsonSchema(schema as unknown as ZodToJsonSchemaInput) as JsonSchema;
+}
+
+/**
+ * Ask the role's model for a JSON object and validate it against a Zod schema.
+ * Returns null when the model output is not valid JSON or does not match the schema.
+ */
+export async function generateObject<T extends z.ZodTypeAny>(
+    role: LLMRole,
+    messages: ChatMessage[],
+    schema: T,
+    label: string,
+    options?: CompletionOptions
+): Promise<z.infer<T> | null> {
+    const content = await getProvider(role).completeJson(messages, toJsonSchema(schema), options);
+    if (!content) return null;
+
+    try {
+        const validated = schema.safeParse(JSON.parse(content));
+        if (validated.success) {
+            return validated.data;
+        }
+        logger.error(`Zod validation failed for ${label}:`, validated.error);
+    } catch (error) {
+        logger.error(`Failed to parse JSON from model for ${label}:`, error);
+    }
+    return null;
+}
+
+export async function generateText(
+    role: LLMRole,
+    messages: ChatMessage[],
+    options?: CompletionOptions
+): Promise<string> {
+    return getProvider(role).complete(messages, options);
+}
+
+export function streamText(
+    role: LLMRole,
+    messages: ChatMessage[],
+    options?: CompletionOptions
+): AsyncIterable<string> {
+    return getProvider(role).stream(messages, options);
+}
+
+export async function generateWithTools(
+    role: LLMRole,
+    messages: AgentMessage[],
+    tools: ToolDefinition[],
+    options?: CompletionOptions
+): Promise<ToolCompletion> {
+    return getProvider(role).completeWithTools(messages, tools, options);
+}
+
+export async function embedTexts(input: string[], options?: EmbeddingOptions): Promise<number[][]> {
+    return getProvider('embedding').embed(input, options);
+}
@@ -0,0 +1,108 @@
+import { Message, Ollama, Tool } from 'ollama';
+import { AgentMessage, LLMProvider, ProviderConfig } from './types';
+
+function parseArguments(text: string): Record<string, unknown> {
+    try {
+        return JSON.parse(text);
+    } catch {
+        return {};
+    }
+}
+
+// Ollama matches tool results to calls by tool name rather than by id
+function toOllamaMessages(messages: AgentMessage[]): Message[] {
+    return messages.map(message => {
+        if (message.role === 'tool') {
+            return { role: 'tool', content: message.content, tool_name: message.name };
+        }
+        if ('tool_calls' in message) {
+            return {
+                role: 'assistant',
+                content: message.content,
+                tool_calls: message.tool_calls.map(call => ({
+                    function: { name: call.name, arguments: parseArguments(call.arguments) },
+                })),
+            };
+        }
+        return message;
+    });
+}
+
+export function createOllamaProvider(config: ProviderConfig): LLMProvider {
+    const client = new Ollama({ host: config.baseUrl });
+
+    return {
+        name: 'ollama',
+        model: config.model,
+
+        async complete(messages, options) {
+            const response = await client.chat({
+                model: config.model,
+                messages,
+                options: { temperature: options?.temperature },
+            });
+            return response.message.content ?? '';
+        },
+
+        async *stream(messages, options) {
+            options?.signal?.throwIfAborted();
+            const iterator = await client.chat({
+                model: config.model,
+                messages,
+                stream: true,
+                options: { temperature: options?.temperature },
+            });
+            const abort = () => iterator.abort();
+            options?.signal?.addEventListener('abort', abort, { once: true });
+
+            try {
+                for await (const part of iterator) {
+                    if (part.message?.content) yield part.message.content;
+                }
+            } finally {
+                options?.signal?.removeEventListener('abort', abort);
+            }
+        },
+
+        async completeJson(messages, schema, options) {
+            const response = await client.chat({
+                model: config.model,
+                messages,
+                format: schema,
+                options: { temperature: options?.temperature },
+            });
+            return response.message.content ?? '';
+        },
+
+        async completeWithTools(messages, tools, options) {
+            const response = await client.chat({
+                model: config.model,
+                messages: toOllamaMessages(messages),
+                tools: tools.map(
+                    (tool): Tool => ({
+                        type: 'function',
+                        function: {
+                            name: tool.name,
+                            description: tool.description,
+                            parameters: tool.parameters as Tool['function']['parameters'],
+                        },
+                    })
+                ),
+                options: { temperature: options?.temperature },
+            });
+            return {
+                content: response.message.content ?? '',
+                toolCalls: (response.message.tool_calls ?? []).map((call, index) => ({
+                    id: `call_${index}`,
+                    name: call.function.name,
+                    arguments: JSON.stringify(call.function.arguments ?? {}),
+                })),
+            };
+        },
+
+        async embed(input) {
+            const response = await client.embed({ model: config.model, input });
+            return response.embeddings;
+        },
+    };
+}
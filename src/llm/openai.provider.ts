@@ -0,0 +1,152 @@
+import { ChatMessage, CompletionOptions, LLMProvider, ProviderConfig } from './types';
+import {
+    fromOpenAIToolCalls,
+    toOpenAIMessages,
+    toOpenAITools,
+    withSchemaInstruction,
+} from './utils';
+
+interface ChatCompletionResponse {
+    choices: {
+        message?: {
+            content?: string | null;
+            tool_calls?: { id: string; function: { name: string; arguments: string } }[];
+        };
+    }[];
+}
+
+interface ChatCompletionChunk {
+    choices: { delta?: { content?: string | null } }[];
+}
+
+interface EmbeddingResponse {
+    data: { embedding: number[]; index: number }[];
+}
+
+/**
+ * Provider for any server speaking the OpenAI REST API (OpenAI, vLLM, LM Studio, llama.cpp, ...)
+ */
+export function createOpenAIProvider(config: ProviderConfig): LLMProvider {
+    const baseUrl = (config.baseUrl || 'https://api.openai.com/v1').replace(/\/+$/, '');
+
+    async function request(path: string, body: unknown, signal?: AbortSignal): Promise<Response> {
+        const response = await fetch(`${baseUrl}${path}`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...(config.apiKey && { Authorization: `Bearer ${config.apiKey}` }),
+            },
+            body: JSON.stringify(body),
+            signal,
+        });
+
+        if (!response.ok) {
+            throw new Error(`OpenAI API error: ${response.status} ${response.statusText}`);
+        }
+
+        return response;
+    }
+
+    async function post<T>(path: string, body: unknown, signal?: AbortSignal): Promise<T> {
+        const response = await request(path, body, signal);
+        return (await response.json()) as T;
+    }
+
+    async function chat(
+        messages: ChatMessage[],
+        options: CompletionOptions | undefined,
+        json: boolean
+    ): Promise<string> {
+        const data = await post<ChatCompletionResponse>(
+            '/chat/completions',
+            {
+                model: config.model,
+                messages,
+                temperature: options?.temperature,
+                ...(json && { response_format: { type: 'json_object' } }),
+            },
+            options?.signal
+        );
+        return data.choices[0]?.message?.content ?? '';
+    }
+
+    return {
+        name: 'openai',
+        model: config.model,
+
+        complete(messages, options) {
+            return chat(messages, options, false);
+        },
+
+        async *stream(messages, options) {
+            const response = await request(
+                '/chat/completions',
+                {
+                    model: config.model,
+                    messages,
+                    temperature: options?.temperature,
+                    stream: true,
+                },
+                options?.signal
+            );
+            if (!response.body) return;
+
+            // Server-sent events: one "data: {chunk}" line per delta, terminated by "data: [DONE]"
+            const reader = response.body.getReader();
+            const decoder = new TextDecoder();
+            let buffer = '';
+            try {
+                for (;;) {
+                    const { done, value } = await reader.read();
+                    if (done) break;
+                    buffer += decoder.decode(value, { stream: true });
+
+                    const lines = buffer.split('\n');
+                    buffer = lines.pop() ?? '';
+                    for (const line of lines) {
+                        const payload = line.trim();
+                        if (!payload.startsWith('data:')) continue;
+                        const data = payload.slice(5).trim();
+                        if (data === '[DONE]') return;
+                        const chunk = JSON.parse(data) as ChatCompletionChunk;
+                        const delta = chunk.choices[0]?.delta?.content;
+                        if (delta) yield delta;
+                    }
+                }
+            } finally {
+                reader.releaseLock();
+            }
+        },
+
+        completeJson(messages, schema, options) {
+            return chat(withSchemaInstruction(messages, schema), options, true);
+        },
+
+        async completeWithTools(messages, tools, options) {
+            const data = await post<ChatCompletionResponse>(
+                '/chat/completions',
+                {
+                    model: config.model,
+                    messages: toOpenAIMessages(messages),
+                    temperature: options?.temperature,
+                    tools: toOpenAITools(tools),
+                },
+                options?.signal
+            );
+            const message = data.choices[0]?.message;
+            return {
+                content: message?.content ?? '',
+                toolCalls: fromOpenAIToolCalls(message?.tool_calls),
+            };
+        },
+
+        async embed(input, options) {
+            const data = await post<EmbeddingResponse>('/embeddings', {
+                model: config.model,
+                input,
+                ...(options?.dimensions && { dimensions: options.dimensions }),
+            });
+            return [...data.data].sort((a, b) => a.index - b.index).map(item => item.embedding);
+        },
+    };
+}
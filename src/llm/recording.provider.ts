@@ -0,0 +1,138 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { AgentMessage, LLMProvider, ProviderName } from './types';
+
+export type RecordingMode = 'record' | 'replay';
+
+interface Recording {
+    kind: 'complete' | 'json' | 'tools' | 'embed';
+    /** The last user message, to make fixture files readable and diffs reviewable */
+    request: string;
+    response: string;
+}
+
+/** A fixture file: the provider and model that answered, and its responses by request hash */
+export interface RecordingSet {
+    provider: ProviderName;
+    model: string;
+    recordings: Record<string, Recording>;
+}
+
+export interface RecordingProvider extends LLMProvider {
+    /** The responses recorded or replayed so far */
+    readonly recordings: RecordingSet;
+}
+
+function lastUserMessage(messages: AgentMessage[]): string {
+    return [...messages].reverse().find(message => message.role === 'user')?.content ?? '';
+}
+
+// Any change to the prompt, schema or tools gives a new key, so a stale fixture misses
+function requestKey(kind: Recording['kind'], payload: unknown): string {
+    return createHash('sha256')
+        .update(JSON.stringify([kind, payload]))
+        .digest('hex')
+        .slice(0, 16);
+}
+
+export async function loadRecordings(file: string): Promise<RecordingSet> {
+    return JSON.parse(await fs.readFile(file, 'utf8'));
+}
+
+/**
+ * Write a recording set with its keys sorted, so re-recording only shows changed responses
+ */
+export async function saveRecordings(file: string, set: RecordingSet): Promise<void> {
+    const recordings = Object.fromEntries(
+        Object.entries(set.recordings).sort(([a], [b]) => a.localeCompare(b))
+    );
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, `${JSON.stringify({ ...set, recordings }, null, 4)}\n`);
+}
+
+/**
+ * Provider that records another provider's responses, or replays recorded ones without a
+ * model. Responses are keyed by a hash of the full request, so a replay fails on any request
+ * that was not recorded (typically after a prompt change) instead of calling out.
+ */
+export function createRecordingProvider(
+    options:
+        | { mode: 'record'; provider: LLMProvider }
+        | { mode: 'replay'; recordings: RecordingSet }
+): RecordingProvider {
+    const set: RecordingSet =
+        options.mode === 'record'
+            ? { provider: options.provider.name, model: options.provider.model, recordings: {} }
+            : options.recordings;
+
+    async function respond(
+        kind: Recording['kind'],
+        payload: unknown,
+        request: string,
+        call: (inner: LLMProvider) => Promise<string>
+    ): Promise<string> {
+        const key = requestKey(kind, payload);
+        if (options.mode === 'replay') {
+            const recording = set.recordings[key];
+            if (!recording) {
+                throw new Error(`No recorded ${kind} response for "${request}"; record again`);
+            }
+            return recording.response;
+        }
+
+        const response = await call(options.provider);
+        set.recordings[key] = { kind, request, response };
+        return response;
+    }
+
+    return {
+        name: set.provider,
+        model: set.model,
+        recordings: set,
+
+        complete(messages, completionOptions) {
+            return respond('complete', messages, lastUserMessage(messages), inner =>
+                inner.complete(messages, completionOptions)
+            );
+        },
+
+        // Recorded whole; a replayed stream yields the response as a single chunk
+        async *stream(messages, completionOptions) {
+            yield await respond('complete', messages, lastUserMessage(messages), async inner => {
+                let text = '';
+                for await (const chunk of inner.stream(messages, completionOptions)) text += chunk;
+                return text;
+            });
+        },
+
+        completeJson(messages, schema, completionOptions) {
+            return respond('json', [messages, schema], lastUserMessage(messages), inner =>
+                inner.completeJson(messages, schema, completionOptions)
+            );
+        },
+
+        async completeWithTools(messages, tools, completionOptions) {
+            const response = await respond(
+                'tools',
+                [messages, tools],
+                lastUserMessage(messages),
+                async inner =>
+                    JSON.stringify(
+                        await inner.completeWithTools(messages, tools, completionOptions)
+                    )
+            );
+            return JSON.parse(response);
+        },
+
+        async embed(input, embedOptions) {
+            const response = await respond(
+                'embed',
+                [input, embedOptions?.dimensions],
+                input.join('\n'),
+                async inner => JSON.stringify(await inner.embed(input, embedOptions))
+            );
+            return JSON.parse(response);
+        },
+    };
+}
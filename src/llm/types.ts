@@ -0,0 +1,79 @@
+export type LLMRole = 'intent' | 'chat' | 'embedding' | 'agent';
+
+export type ProviderName = 'ollama' | 'groq' | 'openai' | 'fake';
+
+export type JsonSchema = Record<string, unknown>;
+
+export interface ChatMessage {
+    role: 'system' | 'user' | 'assistant';
+    content: string;
+}
+
+/** A function the model may call, described by a JSON schema of its arguments */
+export interface ToolDefinition {
+    name: string;
+    description: string;
+    parameters: JsonSchema;
+}
+
+export interface ToolCall {
+    id: string;
+    name: string;
+    /** The arguments as the model wrote them: a JSON object, not yet validated */
+    arguments: string;
+}
+
+/**
+ * Messages of a tool-calling conversation: the model's requested calls and the result of
+ * each call travel alongside the usual chat messages
+ */
+export type AgentMessage =
+    | ChatMessage
+    | { role: 'assistant'; content: string; tool_calls: ToolCall[] }
+    | { role: 'tool'; tool_call_id: string; name: string; content: string };
+
+export interface ToolCompletion {
+    content: string;
+    /** Empty when the model answered without calling a tool */
+    toolCalls: ToolCall[];
+}
+
+export interface CompletionOptions {
+    temperature?: number;
+    signal?: AbortSignal;
+}
+
+export interface EmbeddingOptions {
+    dimensions?: number;
+}
+
+export interface ProviderConfig {
+    provider: ProviderName;
+    model: string;
+    baseUrl?: string;
+    apiKey?: string;
+}
+
+/**
+ * A model backend able to serve chat completions, schema-constrained JSON and embeddings.
+ * Each instance is bound to one model; roles that need different models get their own instance.
+ */
+export interface LLMProvider {
+    readonly name: ProviderName;
+    readonly model: string;
+    complete(messages: ChatMessage[], options?: CompletionOptions): Promise<string>;
+    /** Stream a completion as text deltas. Aborting options.signal stops the upstream generation. */
+    stream(messages: ChatMessage[], options?: CompletionOptions): AsyncIterable<string>;
+    completeJson(
+        messages: ChatMessage[],
+        schema: JsonSchema,
+        options?: CompletionOptions
+    ): Promise<string>;
+    /** One model turn that may answer or request calls to the given tools */
+    completeWithTools(
+        messages: AgentMessage[],
+        tools: ToolDefinition[],
+        options?: CompletionOptions
+    ): Promise<ToolCompletion>;
+    embed(input: string[], options?: EmbeddingOptions): Promise<number[][]>;
+}
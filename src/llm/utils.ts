@@ -0,0 +1,63 @@
+import { AgentMessage, ChatMessage, JsonSchema, ToolCall, ToolDefinition } from './types';
+
+/**
+ * Providers without native schema-constrained decoding only offer a generic JSON mode,
+ * so the schema is spelled out in the system prompt instead.
+ */
+export function withSchemaInstruction(messages: ChatMessage[], schema: JsonSchema): ChatMessage[] {
+    const instruction = `Respond only with a JSON object that matches this JSON schema:\n${JSON.stringify(schema)}`;
+    const [first, ...rest] = messages;
+    if (first?.role === 'system') {
+        return [{ role: 'system', content: `${first.content}\n\n${instruction}` }, ...rest];
+    }
+    return [{ role: 'system', content: instruction }, ...messages];
+}
+
+/** Tool-calling messages in the OpenAI chat format, which Groq shares */
+export interface OpenAIMessage {
+    role: 'system' | 'user' | 'assistant' | 'tool';
+    content: string;
+    tool_calls?: {
+        id: string;
+        type: 'function';
+        function: { name: string; arguments: string };
+    }[];
+    tool_call_id?: string;
+}
+
+export function toOpenAIMessages(messages: AgentMessage[]): OpenAIMessage[] {
+    return messages.map(message => {
+        if (message.role === 'tool') {
+            return { role: 'tool', tool_call_id: message.tool_call_id, content: message.content };
+        }
+        if ('tool_calls' in message && message.tool_calls.length) {
+            return {
+                role: 'assistant',
+                content: message.content,
+                tool_calls: message.tool_calls.map(call => ({
+                    id: call.id,
+                    type: 'function',
+                    function: { name: call.name, arguments: call.arguments },
+                })),
+            };
+        }
+        return { role: message.role, content: message.content };
+    });
+}
+
+export function toOpenAITools(tools: ToolDefinition[]) {
+    return tools.map(tool => ({
+        type: 'function' as const,
+        function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+    }));
+}
+
+export function fromOpenAIToolCalls(
+    calls: { id: string; function: { name: string; arguments: string } }[] | null | undefined
+): ToolCall[] {
+    return (calls ?? []).map(call => ({
+        id: call.id,
+        name: call.function.name,
+        arguments: call.function.arguments || '{}',
+    }));
+}
@@ -0,0 +1,166 @@
+import { z } from 'zod';
+import { CompactionConfig, getCompactionConfig } from '../config/compaction';
+import { generateObject } from '../llm';
+import { ConversationSummary, getRepositories, MemoryMessage } from '../repositories';
+import { embed, embeddingVersion } from './memories';
+import { logger } from '../utils/logger';
+
+// Users compacted per pass, so one pass stays bounded
+const USERS_PER_PASS = 20;
+const MAX_TOPICS = 8;
+
+const summarySchema = z.object({
+    summary: z.string().min(1),
+    topics: z.array(z.string()).default([]),
+});
+
+function transcript(messages: MemoryMessage[]): string {
+    return messages
+        .map(message => {
+            const time = message.created_at.slice(0, 16).replace('T', ' ');
+            return `[${time}] ${message.role === 'ai' ? 'assistant' : 'user'}: ${message.content}`;
+        })
+        .join('\n');
+}
+
+function normalizeTopics(topics: string[]): string[] {
+    const cleaned = topics.map(topic => topic.trim().toLowerCase()).filter(Boolean);
+    return [...new Set(cleaned)].slice(0, MAX_TOPICS);
+}
+
+async function summarizeMessages(
+    userId: string,
+    messages: MemoryMessage[]
+): Promise<ConversationSummary> {
+    const result = await generateObject(
+        'chat',
+        [
+            {
+                role: 'system',
+                content: `Summarize this stretch of conversation between the user and their assistant in at most 120 words, keeping names, dates, decisions, preferences and open questions. Then list up to ${MAX_TOPICS} short topics (one to three words each, e.g. "job search", "sister priya"). Use only what is in the transcript. Your response MUST be a JSON object that adheres to the provided schema.`,
+            },
+            { role: 'user', content: transcript(messages) },
+        ],
+        summarySchema,
+        'conversation summary'
+    );
+    if (!result) throw new Error('The model returned no conversation summary');
+
+    // Summaries without an embedding are still listed, just not matched by meaning
+    const embedding = await embed(result.summary).catch(error => {
+        logger.error('Conversation summary embedding failed:', error);
+        return null;
+    });
+
+    return getRepositories().conversationSummaries.create(userId, {
+        content: result.summary.trim(),
+        topics: normalizeTopics(result.topics),
+        memory_ids: messages.map(message => message.id),
+        message_count: messages.length,
+        period_start: messages[0].created_at,
+        period_end: messages[messages.length - 1].created_at,
+        embedding,
+        embedding_version: embedding ? embeddingVersion() : null,
+    });
+}
+
+/**
+ * Compact a user's older messages into conversation summaries, batchSize messages at a
+ * time, oldest first. Each summary links the ids it covers and those messages are marked
+ * (and, with pruneRaw, deleted unless pinned) so they are never summarized twice. Stops at
+ * the first batch the model cannot summarize; it is retried on a later pass.
+ */
+export async function compactConversation(
+    userId: string,
+    options: Pick<CompactionConfig, 'batchSize' | 'minMessages' | 'pruneRaw'> & { before: string }
+): Promise<ConversationSummary[]> {
+    const { memories } = getRepositories();
+    const summaries: ConversationSummary[] = [];
+
+    for (;;) {
+        const messages = await memories.unsummarized(userId, options.before, options.batchSize);
+        if (messages.length < options.minMessages) break;
+
+        const summary = await summarizeMessages(userId, messages);
+        const ids = summary.memory_ids;
+        // Pinned messages survive pruning, so they are marked first either way
+        await memories.markSummarized(userId, ids, summary.id);
+        if (options.pruneRaw) {
+            await memories.deleteMany(userId, ids);
+        }
+        summaries.push(summary);
+    }
+    return summaries;
+}
+
+export interface CompactionScheduler {
+    start(): void;
+    stop(): void;
+    /** One pass over users with messages waiting; resolves with the summaries written */
+    tick(): Promise<number>;
+}
+
+export function createCompactionScheduler(
+    config: Omit<CompactionConfig, 'enabled'>,
+    now: () => Date = () => new Date()
+): CompactionScheduler {
+    let timer: NodeJS.Timeout | null = null;
+    let running: Promise<number> | null = null;
+
+    async function pass(): Promise<number> {
+        const before = new Date(now().getTime() - config.minAgeHours * 3_600_000).toISOString();
+        const users = await getRepositories().memories.pendingSummaryUsers(
+            before,
+            config.minMessages,
+            USERS_PER_PASS
+        );
+
+        let written = 0;
+        for (const userId of users) {
+            try {
+                written += (await compactConversation(userId, { ...config, before })).length;
+            } catch (error) {
+                logger.error(`Conversation compaction failed for ${userId}:`, error);
+            }
+        }
+        return written;
+    }
+
+    function tick(): Promise<number> {
+        // Passes never overlap; a tick during a pass waits for it
+        if (!running) {
+            running = pass().finally(() => {
+                running = null;
+            });
+        }
+        return running;
+    }
+
+    return {
+        start() {
+            if (timer) return;
+            const run = () =>
+                tick().catch(error => logger.error('Conversation compaction pass failed:', error));
+            void run();
+            timer = setInterval(run, config.intervalMs);
+            timer.unref();
+        },
+        stop() {
+            if (timer) clearInterval(timer);
+            timer = null;
+        },
+        tick,
+    };
+}
+
+/**
+ * Start periodic compaction from config, or return null when it is disabled
+ */
+export function startCompaction(): CompactionScheduler | null {
+    const config = getCompactionConfig();
+    if (!config.enabled) return null;
+
+    const scheduler = createCompactionScheduler(config);
+    scheduler.start();
+    return scheduler;
+}
@@ -0,0 +1,157 @@
+import { ChatMessage } from '../llm';
+import { getRepositories, MatchMemoriesRow, MatchSummaryRow, MemoryMessage } from '../repositories';
+import { logger } from '../utils/logger';
+import { estimateTokens } from '../utils/tokens';
+import { searchConversationSummaries, searchMemories } from './memories';
+
+const RAG_TOP_K = Number(process.env.RAG_TOP_K) || 5;
+const RAG_MATCH_THRESHOLD = Number(process.env.RAG_MATCH_THRESHOLD) || 0.5;
+const RAG_HISTORY_MESSAGES = Number(process.env.RAG_HISTORY_MESSAGES) || 10;
+const RAG_TOKEN_BUDGET = Number(process.env.RAG_TOKEN_BUDGET) || 1000;
+const RAG_SUMMARY_TOP_K = Number(process.env.RAG_SUMMARY_TOP_K) || 2;
+const RAG_PINNED_LIMIT = Number(process.env.RAG_PINNED_LIMIT) || 10;
+
+export interface ConversationContext {
+    pinned: MemoryMessage[]; // newest first
+    summaries: MatchSummaryRow[]; // most relevant first
+    memories: MatchMemoriesRow[]; // most relevant first
+    history: MemoryMessage[]; // oldest first
+}
+
+export interface ContextOptions {
+    topK?: number;
+    summaryTopK?: number;
+    matchThreshold?: number;
+    historyMessages?: number;
+    pinnedLimit?: number;
+    tokenBudget?: number;
+}
+
+/**
+ * Gather pinned memories, relevant conversation summaries, past memories and the recent
+ * conversation window for a free-form reply. Pinned memories are always included and count
+ * against the budget; summaries are admitted next as the most compact context, then
+ * memories (by similarity), then recent turns newest-first, until the token budget is
+ * spent. Retrieval failures degrade to an empty context.
+ */
+export async function buildConversationContext(
+    userId: string,
+    query: string,
+    options?: ContextOptions
+): Promise<ConversationContext> {
+    const topK = options?.topK ?? RAG_TOP_K;
+    const historyMessages = options?.historyMessages ?? RAG_HISTORY_MESSAGES;
+    let budget = options?.tokenBudget ?? RAG_TOKEN_BUDGET;
+
+    const matchThreshold = options?.matchThreshold ?? RAG_MATCH_THRESHOLD;
+
+    const [pinned, summaryMatches, matches, recent] = await Promise.all([
+        getRepositories()
+            .memories.pinned(userId, options?.pinnedLimit ?? RAG_PINNED_LIMIT)
+            .catch(error => {
+                logger.error('Loading pinned memories failed:', error);
+                return [] as MemoryMessage[];
+            }),
+        searchConversationSummaries(userId, query, {
+            matchThreshold,
+            matchCount: options?.summaryTopK ?? RAG_SUMMARY_TOP_K,
+        }).catch(error => {
+            logger.error('Conversation summary retrieval failed:', error);
+            return [] as MatchSummaryRow[];
+        }),
+        searchMemories(userId, query, {
+            matchThreshold,
+            matchCount: topK,
+        }).catch(error => {
+            logger.error('Memory retrieval failed:', error);
+            return [] as MatchMemoriesRow[];
+        }),
+        getRepositories()
+            .memories.recent(userId, historyMessages)
+            .catch(error => {
+                logger.error('Loading recent messages failed:', error);
+                return [] as MemoryMessage[];
+            }),
+    ]);
+
+    for (const memory of pinned) budget -= estimateTokens(memory.content);
+    const pinnedIds = new Set(pinned.map(memory => memory.id));
+
+    // Anything already in the recent window does not need to be repeated as a memory
+    const recentIds = new Set(recent.map(message => message.id));
+
+    const summaries: MatchSummaryRow[] = [];
+    for (const summary of summaryMatches) {
+        const cost = estimateTokens(summary.content);
+        if (cost > budget) break;
+        budget -= cost;
+        summaries.push(summary);
+    }
+
+    // Messages a chosen summary already covers are not repeated either
+    const summarizedIds = new Set(summaries.flatMap(summary => summary.memory_ids));
+
+    const memories: MatchMemoriesRow[] = [];
+    for (const memory of matches) {
+        if (recentIds.has(memory.id) || summarizedIds.has(memory.id) || pinnedIds.has(memory.id)) {
+            continue;
+        }
+        const cost = estimateTokens(memory.content);
+        if (cost > budget) break;
+        budget -= cost;
+        memories.push(memory);
+    }
+
+    const history: MemoryMessage[] = [];
+    for (const message of recent) {
+        if (pinnedIds.has(message.id)) continue;
+        const cost = estimateTokens(message.content);
+        if (cost > budget) break;
+        budget -= cost;
+        history.unshift(message);
+    }
+
+    return { pinned, summaries, memories, history };
+}
+
+/**
+ * Turn a context into chat messages: pinned memories, summaries and retrieved memories go into the system prompt,
+ * recent turns are replayed as user/assistant messages before the new message.
+ */
+export function contextToMessages(
+    systemPrompt: string,
+    context: ConversationContext,
+    message: string
+): ChatMessage[] {
+    const pinnedBlock = context.pinned.length
+        ? `\n\nThings the user asked you to always remember:\n${context.pinned
+              .map(memory => `- ${memory.content}`)
+              .join('\n')}`
+        : '';
+
+    const summaryBlock = context.summaries.length
+        ? `\n\nSummaries of earlier conversations:\n${context.summaries
+              .map(
+                  summary =>
+                      `- [${summary.period_start.slice(0, 10)} to ${summary.period_end.slice(0, 10)}] ${summary.content}`
+              )
+              .join('\n')}`
+        : '';
+
+    const memoryBlock = context.memories.length
+        ? `\n\nThings the user said in earlier conversations (use them if relevant):\n${context.memories
+              .map(memory => `- [${memory.created_at.slice(0, 10)}] ${memory.content}`)
+              .join('\n')}`
+        : '';
+
+    return [
+        { role: 'system', content: `${systemPrompt}${pinnedBlock}${summaryBlock}${memoryBlock}` },
+        ...context.history.map(
+            (turn): ChatMessage => ({
+                role: turn.role === 'ai' ? 'assistant' : 'user',
+                content: turn.content,
+            })
+        ),
+        { role: 'user', content: message },
+    ];
+}
@@ -1,58 +1,51 @@
-import { supabaseAdmin } from '../config/supabase';
+import { getEmbeddingConfig } from '../config/embedding';
+import { getRetrievalConfig, MemorySearchMode } from '../config/retrieval';
+import { embedTexts } from '../llm';
+import { getRepositories, MatchMemoriesRow, MatchSummaryRow, MemoryFilters } from '../repositories';
 
-const OLLAMA_MODEL = 'nomic-embed-text';
-const DIMENSIONS = 768;
-const OLLAMA_BASE_URL = process.env.OLLAMA_BASE_URL || 'http://localhost:11434';
-
-interface OllamaEmbeddingResponse {
-    embedding: number[];
-}
-
-export type MatchMemoriesRow = {
-    id: number;
-    user_id: string;
-    content: string;
-    role: 'user' | 'ai';
-    embedding: number[]; // Supabase returns vector as number[]
-    created_at: string; // ISO string
-    similarity: number; // 0..1, higher is better
-};
+export type { MatchMemoriesRow, MatchSummaryRow };
 
 /**
- * Generate an embedding for text using Ollama (nomic-embed-text, 768 dims)
+ * Generate embeddings for several texts in one request, checking each vector has the
+ * configured number of dimensions
  */
-async function embed(text: string): Promise<number[]> {
-    const trimmed = text?.trim();
-    if (!trimmed) throw new Error('Text for embedding is empty');
-
-    const response = await fetch(`${OLLAMA_BASE_URL}/api/embeddings`, {
-        method: 'POST',
-        headers: {
-            'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-            model: OLLAMA_MODEL,
-            prompt: trimmed,
-        }),
-    });
-
-    if (!response.ok) {
-        throw new Error(`Ollama API error: ${response.status} ${response.statusText}`);
+export async function embedMany(texts: string[]): Promise<number[][]> {
+    const trimmed = texts.map(text => text?.trim());
+    if (!trimmed.length || trimmed.some(text => !text)) {
+        throw new Error('Text for embedding is empty');
     }
 
-    const data = (await response.json()) as OllamaEmbeddingResponse;
-    const vector = data.embedding;
+    const { dimensions } = getEmbeddingConfig();
+    const vectors = await embedTexts(trimmed, { dimensions });
 
-    if (!vector || vector.length !== DIMENSIONS) {
-        throw new Error(
-            `Invalid embedding vector. Expected ${DIMENSIONS}, got ${vector?.length ?? 0}`
-        );
+    if (vectors.length !== trimmed.length) {
+        throw new Error(`Expected ${trimmed.length} embeddings, got ${vectors.length}`);
+    }
+    for (const vector of vectors) {
+        if (!vector || vector.length !== dimensions) {
+            throw new Error(
+                `Invalid embedding vector. Expected ${dimensions}, got ${vector?.length ?? 0}`
+            );
+        }
     }
+    return vectors;
+}
+
+/**
+ * Generate an embedding for text using the configured embedding model (EMBEDDING_DIMENSIONS)
+ */
+export async function embed(text: string): Promise<number[]> {
+    const [vector] = await embedMany([text]);
     return vector;
 }
 
+/** The version tag for vectors from the configured embedding model */
+export function embeddingVersion(): string {
+    return getEmbeddingConfig().version;
+}
+
 /**
- * Store a memory for a user by generating an embedding and inserting into public.memories
+ * Store a memory for a user by generating an embedding and inserting it into the memory store
  */
 export async function storeMemory(
     userId: string,
@@ -65,55 +58,83 @@ export async function storeMemory(
 
     const embedding = await embed(text);
 
-    const { data, error } = await supabaseAdmin!
-        .from('memories')
-        .insert([
-            {
-                user_id: userId,
-                content: text,
-                role,
-                embedding, // pgvector serialized from number[],
-            },
-        ])
-        .select('id')
-        .single();
-
-    if (error) {
-        throw new Error(`Failed to insert memory: ${error.message}`);
-    }
+    return getRepositories().memories.insert(userId, text, role, embedding, embeddingVersion());
+}
 
-    return { id: (data as { id: number }).id as number };
+export interface MemorySearchOptions extends MemoryFilters {
+    matchThreshold?: number;
+    matchCount?: number;
+    /** Defaults to MEMORY_SEARCH_MODE; filters always use hybrid search */
+    mode?: MemorySearchMode;
+}
+
+function hasFilters(options?: MemoryFilters): boolean {
+    return Boolean(
+        options?.role || options?.from || options?.to || options?.summaryId !== undefined
+    );
 }
 
 /**
- * Search memories for a user by semantic similarity using match_memories RPC.
+ * Search memories for a user.
+ * - vector: semantic similarity only (match_memories RPC on Supabase)
+ * - hybrid: similarity, full-text and recency fused by rank (hybrid_match_memories), so exact
+ *   names and short queries are found too; supports role, date and conversation filters
  * - matchThreshold: similarity threshold in [0..1], higher is more similar (default 0.8)
  * - matchCount: number of rows to return (default 8)
  */
 export async function searchMemories(
     userId: string,
     query: string,
-    options?: { matchThreshold?: number; matchCount?: number }
+    options?: MemorySearchOptions
 ): Promise<MatchMemoriesRow[]> {
     if (!userId) throw new Error('userId is required');
     if (!query?.trim()) throw new Error('query is required');
 
     const threshold = options?.matchThreshold ?? 0.8;
     const count = options?.matchCount ?? 8;
+    const config = getRetrievalConfig();
+    const mode = hasFilters(options) ? 'hybrid' : (options?.mode ?? config.mode);
 
     const queryEmbedding = await embed(query);
-
-    // SQL: match_memories(query_embedding, match_threshold, match_count, target_user_id)
-    const { data, error } = await supabaseAdmin!.rpc('match_memories', {
-        query_embedding: queryEmbedding as unknown as number[],
-        match_threshold: threshold,
-        match_count: count,
-        target_user_id: userId,
+    const memories = getRepositories().memories;
+
+    if (mode === 'hybrid') {
+        return memories.hybridMatch(userId, {
+            embedding: queryEmbedding,
+            text: query,
+            threshold,
+            count,
+            role: options?.role,
+            from: options?.from,
+            to: options?.to,
+            summaryId: options?.summaryId,
+            version: embeddingVersion(),
+            ranking: config.ranking,
+        });
+    }
+    return memories.match(userId, {
+        embedding: queryEmbedding,
+        threshold,
+        count,
+        version: embeddingVersion(),
     });
+}
 
-    if (error) {
-        throw new Error(`match_memories RPC failed: ${error.message}`);
-    }
+/**
+ * Search a user's conversation summaries by semantic similarity
+ */
+export async function searchConversationSummaries(
+    userId: string,
+    query: string,
+    options?: { matchThreshold?: number; matchCount?: number }
+): Promise<MatchSummaryRow[]> {
+    if (!userId) throw new Error('userId is required');
+    if (!query?.trim()) throw new Error('query is required');
 
-    return (data as MatchMemoriesRow[]) ?? [];
+    return getRepositories().conversationSummaries.match(userId, {
+        embedding: await embed(query),
+        threshold: options?.matchThreshold ?? 0.5,
+        count: options?.matchCount ?? 5,
+        version: embeddingVersion(),
+    });
 }
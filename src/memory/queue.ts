@@ -0,0 +1,389 @@
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { getMemoryQueueConfig, MemoryQueueConfig } from '../config/queue';
+import { getRepositories, MemoryRole } from '../repositories';
+import { embeddingVersion, embedMany, storeMemory } from './memories';
+import { logger } from '../utils/logger';
+
+export interface QueuedMemory {
+    id: string;
+    user_id: string;
+    role: MemoryRole;
+    content: string;
+    /** When the message was said; kept as the memory's created_at */
+    created_at: string;
+    attempts: number;
+    /** Not tried again before this time */
+    next_attempt_at: string;
+    last_error: string | null;
+}
+
+// One line of the queue log; replaying the log rebuilds the waiting messages
+type LogEntry =
+    | { op: 'add'; memory: QueuedMemory }
+    | { op: 'retry'; id: string; attempts: number; next_attempt_at: string; error: string }
+    | { op: 'done'; ids: string[] };
+
+export interface MemoryQueueStats {
+    /** Messages waiting to be stored */
+    depth: number;
+    /** Age of the oldest waiting message, 0 when none wait */
+    lag_ms: number;
+    /** Waiting messages that failed at least once */
+    retrying: number;
+    /** Stored since the queue started */
+    written: number;
+    /** Given up on since the queue started */
+    dead_lettered: number;
+    last_error: string | null;
+}
+
+export interface MemoryQueue {
+    /** Record messages to be embedded and stored; resolves once they are on disk */
+    enqueue(userId: string, messages: { role: MemoryRole; content: string }[]): Promise<void>;
+    /** Load the messages left by a previous run and start the flush timer */
+    start(): Promise<void>;
+    stop(): void;
+    /** Store every message that is due now; resolves with how many were stored */
+    flush(): Promise<number>;
+    stats(): MemoryQueueStats;
+}
+
+// Rewrite the log once this many lines describe messages that are no longer waiting
+const COMPACT_AFTER_LINES = 1000;
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+/**
+ * Write-behind queue for conversation memories. Messages are appended to a log file before
+ * enqueue resolves, so they survive a restart; a flush embeds up to batchSize of them in one
+ * request and inserts them together. The members of a failed batch are tried one at a time;
+ * those that fail on their own are retried with exponential backoff, and messages that keep
+ * failing are moved to dead-letter.jsonl.
+ */
+export function createMemoryQueue(
+    config: Omit<MemoryQueueConfig, 'enabled'>,
+    now: () => Date = () => new Date()
+): MemoryQueue {
+    const logPath = path.join(config.dir, 'queue.log');
+    const deadLetterPath = path.join(config.dir, 'dead-letter.jsonl');
+
+    let pending: QueuedMemory[] = [];
+    let logLines = 0;
+    // Set when stored messages could not be marked done; the log is rewritten instead
+    let stale = false;
+    let loaded: Promise<void> | null = null;
+    let timer: NodeJS.Timeout | null = null;
+    let running: Promise<number> | null = null;
+    let io: Promise<unknown> = Promise.resolve();
+    const totals = { written: 0, dead_lettered: 0, last_error: null as string | null };
+
+    // File operations run one at a time, in the order they were requested
+    function serial<T>(operation: () => Promise<T>): Promise<T> {
+        const result = io.then(operation);
+        io = result.catch(() => undefined);
+        return result;
+    }
+
+    function append(entries: LogEntry[]): Promise<void> {
+        return serial(async () => {
+            await fs.appendFile(
+                logPath,
+                entries.map(entry => `${JSON.stringify(entry)}\n`).join('')
+            );
+            logLines += entries.length;
+        });
+    }
+
+    // Replace the log with one line per waiting message
+    function compact(): Promise<void> {
+        return serial(async () => {
+            const lines = pending.map(memory => `${JSON.stringify({ op: 'add', memory })}\n`);
+            const temporary = `${logPath}.tmp`;
+            await fs.writeFile(temporary, lines.join(''));
+            await fs.rename(temporary, logPath);
+            logLines = lines.length;
+        });
+    }
+
+    async function load(): Promise<void> {
+        await fs.mkdir(config.dir, { recursive: true });
+        const text = await fs.readFile(logPath, 'utf8').catch(error => {
+            if (error.code === 'ENOENT') return '';
+            throw error;
+        });
+
+        const waiting = new Map<string, QueuedMemory>();
+        for (const line of text.split('\n')) {
+            if (!line.trim()) continue;
+            let entry: LogEntry;
+            try {
+                entry = JSON.parse(line);
+            } catch {
+                // A crash mid-append leaves at most one partial last line
+                continue;
+            }
+            if (entry.op === 'add') waiting.set(entry.memory.id, entry.memory);
+            if (entry.op === 'done') entry.ids.forEach(id => waiting.delete(id));
+            if (entry.op === 'retry') {
+                const memory = waiting.get(entry.id);
+                if (memory) {
+                    memory.attempts = entry.attempts;
+                    memory.next_attempt_at = entry.next_attempt_at;
+                    memory.last_error = entry.error;
+                }
+            }
+        }
+        pending = [...waiting.values(), ...pending];
+        await compact();
+        if (pending.length) logger.info(`Memory queue: ${pending.length} messages left to store`);
+    }
+
+    function ensureLoaded(): Promise<void> {
+        loaded ??= load();
+        return loaded;
+    }
+
+    async function fail(batch: QueuedMemory[], error: unknown): Promise<void> {
+        const message = errorMessage(error);
+        totals.last_error = message;
+        const retries: LogEntry[] = [];
+        const dead: QueuedMemory[] = [];
+
+        for (const memory of batch) {
+            memory.attempts++;
+            memory.last_error = message;
+            if (memory.attempts >= config.maxAttempts) {
+                dead.push(memory);
+                continue;
+            }
+            const delay = Math.min(
+                config.retryBaseMs * 2 ** (memory.attempts - 1),
+                config.retryMaxMs
+            );
+            memory.next_attempt_at = new Date(now().getTime() + delay).toISOString();
+            retries.push({
+                op: 'retry',
+                id: memory.id,
+                attempts: memory.attempts,
+                next_attempt_at: memory.next_attempt_at,
+                error: message,
+            });
+        }
+
+        if (dead.length) {
+            const failedAt = now().toISOString();
+            await serial(() =>
+                fs.appendFile(
+                    deadLetterPath,
+                    dead
+                        .map(memory => `${JSON.stringify({ ...memory, failed_at: failedAt })}\n`)
+                        .join('')
+                )
+            );
+            pending = pending.filter(memory => !dead.includes(memory));
+            totals.dead_lettered += dead.length;
+            logger.error(`Memory queue: dead-lettered ${dead.length} messages: ${message}`);
+        }
+        await append([
+            ...retries,
+            ...(dead.length ? [{ op: 'done' as const, ids: dead.map(m => m.id) }] : []),
+        ]);
+    }
+
+    // Embed the messages in one request and insert them together; throws if any cannot be stored
+    async function store(batch: QueuedMemory[]): Promise<void> {
+        const vectors = await embedMany(batch.map(memory => memory.content));
+        const version = embeddingVersion();
+        await getRepositories().memories.insertMany(
+            batch.map((memory, i) => ({
+                user_id: memory.user_id,
+                content: memory.content,
+                role: memory.role,
+                embedding: vectors[i],
+                embedding_version: version,
+                created_at: memory.created_at,
+            }))
+        );
+    }
+
+    // The messages are in the database by now, so a log that cannot be written must not send
+    // them back to be stored again
+    async function stored(batch: QueuedMemory[]): Promise<void> {
+        pending = pending.filter(memory => !batch.includes(memory));
+        totals.written += batch.length;
+        try {
+            await append([{ op: 'done', ids: batch.map(memory => memory.id) }]);
+        } catch (error) {
+            logger.error('Memory queue: could not mark messages stored:', error);
+            stale = true;
+        }
+    }
+
+    async function drain(): Promise<number> {
+        await ensureLoaded();
+        let written = 0;
+
+        for (;;) {
+            const time = now().toISOString();
+            const batch = pending
+                .filter(memory => memory.next_attempt_at <= time)
+                .slice(0, config.batchSize);
+            if (!batch.length) break;
+
+            try {
+                await store(batch);
+            } catch (error) {
+                if (batch.length === 1) {
+                    // It waits for its retry time; later messages are not held up by it
+                    await fail(batch, error);
+                    break;
+                }
+
+                // One message that cannot be stored fails its whole batch, so store the members
+                // one at a time: only the messages that fail on their own wait for a retry
+                let failed = 0;
+                for (const memory of batch) {
+                    try {
+                        await store([memory]);
+                    } catch (error) {
+                        await fail([memory], error);
+                        failed++;
+                        continue;
+                    }
+                    await stored([memory]);
+                    written++;
+                }
+                // Nothing got through, e.g. the embedding server is down: wait for the retry time
+                if (failed === batch.length) break;
+                continue;
+            }
+            await stored(batch);
+            written += batch.length;
+        }
+
+        if (
+            stale ||
+            logLines - pending.length >= COMPACT_AFTER_LINES ||
+            (!pending.length && logLines)
+        ) {
+            await compact();
+            stale = false;
+        }
+        return written;
+    }
+
+    function flush(): Promise<number> {
+        // Flushes never overlap; a flush during a flush waits for it
+        if (!running) {
+            running = drain().finally(() => {
+                running = null;
+            });
+        }
+        return running;
+    }
+
+    function flushInBackground(): void {
+        flush().catch(error => logger.error('Memory queue flush failed:', error));
+    }
+
+    return {
+        async enqueue(userId, messages) {
+            if (!userId) throw new Error('userId is required');
+            if (messages.some(message => !message.content?.trim())) {
+                throw new Error('text is required');
+            }
+            if (messages.some(message => !['user', 'ai'].includes(message.role))) {
+                throw new Error('role must be "user" or "ai"');
+            }
+            await ensureLoaded();
+
+            const createdAt = now().toISOString();
+            const memories = messages.map(
+                (message, i): QueuedMemory => ({
+                    id: randomUUID(),
+                    user_id: userId,
+                    role: message.role,
+                    content: message.content,
+                    // A reply is stored a millisecond after its message so they stay in order
+                    created_at: new Date(Date.parse(createdAt) + i).toISOString(),
+                    attempts: 0,
+                    next_attempt_at: createdAt,
+                    last_error: null,
+                })
+            );
+            await append(memories.map(memory => ({ op: 'add', memory })));
+            pending.push(...memories);
+
+            if (timer) setImmediate(flushInBackground);
+        },
+
+        async start() {
+            await ensureLoaded();
+            if (timer) return;
+            timer = setInterval(flushInBackground, config.flushIntervalMs);
+            timer.unref();
+        },
+
+        stop() {
+            if (timer) clearInterval(timer);
+            timer = null;
+        },
+
+        flush,
+
+        stats() {
+            const oldest = pending.reduce<string | null>(
+                (min, memory) => (!min || memory.created_at < min ? memory.created_at : min),
+                null
+            );
+            return {
+                depth: pending.length,
+                lag_ms: oldest ? Math.max(0, now().getTime() - Date.parse(oldest)) : 0,
+                retrying: pending.filter(memory => memory.attempts > 0).length,
+                written: totals.written,
+                dead_lettered: totals.dead_lettered,
+                last_error: totals.last_error,
+            };
+        },
+    };
+}
+
+let active: MemoryQueue | null = null;
+
+/**
+ * Start the write-behind queue from config, or return null when it is disabled
+ */
+export function startMemoryQueue(): MemoryQueue | null {
+    const config = getMemoryQueueConfig();
+    if (!config.enabled) return null;
+
+    active = createMemoryQueue(config);
+    active.start().catch(error => logger.error('Memory queue failed to start:', error));
+    return active;
+}
+
+export function getMemoryQueue(): MemoryQueue | null {
+    return active;
+}
+
+/**
+ * Remember a user message and the reply. With the queue running they are stored in the
+ * background; otherwise both are embedded and stored before this resolves.
+ */
+export async function rememberExchange(
+    userId: string,
+    message: string,
+    reply: string
+): Promise<void> {
+    if (active) {
+        await active.enqueue(userId, [
+            { role: 'user', content: message },
+            { role: 'ai', content: reply },
+        ]);
+        return;
+    }
+    await storeMemory(userId, message, 'user');
+    await storeMemory(userId, reply, 'ai');
+}
@@ -0,0 +1,146 @@
+import { EmbeddingConfig, getEmbeddingConfig } from '../config/embedding';
+import { EmbeddingStore, getRepositories } from '../repositories';
+import { embedMany } from './memories';
+import { logger } from '../utils/logger';
+
+export interface ReembedProgress {
+    /** The embedding version rows are moved onto */
+    version: string;
+    /** Rows already on the version: memories, journal entries and conversation summaries */
+    current: number;
+    /** Rows still on another version, or without a vector */
+    remaining: number;
+    /** Share of rows on the version, 0..100 */
+    percent: number;
+    updated_at: string;
+}
+
+// Every table with embedded content, memories first
+function embeddingStores(): EmbeddingStore[] {
+    const { memories, journal, conversationSummaries } = getRepositories();
+    return [memories, journal, conversationSummaries];
+}
+
+async function progress(version: string): Promise<ReembedProgress> {
+    let total = 0;
+    let current = 0;
+    for (const store of embeddingStores()) {
+        const counts = await store.embeddingVersions();
+        total += Object.values(counts).reduce((sum, count) => sum + count, 0);
+        current += counts[version] ?? 0;
+    }
+    return {
+        version,
+        current,
+        remaining: total - current,
+        percent: total ? Math.floor((current / total) * 100) : 100,
+        updated_at: new Date().toISOString(),
+    };
+}
+
+/**
+ * Re-embed memories, journal entries and conversation summaries whose vectors came from
+ * another embedding version (or are missing), batchSize rows per embedding request, lowest
+ * id first. Each batch is written before the next is read, so an interrupted run resumes
+ * where it stopped. Stops at the first batch that fails; it is retried on a later pass.
+ * Resolves with the number of rows re-embedded.
+ */
+export async function reembedMemories(
+    options: Pick<EmbeddingConfig, 'version'> & {
+        batchSize: number;
+        onProgress?: (progress: ReembedProgress) => void;
+    }
+): Promise<number> {
+    let migrated = 0;
+
+    for (const store of embeddingStores()) {
+        for (;;) {
+            const rows = await store.staleEmbeddings(options.version, options.batchSize);
+            if (!rows.length) break;
+
+            const vectors = await embedMany(rows.map(row => row.content));
+            await store.setEmbeddings(
+                rows.map((row, i) => ({ id: row.id, embedding: vectors[i] })),
+                options.version
+            );
+            migrated += rows.length;
+            options.onProgress?.(await progress(options.version));
+        }
+    }
+    return migrated;
+}
+
+export interface ReembedScheduler {
+    start(): void;
+    stop(): void;
+    /** One pass over stale rows; resolves with the number re-embedded */
+    tick(): Promise<number>;
+    /** The latest progress, null before the first pass */
+    progress(): ReembedProgress | null;
+}
+
+export function createReembedScheduler(
+    config: Pick<EmbeddingConfig, 'version'> & Omit<EmbeddingConfig['reembed'], 'enabled'>
+): ReembedScheduler {
+    let timer: NodeJS.Timeout | null = null;
+    let running: Promise<number> | null = null;
+    let latest: ReembedProgress | null = null;
+
+    async function pass(): Promise<number> {
+        latest = await progress(config.version);
+        if (!latest.remaining) return 0;
+
+        logger.info(
+            `Re-embedding ${latest.remaining} rows onto ${config.version} (${latest.percent}% done)`
+        );
+        return reembedMemories({
+            version: config.version,
+            batchSize: config.batchSize,
+            onProgress(update) {
+                latest = update;
+                logger.info(
+                    `Re-embedding: ${update.percent}% on ${update.version}, ${update.remaining} left`
+                );
+            },
+        });
+    }
+
+    function tick(): Promise<number> {
+        // Passes never overlap; a tick during a pass waits for it
+        if (!running) {
+            running = pass().finally(() => {
+                running = null;
+            });
+        }
+        return running;
+    }
+
+    return {
+        start() {
+            if (timer) return;
+            const run = () =>
+                tick().catch(error => logger.error('Re-embedding pass failed:', error));
+            void run();
+            timer = setInterval(run, config.intervalMs);
+            timer.unref();
+        },
+        stop() {
+            if (timer) clearInterval(timer);
+            timer = null;
+        },
+        tick,
+        progress: () => latest,
+    };
+}
+
+/**
+ * Start periodic re-embedding from config, or return null when it is disabled
+ */
+export function startReembedding(): ReembedScheduler | null {
+    const { version, reembed } = getEmbeddingConfig();
+    if (!reembed.enabled) return null;
+
+    const scheduler = createReembedScheduler({ version, ...reembed });
+    scheduler.start();
+    return scheduler;
+}
@@ -1,4 +1,5 @@
 import { Request, Response } from 'express';
+import { logger } from '../utils/logger';
 
 export interface AppError extends Error {
     statusCode?: number;
@@ -15,7 +16,7 @@ export const errorHandler = (
     error.message = err.message;
 
     // Log error
-    console.error('Error:', err);
+    logger.error('Error:', err);
 
     // Mongoose bad ObjectId
     if (err.name === 'CastError') {
@@ -0,0 +1,56 @@
+import { z } from 'zod';
+
+/**
+ * The period the metrics cover, written as for summaries ("this week", "last month",
+ * "past 90 days")
+ */
+export const insightsQuerySchema = z.object({
+    period: z.string().trim().min(1).max(100).default('past 30 days'),
+});
+
+export type InsightsQueryInput = z.input<typeof insightsQuerySchema>;
+
+export const WEEKDAYS = [
+    'sunday',
+    'monday',
+    'tuesday',
+    'wednesday',
+    'thursday',
+    'friday',
+    'saturday',
+] as const;
+
+export type Weekday = (typeof WEEKDAYS)[number];
+
+/**
+ * Productivity metrics computed from the tasks table. Rates are fractions in [0, 1] rounded
+ * to two decimals, and null when there is nothing to divide by.
+ */
+export interface ProductivityMetrics {
+    period: {
+        label: string;
+        /** Calendar days in the user's timezone, inclusive */
+        from: string;
+        to: string;
+    };
+    tasks_created: number;
+    tasks_completed: number;
+    /** Share of the tasks created in the period that have been completed */
+    completion_rate: number | null;
+    /** Tasks completed in the period with a due date, by whether they beat it */
+    completed_on_time: number;
+    completed_late: number;
+    on_time_rate: number | null;
+    /** Open tasks past their due date now */
+    overdue: number;
+    /** Open tasks created before the period that are still not done */
+    carried_over: number;
+    /** Mean hours from creation to completion, for tasks completed in the period */
+    average_lead_time_hours: number | null;
+    /** Consecutive days with a completion, ending on the last day of the period */
+    current_streak_days: number;
+    longest_streak_days: number;
+    completions_by_weekday: Record<Weekday, number>;
+    /** Weekdays with the most completions; empty when nothing was completed */
+    busiest_weekdays: Weekday[];
+}
@@ -0,0 +1,38 @@
+import { z } from 'zod';
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a date as YYYY-MM-DD');
+
+export const journalEntryInputSchema = z
+    .object({
+        content: z.string().trim().min(1).max(10000),
+    })
+    .strict();
+
+export type JournalEntryInput = z.input<typeof journalEntryInputSchema>;
+
+export const JOURNAL_SEARCH_MODES = ['text', 'semantic'] as const;
+export const JOURNAL_EXPORT_FORMATS = ['markdown', 'json'] as const;
+
+/**
+ * Browsing and search. from/to are calendar days in the user's timezone, inclusive. Text
+ * search matches words; semantic search ranks by meaning and is not paginated.
+ */
+export const journalQuerySchema = z.object({
+    from: isoDate.optional(),
+    to: isoDate.optional(),
+    q: z.string().trim().min(1).max(200).optional(),
+    mode: z.enum(JOURNAL_SEARCH_MODES).default('text'),
+    cursor: z.string().min(1).optional(),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export type JournalQuery = z.output<typeof journalQuerySchema>;
+export type JournalQueryInput = z.input<typeof journalQuerySchema>;
+
+export const journalExportSchema = z.object({
+    format: z.enum(JOURNAL_EXPORT_FORMATS).default('markdown'),
+    from: isoDate.optional(),
+    to: isoDate.optional(),
+});
+
+export type JournalExportInput = z.input<typeof journalExportSchema>;
@@ -0,0 +1,68 @@
+import { z } from 'zod';
+import { MEMORY_SEARCH_MODES } from '../config/retrieval';
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a date as YYYY-MM-DD');
+const booleanFlag = z.enum(['true', 'false']).transform(value => value === 'true');
+
+export const MEMORY_ROLES = ['user', 'ai'] as const;
+
+/**
+ * Browsing. from/to are calendar days in the user's timezone, inclusive.
+ */
+export const memoryQuerySchema = z.object({
+    role: z.enum(MEMORY_ROLES).optional(),
+    from: isoDate.optional(),
+    to: isoDate.optional(),
+    pinned: booleanFlag.optional(),
+    cursor: z.string().min(1).optional(),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export type MemoryQueryInput = z.input<typeof memoryQuerySchema>;
+
+/**
+ * Search is not paginated. vector ranks by meaning alone; hybrid also ranks by matching
+ * words and recency and is used whenever a filter is given. summary_id keeps messages from
+ * one compacted conversation.
+ */
+export const memorySearchSchema = z.object({
+    q: z.string().trim().min(1).max(200),
+    mode: z.enum(MEMORY_SEARCH_MODES).optional(),
+    role: z.enum(MEMORY_ROLES).optional(),
+    from: isoDate.optional(),
+    to: isoDate.optional(),
+    summary_id: z.coerce.number().int().positive().optional(),
+    limit: z.coerce.number().int().min(1).max(50).default(10),
+});
+
+export type MemorySearchInput = z.input<typeof memorySearchSchema>;
+
+export const memoryUpdateSchema = z
+    .object({
+        content: z.string().trim().min(1).max(10000).optional(),
+        pinned: z.boolean().optional(),
+    })
+    .strict()
+    .refine(fields => fields.content !== undefined || fields.pinned !== undefined, {
+        message: 'Provide content or pinned',
+    });
+
+export type MemoryUpdateInput = z.input<typeof memoryUpdateSchema>;
+
+/**
+ * Bulk forget. A date bound is required so a bare request cannot wipe everything; pinned
+ * memories are kept unless include_pinned is set.
+ */
+export const memoryPurgeSchema = z
+    .object({
+        from: isoDate.optional(),
+        to: isoDate.optional(),
+        role: z.enum(MEMORY_ROLES).optional(),
+        include_pinned: booleanFlag.optional(),
+    })
+    .refine(query => query.from !== undefined || query.to !== undefined, {
+        message: 'Provide from or to',
+        path: ['from'],
+    });
+
+export type MemoryPurgeInput = z.input<typeof memoryPurgeSchema>;
@@ -0,0 +1,37 @@
+import { z } from 'zod';
+
+/**
+ * The period to summarize, as written: "today", "yesterday", "this week", "last week",
+ * "last month", "past 7 days" or a single day
+ */
+export const summaryQuerySchema = z.object({
+    period: z.string().trim().min(1).max(100).default('today'),
+});
+
+export type SummaryQueryInput = z.input<typeof summaryQuerySchema>;
+
+export interface SummaryCounts {
+    tasks_created: number;
+    tasks_completed: number;
+    journal_entries: number;
+    messages: number;
+}
+
+/** Ids of the records the summary was written from */
+export interface SummarySources {
+    task_ids: number[];
+    journal_ids: number[];
+    memory_ids: number[];
+}
+
+export interface Summary {
+    period: {
+        label: string;
+        /** Calendar days in the user's timezone, inclusive */
+        from: string;
+        to: string;
+    };
+    summary: string;
+    counts: SummaryCounts;
+    sources: SummarySources;
+}
@@ -1,6 +1,119 @@
-export interface Task {
-    id: number;
-    title: string;
-    description: string;
-    completed: boolean;
+import { z } from 'zod';
+import { formatRecurrence, parseRecurrence } from '../utils/recurrence';
+
+export const TASK_STATUSES = ['pending', 'in_progress', 'completed'] as const;
+export const TASK_PRIORITIES = ['low', 'medium', 'high', 'urgent'] as const;
+
+export const taskStatusSchema = z.enum(TASK_STATUSES);
+export const taskPrioritySchema = z.enum(TASK_PRIORITIES);
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a date as YYYY-MM-DD');
+const timeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Expected a time as HH:MM');
+const timestamp = z.string().datetime({ offset: true });
+
+// Accepts an RRULE subset or a phrase such as "every Monday" and stores the canonical RRULE
+const recurrence = z.string().transform((value, ctx) => {
+    const rule = parseRecurrence(value);
+    if (!rule) {
+        ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: 'Expected a recurrence such as "FREQ=WEEKLY;BYDAY=MO" or "every Monday"',
+        });
+        return z.NEVER;
+    }
+    return formatRecurrence(rule);
+});
+
+/**
+ * The one task shape shared by chat, the REST API and storage (public.tasks).
+ * due_date/due_time are the calendar day and wall-clock time the task is due.
+ * remind_at is derived from them by the task service and cleared once the reminder fires.
+ */
+export const taskSchema = z.object({
+    id: z.number().int(),
+    user_id: z.string(),
+    content: z.string().trim().min(1).max(500),
+    description: z.string().max(5000).nullable(),
+    status: taskStatusSchema,
+    priority: taskPrioritySchema,
+    tags: z.array(z.string().trim().toLowerCase().min(1).max(50)).max(20),
+    due_date: isoDate.nullable(),
+    due_time: timeOfDay.nullable(),
+    recurrence: recurrence.nullable(),
+    remind_at: timestamp.nullable(),
+    completed_at: timestamp.nullable(),
+    created_at: timestamp,
+    updated_at: timestamp,
+});
+
+export type Task = z.infer<typeof taskSchema>;
+export type TaskStatus = z.infer<typeof taskStatusSchema>;
+export type TaskPriority = z.infer<typeof taskPrioritySchema>;
+
+const editableFields = taskSchema.pick({
+    content: true,
+    description: true,
+    status: true,
+    priority: true,
+    tags: true,
+    due_date: true,
+    due_time: true,
+    recurrence: true,
+});
+
+export const createTaskSchema = editableFields
+    .extend({
+        description: editableFields.shape.description.default(null),
+        status: taskStatusSchema.default('pending'),
+        priority: taskPrioritySchema.default('medium'),
+        tags: editableFields.shape.tags.default([]),
+        due_date: editableFields.shape.due_date.default(null),
+        due_time: editableFields.shape.due_time.default(null),
+        recurrence: editableFields.shape.recurrence.default(null),
+    })
+    .strict()
+    .refine(task => !task.due_time || task.due_date, {
+        message: 'due_time requires due_date',
+        path: ['due_time'],
+    });
+
+export const updateTaskSchema = editableFields
+    .partial()
+    .strict()
+    .refine(fields => Object.keys(fields).length > 0, { message: 'No fields to update' });
+
+export type CreateTaskInput = z.input<typeof createTaskSchema>;
+export type UpdateTaskInput = z.input<typeof updateTaskSchema>;
+
+/**
+ * Columns written to storage: everything except the ids and timestamps the store assigns
+ */
+export type TaskFields = Omit<Task, 'id' | 'user_id' | 'created_at' | 'updated_at'>;
+
+export const TASK_SORT_FIELDS = ['created_at', 'due_date', 'priority'] as const;
+
+/**
+ * Filters for listing tasks. due_from/due_to are inclusive and leave out tasks without a
+ * due date; search matches content and description, case-insensitively.
+ */
+export const taskQuerySchema = z
+    .object({
+        status: z.array(taskStatusSchema).min(1).optional(),
+        priority: z.array(taskPrioritySchema).min(1).optional(),
+        tag: z.string().trim().toLowerCase().min(1).optional(),
+        search: z.string().trim().min(1).max(200).optional(),
+        due_from: isoDate.optional(),
+        due_to: isoDate.optional(),
+        sort: z.enum(TASK_SORT_FIELDS).default('created_at'),
+        order: z.enum(['asc', 'desc']).optional(),
+        limit: z.number().int().min(1).max(100).optional(),
+    })
+    .strict();
+
+export type TaskQuery = z.output<typeof taskQuerySchema>;
+export type TaskQueryInput = z.input<typeof taskQuerySchema>;
+
+/** Default direction per sort: newest first, soonest due first, most urgent first */
+export function sortOrder(query: TaskQuery): 'asc' | 'desc' {
+    return query.order ?? (query.sort === 'due_date' ? 'asc' : 'desc');
 }
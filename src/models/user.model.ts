@@ -0,0 +1,18 @@
+export interface UserProfile {
+    first_name?: string;
+    last_name?: string;
+    email?: string;
+    /** IANA timezone used to resolve relative due dates, e.g. "Europe/London" */
+    timezone?: string;
+}
+
+export interface AuthUser {
+    id: string;
+    email?: string;
+    email_confirmed: boolean;
+    first_name?: string;
+    last_name?: string;
+    timezone?: string;
+    created_at: string;
+    updated_at?: string;
+}
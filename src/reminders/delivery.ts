@@ -0,0 +1,82 @@
+import { createHmac } from 'crypto';
+import { ReminderChannel, ReminderConfig } from '../config/reminders';
+import { Reminder } from '../repositories';
+import { logger } from '../utils/logger';
+
+/**
+ * Where a fired reminder goes. deliver() throws when the reminder should be retried.
+ */
+export interface ReminderDelivery {
+    channel: ReminderChannel;
+    deliver(reminder: Reminder): Promise<void>;
+}
+
+/**
+ * Reminders are always recorded, so the inbox channel has nothing left to do: clients
+ * poll GET /api/reminders.
+ */
+export function createInboxDelivery(): ReminderDelivery {
+    return {
+        channel: 'inbox',
+        async deliver() {
+            // Nothing to push; the recorded reminder is the inbox entry
+        },
+    };
+}
+
+export function createLogDelivery(log: (line: string) => void = logger.info): ReminderDelivery {
+    return {
+        channel: 'log',
+        async deliver(reminder) {
+            const due = [reminder.due_date, reminder.due_time].filter(Boolean).join(' ');
+            log(
+                `⏰ Reminder for ${reminder.user_id}: "${reminder.content}"${due ? ` due ${due}` : ''}`
+            );
+        },
+    };
+}
+
+export interface WebhookOptions {
+    url: string;
+    /** Signs the body as X-Reminder-Signature: sha256=<hex HMAC> */
+    secret?: string;
+    timeoutMs?: number;
+}
+
+export function createWebhookDelivery(options: WebhookOptions): ReminderDelivery {
+    return {
+        channel: 'webhook',
+        async deliver(reminder) {
+            const body = JSON.stringify({ type: 'task.reminder', reminder });
+            const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+            if (options.secret) {
+                const signature = createHmac('sha256', options.secret).update(body).digest('hex');
+                headers['X-Reminder-Signature'] = `sha256=${signature}`;
+            }
+
+            const response = await fetch(options.url, {
+                method: 'POST',
+                headers,
+                body,
+                signal: AbortSignal.timeout(options.timeoutMs ?? 10_000),
+            });
+            if (!response.ok) {
+                throw new Error(`Webhook responded ${response.status}`);
+            }
+        },
+    };
+}
+
+export function createDelivery(config: ReminderConfig): ReminderDelivery {
+    switch (config.channel) {
+        case 'log':
+            return createLogDelivery();
+        case 'webhook':
+            return createWebhookDelivery({
+                url: config.webhookUrl!,
+                secret: config.webhookSecret,
+            });
+        default:
+            return createInboxDelivery();
+    }
+}
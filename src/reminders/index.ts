@@ -0,0 +1,22 @@
+import { getReminderConfig } from '../config/reminders';
+import { createDelivery } from './delivery';
+import { createReminderScheduler, ReminderScheduler } from './scheduler';
+
+export * from './delivery';
+export * from './scheduler';
+
+/**
+ * Start the reminder scheduler from config, or return null when reminders are disabled
+ */
+export function startReminders(): ReminderScheduler | null {
+    const config = getReminderConfig();
+    if (!config.enabled) return null;
+
+    const scheduler = createReminderScheduler({
+        delivery: createDelivery(config),
+        pollIntervalMs: config.pollIntervalMs,
+        maxAttempts: config.maxAttempts,
+    });
+    scheduler.start();
+    return scheduler;
+}
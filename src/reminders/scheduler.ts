@@ -0,0 +1,100 @@
+import { getRepositories, Reminder } from '../repositories';
+import { ReminderDelivery } from './delivery';
+import { logger } from '../utils/logger';
+
+const BATCH_SIZE = 100;
+// Long enough for any delivery to finish (webhooks time out after 10s)
+const LEASE_MS = 5 * 60_000;
+
+export interface SchedulerOptions {
+    delivery: ReminderDelivery;
+    pollIntervalMs: number;
+    maxAttempts: number;
+    now?: () => Date;
+}
+
+export interface ReminderScheduler {
+    start(): void;
+    stop(): void;
+    /** One polling pass; resolves with the number of reminders delivered */
+    tick(): Promise<number>;
+}
+
+/**
+ * Polls for tasks whose remind_at has passed and delivers their reminders.
+ *
+ * Each reminder is recorded (claimed) before it is delivered, and the record is unique per
+ * task and remind_at, so a restart or a second instance never fires it twice. Every attempt
+ * holds a lease on the reminder: one whose delivery failed is retried on a later pass, one
+ * whose delivery was interrupted by a restart once its lease runs out, up to maxAttempts.
+ */
+export function createReminderScheduler(options: SchedulerOptions): ReminderScheduler {
+    const now = options.now ?? (() => new Date());
+    let timer: NodeJS.Timeout | null = null;
+    let running: Promise<number> | null = null;
+
+    async function deliver(reminder: Reminder): Promise<boolean> {
+        const { reminders } = getRepositories();
+        try {
+            await options.delivery.deliver(reminder);
+            await reminders.markDelivered(reminder.id);
+            return true;
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            logger.error(`Reminder ${reminder.id} delivery failed:`, message);
+            await reminders.markFailed(reminder.id, message);
+            return false;
+        }
+    }
+
+    async function poll(): Promise<number> {
+        const { tasks, reminders } = getRepositories();
+        const time = now();
+        const lockedUntil = new Date(time.getTime() + LEASE_MS).toISOString();
+        let delivered = 0;
+
+        // Earlier failures and reminders whose delivery was cut short by a restart
+        const retries = await reminders.leaseUndelivered(
+            time.toISOString(),
+            lockedUntil,
+            options.maxAttempts,
+            BATCH_SIZE
+        );
+        for (const reminder of retries) {
+            if (await deliver(reminder)) delivered++;
+        }
+
+        for (const task of await tasks.dueForReminder(time.toISOString(), BATCH_SIZE)) {
+            const reminder = await reminders.claim(task, options.delivery.channel, lockedUntil);
+            await tasks.clearReminder(task);
+            if (reminder && (await deliver(reminder))) delivered++;
+        }
+        return delivered;
+    }
+
+    function tick(): Promise<number> {
+        // Passes never overlap; a tick during a pass waits for it
+        if (!running) {
+            running = poll().finally(() => {
+                running = null;
+            });
+        }
+        return running;
+    }
+
+    return {
+        start() {
+            if (timer) return;
+            const run = () =>
+                tick().catch(error => logger.error('Reminder scheduler pass failed:', error));
+            void run();
+            timer = setInterval(run, options.pollIntervalMs);
+            timer.unref();
+        },
+        stop() {
+            if (timer) clearInterval(timer);
+            timer = null;
+        },
+        tick,
+    };
+}
@@ -0,0 +1,51 @@
+import { supabaseAdmin } from '../config/supabase';
+import { createInMemoryRepositories } from './memory.repository';
+import { createSupabaseRepositories } from './supabase.repository';
+import { Repositories } from './types';
+
+export * from './types';
+export { createInMemoryRepositories } from './memory.repository';
+export { createSupabaseRepositories } from './supabase.repository';
+
+export type StorageBackend = 'supabase' | 'memory';
+
+let repositories: Repositories | null = null;
+
+/**
+ * STORAGE_BACKEND picks the backend explicitly; otherwise Supabase is used whenever the
+ * admin client is configured and the in-memory store is the fallback.
+ */
+export function getStorageBackend(): StorageBackend {
+    const configured = process.env.STORAGE_BACKEND?.trim().toLowerCase();
+    if (configured === 'supabase' || configured === 'memory') {
+        return configured;
+    }
+    if (configured) {
+        throw new Error(`Unknown STORAGE_BACKEND "${configured}". Expected supabase or memory`);
+    }
+    return supabaseAdmin ? 'supabase' : 'memory';
+}
+
+function createRepositories(): Repositories {
+    if (getStorageBackend() === 'memory') {
+        return createInMemoryRepositories();
+    }
+    if (!supabaseAdmin) {
+        throw new Error('STORAGE_BACKEND=supabase requires SUPABASE_SERVICE_ROLE_KEY');
+    }
+    return createSupabaseRepositories(supabaseAdmin);
+}
+
+export function getRepositories(): Repositories {
+    if (!repositories) {
+        repositories = createRepositories();
+    }
+    return repositories;
+}
+
+/**
+ * Replace the active repositories (tests, scripts). Pass null to go back to config.
+ */
+export function setRepositories(value: Repositories | null): void {
+    repositories = value;
+}
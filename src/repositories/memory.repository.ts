@@ -0,0 +1,697 @@
+import { sortOrder, TASK_PRIORITIES } from '../models/task.model';
+import { fuseRankings, queryTerms, textRank } from '../utils/ranking';
+import { cosineSimilarity } from '../utils/vector';
+import {
+    ConversationSummary,
+    ConversationSummaryRepository,
+    EmbeddingStore,
+    JournalEntry,
+    JournalRepository,
+    Memory,
+    MemoryMessage,
+    MemoryRecord,
+    MemoryRepository,
+    Reminder,
+    ReminderRepository,
+    Repositories,
+    Task,
+    TaskQuery,
+    TaskRepository,
+    TimeRange,
+} from './types';
+
+interface Table<T> {
+    rows: T[];
+    nextId: number;
+}
+
+function createTable<T>(): Table<T> {
+    return { rows: [], nextId: 1 };
+}
+
+function newestFirst<T extends { id: number; created_at: string }>(a: T, b: T): number {
+    return b.created_at.localeCompare(a.created_at) || b.id - a.id;
+}
+
+function isWithin(time: string, range: TimeRange): boolean {
+    const instant = Date.parse(time);
+    return instant >= Date.parse(range.from) && instant < Date.parse(range.to);
+}
+
+function matchesQuery(task: Task, query: TaskQuery): boolean {
+    if (query.status && !query.status.includes(task.status)) return false;
+    if (query.priority && !query.priority.includes(task.priority)) return false;
+    if (query.tag && !task.tags.includes(query.tag)) return false;
+    if (query.due_from && (!task.due_date || task.due_date < query.due_from)) return false;
+    if (query.due_to && (!task.due_date || task.due_date > query.due_to)) return false;
+    if (query.search) {
+        const needle = query.search.toLowerCase();
+        const haystack = `${task.content} ${task.description ?? ''}`.toLowerCase();
+        if (!haystack.includes(needle)) return false;
+    }
+    return true;
+}
+
+// Nulls sort last whichever the direction, as with Postgres NULLS LAST
+function compareNullable(a: string | null, b: string | null, direction: number): number {
+    if (a === b) return 0;
+    if (!a) return 1;
+    if (!b) return -1;
+    return direction * a.localeCompare(b);
+}
+
+function compareDue(a: Task, b: Task, direction: number): number {
+    return (
+        compareNullable(a.due_date, b.due_date, direction) ||
+        compareNullable(a.due_time, b.due_time, direction)
+    );
+}
+
+// Same ordering as the Supabase query, ties broken newest first
+function compareTasks(query: TaskQuery): (a: Task, b: Task) => number {
+    const direction = sortOrder(query) === 'asc' ? 1 : -1;
+
+    switch (query.sort) {
+        case 'due_date':
+            return (a, b) => compareDue(a, b, direction) || newestFirst(a, b);
+        case 'priority':
+            return (a, b) =>
+                direction *
+                    (TASK_PRIORITIES.indexOf(a.priority) - TASK_PRIORITIES.indexOf(b.priority)) ||
+                compareDue(a, b, 1) ||
+                newestFirst(a, b);
+        default:
+            return (a, b) => -direction * newestFirst(a, b);
+    }
+}
+
+function createTaskRepository(table: Table<Task>): TaskRepository {
+    const find = (userId: string, id: number) =>
+        table.rows.find(task => task.user_id === userId && task.id === id);
+
+    return {
+        async list(userId, query) {
+            const rows = table.rows.filter(task => task.user_id === userId);
+            if (!query) {
+                return rows.sort(newestFirst).map(task => ({ ...task }));
+            }
+            const tasks = rows.filter(task => matchesQuery(task, query)).sort(compareTasks(query));
+            return tasks.slice(0, query.limit ?? tasks.length).map(task => ({ ...task }));
+        },
+
+        async get(userId, id) {
+            const task = find(userId, id);
+            return task ? { ...task } : null;
+        },
+
+        async create(userId, fields) {
+            const now = new Date().toISOString();
+            const task: Task = {
+                ...fields,
+                id: table.nextId++,
+                user_id: userId,
+                created_at: now,
+                updated_at: now,
+            };
+            table.rows.push(task);
+            return { ...task };
+        },
+
+        async update(userId, id, fields) {
+            const task = find(userId, id);
+            if (!task) return null;
+            for (const [key, value] of Object.entries(fields)) {
+                if (value !== undefined) {
+                    (task as unknown as Record<string, unknown>)[key] = value;
+                }
+            }
+            task.updated_at = new Date().toISOString();
+            return { ...task };
+        },
+
+        async delete(userId, id) {
+            table.rows = table.rows.filter(task => !(task.user_id === userId && task.id === id));
+        },
+
+        async dueForReminder(before, limit) {
+            return table.rows
+                .filter(
+                    task =>
+                        task.remind_at &&
+                        task.status !== 'completed' &&
+                        Date.parse(task.remind_at) <= Date.parse(before)
+                )
+                .sort((a, b) => Date.parse(a.remind_at!) - Date.parse(b.remind_at!))
+                .slice(0, limit)
+                .map(task => ({ ...task }));
+        },
+
+        async clearReminder({ user_id, id, remind_at }) {
+            const task = find(user_id, id);
+            if (!task?.remind_at || !remind_at) return;
+            if (Date.parse(task.remind_at) !== Date.parse(remind_at)) return;
+            task.remind_at = null;
+            task.updated_at = new Date().toISOString();
+        },
+
+        async activity(userId, range, limit, offset = 0) {
+            return table.rows
+                .filter(
+                    task =>
+                        task.user_id === userId &&
+                        (isWithin(task.created_at, range) ||
+                            (task.completed_at !== null && isWithin(task.completed_at, range)))
+                )
+                .sort(newestFirst)
+                .slice(offset, offset + limit)
+                .map(task => ({ ...task }));
+        },
+    };
+}
+
+// A row with embedded content; memories always have a vector, entries and summaries may not
+interface EmbeddedRow {
+    id: number;
+    user_id: string;
+    content: string;
+    embedding: number[] | null;
+    embedding_version: string | null;
+}
+
+function createEmbeddingStore(table: Table<EmbeddedRow>): EmbeddingStore {
+    return {
+        async staleEmbeddings(version, limit) {
+            return table.rows
+                .filter(row => row.embedding_version !== version)
+                .sort((a, b) => a.id - b.id)
+                .slice(0, limit)
+                .map(({ id, user_id, content, embedding_version }) => ({
+                    id,
+                    user_id,
+                    content,
+                    embedding_version,
+                }));
+        },
+
+        async setEmbeddings(updates, version) {
+            for (const update of updates) {
+                const row = table.rows.find(candidate => candidate.id === update.id);
+                if (row) {
+                    row.embedding = update.embedding;
+                    row.embedding_version = version;
+                }
+            }
+        },
+
+        async embeddingVersions() {
+            const counts: Record<string, number> = {};
+            for (const row of table.rows) {
+                const version = row.embedding_version ?? 'none';
+                counts[version] = (counts[version] ?? 0) + 1;
+            }
+            return counts;
+        },
+    };
+}
+
+type StoredJournalEntry = JournalEntry & {
+    embedding: number[] | null;
+    embedding_version: string | null;
+};
+
+function withoutEmbedding({
+    embedding: _embedding,
+    embedding_version: _version,
+    ...entry
+}: StoredJournalEntry): JournalEntry {
+    return { ...entry };
+}
+
+function createJournalRepository(table: Table<StoredJournalEntry>): JournalRepository {
+    const find = (userId: string, id: number) =>
+        table.rows.find(entry => entry.user_id === userId && entry.id === id);
+    const inRange = (entry: JournalEntry, from?: string, to?: string) =>
+        (!from || Date.parse(entry.created_at) >= Date.parse(from)) &&
+        (!to || Date.parse(entry.created_at) < Date.parse(to));
+
+    return {
+        async create(userId, fields) {
+            const now = new Date().toISOString();
+            const entry: StoredJournalEntry = {
+                id: table.nextId++,
+                user_id: userId,
+                content: fields.content,
+                embedding: fields.embedding,
+                embedding_version: fields.embedding_version,
+                created_at: now,
+                updated_at: now,
+            };
+            table.rows.push(entry);
+            return withoutEmbedding(entry);
+        },
+
+        async get(userId, id) {
+            const entry = find(userId, id);
+            return entry ? withoutEmbedding(entry) : null;
+        },
+
+        async update(userId, id, fields) {
+            const entry = find(userId, id);
+            if (!entry) return null;
+            entry.content = fields.content;
+            entry.embedding = fields.embedding;
+            entry.embedding_version = fields.embedding_version;
+            entry.updated_at = new Date().toISOString();
+            return withoutEmbedding(entry);
+        },
+
+        async delete(userId, id) {
+            table.rows = table.rows.filter(entry => !(entry.user_id === userId && entry.id === id));
+        },
+
+        async list(userId, query) {
+            const words = query.search?.toLowerCase().split(/\W+/).filter(Boolean) ?? [];
+            const before = query.before;
+            return table.rows
+                .filter(entry => entry.user_id === userId && inRange(entry, query.from, query.to))
+                .filter(entry => words.every(word => entry.content.toLowerCase().includes(word)))
+                .sort(newestFirst)
+                .filter(
+                    entry =>
+                        !before ||
+                        entry.created_at < before.created_at ||
+                        (entry.created_at === before.created_at && entry.id < before.id)
+                )
+                .slice(0, query.limit)
+                .map(withoutEmbedding);
+        },
+
+        // Brute-force stand-in for the match_journal_entries RPC
+        async match(userId, query) {
+            return table.rows
+                .filter(
+                    entry =>
+                        entry.user_id === userId &&
+                        entry.embedding &&
+                        (!query.version || entry.embedding_version === query.version) &&
+                        inRange(entry, query.from, query.to)
+                )
+                .map(entry => ({
+                    ...withoutEmbedding(entry),
+                    similarity: cosineSimilarity(entry.embedding!, query.embedding),
+                }))
+                .filter(row => row.similarity >= query.threshold)
+                .sort((a, b) => b.similarity - a.similarity)
+                .slice(0, query.count);
+        },
+
+        ...createEmbeddingStore(table),
+    };
+}
+
+function createReminderRepository(table: Table<Reminder>): ReminderRepository {
+    const find = (id: number) => table.rows.find(reminder => reminder.id === id);
+
+    return {
+        async claim(task, channel, lockedUntil) {
+            const remindAt = task.remind_at!;
+            const exists = table.rows.some(
+                reminder =>
+                    reminder.task_id === task.id &&
+                    Date.parse(reminder.remind_at) === Date.parse(remindAt)
+            );
+            if (exists) return null;
+
+            const reminder: Reminder = {
+                id: table.nextId++,
+                user_id: task.user_id,
+                task_id: task.id,
+                content: task.content,
+                due_date: task.due_date,
+                due_time: task.due_time,
+                remind_at: remindAt,
+                channel,
+                attempts: 1,
+                last_error: null,
+                locked_until: lockedUntil,
+                delivered_at: null,
+                read_at: null,
+                created_at: new Date().toISOString(),
+            };
+            table.rows.push(reminder);
+            return { ...reminder };
+        },
+
+        async markDelivered(id) {
+            const reminder = find(id);
+            if (reminder) {
+                reminder.last_error = null;
+                reminder.locked_until = null;
+                reminder.delivered_at = new Date().toISOString();
+            }
+        },
+
+        async markFailed(id, error) {
+            const reminder = find(id);
+            if (reminder) {
+                reminder.last_error = error;
+                reminder.locked_until = null;
+            }
+        },
+
+        async leaseUndelivered(before, lockedUntil, maxAttempts, limit) {
+            const leased = table.rows
+                .filter(
+                    reminder =>
+                        !reminder.delivered_at &&
+                        reminder.attempts < maxAttempts &&
+                        (!reminder.locked_until ||
+                            Date.parse(reminder.locked_until) <= Date.parse(before))
+                )
+                .slice(0, limit);
+            for (const reminder of leased) {
+                reminder.attempts++;
+                reminder.locked_until = lockedUntil;
+            }
+            return leased.map(reminder => ({ ...reminder }));
+        },
+
+        async list(userId, options) {
+            return table.rows
+                .filter(
+                    reminder =>
+                        reminder.user_id === userId && (!options.unreadOnly || !reminder.read_at)
+                )
+                .sort((a, b) => b.remind_at.localeCompare(a.remind_at) || b.id - a.id)
+                .slice(0, options.limit)
+                .map(reminder => ({ ...reminder }));
+        },
+
+        async markRead(userId, id) {
+            const reminder = find(id);
+            if (!reminder || reminder.user_id !== userId) return null;
+            reminder.read_at ??= new Date().toISOString();
+            return { ...reminder };
+        },
+    };
+}
+
+// Each of the vector and text searches contributes this many candidates per result
+const HYBRID_POOL_FACTOR = 4;
+
+function toRecord({ embedding: _embedding, ...memory }: Memory): MemoryRecord {
+    return { ...memory };
+}
+
+function toMessage({ id, content, role, created_at }: Memory): MemoryMessage {
+    return { id, content, role, created_at };
+}
+
+function createMemoryRepository(table: Table<Memory>): MemoryRepository {
+    const find = (userId: string, id: number) =>
+        table.rows.find(memory => memory.user_id === userId && memory.id === id);
+    const inRange = (memory: Memory, from?: string, to?: string) =>
+        (!from || Date.parse(memory.created_at) >= Date.parse(from)) &&
+        (!to || Date.parse(memory.created_at) < Date.parse(to));
+
+    return {
+        async insert(userId, content, role, embedding, embeddingVersion) {
+            const id = table.nextId++;
+            const now = new Date().toISOString();
+            table.rows.push({
+                id,
+                user_id: userId,
+                content,
+                role,
+                embedding,
+                embedding_version: embeddingVersion,
+                summary_id: null,
+                pinned: false,
+                created_at: now,
+                updated_at: now,
+            });
+            return { id };
+        },
+
+        async insertMany(memories) {
+            return memories.map(memory => {
+                const id = table.nextId++;
+                table.rows.push({
+                    ...memory,
+                    id,
+                    summary_id: null,
+                    pinned: false,
+                    updated_at: memory.created_at,
+                });
+                return { id };
+            });
+        },
+
+        async recent(userId, limit, range) {
+            return table.rows
+                .filter(
+                    memory =>
+                        memory.user_id === userId && (!range || isWithin(memory.created_at, range))
+                )
+                .sort(newestFirst)
+                .slice(0, limit)
+                .map(toMessage);
+        },
+
+        // Brute-force stand-in for the match_memories RPC
+        async match(userId, query) {
+            return table.rows
+                .filter(
+                    memory =>
+                        memory.user_id === userId &&
+                        (!query.version || memory.embedding_version === query.version)
+                )
+                .map(memory => ({
+                    ...memory,
+                    similarity: cosineSimilarity(memory.embedding, query.embedding),
+                }))
+                .filter(row => row.similarity >= query.threshold)
+                .sort((a, b) => b.similarity - a.similarity)
+                .slice(0, query.count);
+        },
+
+        // Stand-in for the hybrid_match_memories RPC: word overlap replaces ts_rank_cd
+        async hybridMatch(userId, query) {
+            const terms = queryTerms(query.text);
+            const candidates = table.rows
+                .filter(
+                    memory =>
+                        memory.user_id === userId &&
+                        inRange(memory, query.from, query.to) &&
+                        (!query.role || memory.role === query.role) &&
+                        (query.summaryId === undefined || memory.summary_id === query.summaryId)
+                )
+                .map(memory => ({
+                    ...memory,
+                    // Vectors of another version still match by text
+                    similarity:
+                        !query.version || memory.embedding_version === query.version
+                            ? cosineSimilarity(memory.embedding, query.embedding)
+                            : 0,
+                    text_rank: textRank(terms, memory.content),
+                }));
+
+            return fuseRankings(candidates, {
+                threshold: query.threshold,
+                poolSize: query.count * HYBRID_POOL_FACTOR,
+                ranking: query.ranking,
+            }).slice(0, query.count);
+        },
+
+        async unsummarized(userId, before, limit) {
+            return table.rows
+                .filter(
+                    memory =>
+                        memory.user_id === userId &&
+                        memory.summary_id === null &&
+                        Date.parse(memory.created_at) < Date.parse(before)
+                )
+                .sort((a, b) => newestFirst(b, a))
+                .slice(0, limit)
+                .map(toMessage);
+        },
+
+        async pendingSummaryUsers(before, minMessages, limit) {
+            const counts = new Map<string, number>();
+            for (const memory of table.rows) {
+                if (
+                    memory.summary_id === null &&
+                    Date.parse(memory.created_at) < Date.parse(before)
+                ) {
+                    counts.set(memory.user_id, (counts.get(memory.user_id) ?? 0) + 1);
+                }
+            }
+            return [...counts]
+                .filter(([, count]) => count >= minMessages)
+                .map(([userId]) => userId)
+                .slice(0, limit);
+        },
+
+        async markSummarized(userId, ids, summaryId) {
+            for (const memory of table.rows) {
+                if (memory.user_id === userId && ids.includes(memory.id)) {
+                    memory.summary_id = summaryId;
+                }
+            }
+        },
+
+        async deleteMany(userId, ids) {
+            table.rows = table.rows.filter(
+                memory => memory.pinned || !(memory.user_id === userId && ids.includes(memory.id))
+            );
+        },
+
+        async list(userId, query) {
+            const before = query.before;
+            return table.rows
+                .filter(
+                    memory =>
+                        memory.user_id === userId &&
+                        inRange(memory, query.from, query.to) &&
+                        (!query.role || memory.role === query.role) &&
+                        (query.pinned === undefined || memory.pinned === query.pinned)
+                )
+                .sort(newestFirst)
+                .filter(
+                    memory =>
+                        !before ||
+                        memory.created_at < before.created_at ||
+                        (memory.created_at === before.created_at && memory.id < before.id)
+                )
+                .slice(0, query.limit)
+                .map(toRecord);
+        },
+
+        async get(userId, id) {
+            const memory = find(userId, id);
+            return memory ? toRecord(memory) : null;
+        },
+
+        async update(userId, id, fields) {
+            const memory = find(userId, id);
+            if (!memory) return null;
+            if (fields.content !== undefined) memory.content = fields.content;
+            if (fields.embedding !== undefined) memory.embedding = fields.embedding;
+            if (fields.embedding_version !== undefined) {
+                memory.embedding_version = fields.embedding_version;
+            }
+            if (fields.pinned !== undefined) memory.pinned = fields.pinned;
+            memory.updated_at = new Date().toISOString();
+            return toRecord(memory);
+        },
+
+        async delete(userId, id) {
+            const before = table.rows.length;
+            table.rows = table.rows.filter(
+                memory => !(memory.user_id === userId && memory.id === id)
+            );
+            return table.rows.length < before;
+        },
+
+        async deleteRange(userId, query) {
+            const before = table.rows.length;
+            table.rows = table.rows.filter(
+                memory =>
+                    !(
+                        memory.user_id === userId &&
+                        inRange(memory, query.from, query.to) &&
+                        (!query.role || memory.role === query.role) &&
+                        (query.includePinned || !memory.pinned)
+                    )
+            );
+            return before - table.rows.length;
+        },
+
+        async pinned(userId, limit) {
+            return table.rows
+                .filter(memory => memory.user_id === userId && memory.pinned)
+                .sort(newestFirst)
+                .slice(0, limit)
+                .map(toMessage);
+        },
+
+        ...createEmbeddingStore(table),
+    };
+}
+
+type StoredSummary = ConversationSummary & {
+    embedding: number[] | null;
+    embedding_version: string | null;
+};
+
+function withoutSummaryEmbedding({
+    embedding: _embedding,
+    embedding_version: _version,
+    ...summary
+}: StoredSummary): ConversationSummary {
+    return { ...summary };
+}
+
+function createConversationSummaryRepository(
+    table: Table<StoredSummary>
+): ConversationSummaryRepository {
+    return {
+        async create(userId, fields) {
+            const summary: StoredSummary = {
+                ...fields,
+                id: table.nextId++,
+                user_id: userId,
+                created_at: new Date().toISOString(),
+            };
+            table.rows.push(summary);
+            return withoutSummaryEmbedding(summary);
+        },
+
+        async list(userId, { range, limit }) {
+            return table.rows
+                .filter(
+                    summary =>
+                        summary.user_id === userId &&
+                        (!range ||
+                            (Date.parse(summary.period_end) >= Date.parse(range.from) &&
+                                Date.parse(summary.period_start) < Date.parse(range.to)))
+                )
+                .sort((a, b) => b.period_end.localeCompare(a.period_end) || b.id - a.id)
+                .slice(0, limit)
+                .map(withoutSummaryEmbedding);
+        },
+
+        // Brute-force stand-in for the match_conversation_summaries RPC
+        async match(userId, query) {
+            return table.rows
+                .filter(
+                    summary =>
+                        summary.user_id === userId &&
+                        summary.embedding &&
+                        (!query.version || summary.embedding_version === query.version)
+                )
+                .map(summary => ({
+                    ...withoutSummaryEmbedding(summary),
+                    similarity: cosineSimilarity(summary.embedding!, query.embedding),
+                }))
+                .filter(row => row.similarity >= query.threshold)
+                .sort((a, b) => b.similarity - a.similarity)
+                .slice(0, query.count);
+        },
+
+        ...createEmbeddingStore(table),
+    };
+}
+
+/**
+ * Process-local storage for development and tests. Data is lost on restart.
+ */
+export function createInMemoryRepositories(): Repositories {
+    return {
+        tasks: createTaskRepository(createTable<Task>()),
+        journal: createJournalRepository(createTable<StoredJournalEntry>()),
+        memories: createMemoryRepository(createTable<Memory>()),
+        reminders: createReminderRepository(createTable<Reminder>()),
+        conversationSummaries: createConversationSummaryRepository(createTable<StoredSummary>()),
+    };
+}
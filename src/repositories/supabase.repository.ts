@@ -0,0 +1,704 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { sortOrder } from '../models/task.model';
+import {
+    ConversationSummary,
+    HybridMatchRow,
+    ConversationSummaryRepository,
+    EmbeddingStore,
+    JournalEntry,
+    JournalRepository,
+    MatchJournalRow,
+    MatchMemoriesRow,
+    MatchSummaryRow,
+    MemoryMessage,
+    MemoryRecord,
+    MemoryRepository,
+    Reminder,
+    ReminderRepository,
+    Repositories,
+    StaleEmbedding,
+    Task,
+    TaskQuery,
+    TaskRepository,
+} from './types';
+
+// Characters with a meaning in PostgREST filters or LIKE patterns
+function toLikePattern(search: string): string {
+    return `%${search.replace(/[%_*,()"\\]/g, ' ').trim()}%`;
+}
+
+function createTaskRepository(client: SupabaseClient): TaskRepository {
+    return {
+        async list(userId, query?: TaskQuery) {
+            let request = client.from('tasks').select('*').eq('user_id', userId);
+
+            if (query?.status) request = request.in('status', query.status);
+            if (query?.priority) request = request.in('priority', query.priority);
+            if (query?.tag) request = request.contains('tags', [query.tag]);
+            if (query?.due_from) request = request.gte('due_date', query.due_from);
+            if (query?.due_to) request = request.lte('due_date', query.due_to);
+            if (query?.search) {
+                const pattern = toLikePattern(query.search);
+                request = request.or(`content.ilike.${pattern},description.ilike.${pattern}`);
+            }
+
+            const ascending = query ? sortOrder(query) === 'asc' : false;
+            switch (query?.sort) {
+                case 'due_date':
+                    request = request
+                        .order('due_date', { ascending, nullsFirst: false })
+                        .order('due_time', { ascending, nullsFirst: false });
+                    break;
+                case 'priority':
+                    // priority_rank is generated from priority (migration 0002)
+                    request = request
+                        .order('priority_rank', { ascending })
+                        .order('due_date', { ascending: true, nullsFirst: false })
+                        .order('due_time', { ascending: true, nullsFirst: false });
+                    break;
+            }
+            request = request
+                .order('created_at', { ascending: query?.sort === 'created_at' && ascending })
+                .order('id', { ascending: query?.sort === 'created_at' && ascending });
+            if (query?.limit) request = request.limit(query.limit);
+
+            const { data, error } = await request;
+            if (error) throw new Error(`Failed to list tasks: ${error.message}`);
+            return data as Task[];
+        },
+
+        async get(userId, id) {
+            const { data, error } = await client
+                .from('tasks')
+                .select('*')
+                .eq('user_id', userId)
+                .eq('id', id)
+                .maybeSingle();
+
+            if (error) throw new Error(`Failed to get task: ${error.message}`);
+            return (data as Task) ?? null;
+        },
+
+        async create(userId, fields) {
+            const { data, error } = await client
+                .from('tasks')
+                .insert([{ ...fields, user_id: userId }])
+                .select()
+                .single();
+
+            if (error) throw new Error(`Failed to add task: ${error.message}`);
+            return data as Task;
+        },
+
+        async update(userId, id, fields) {
+            const { data, error } = await client
+                .from('tasks')
+                .update(fields)
+                .eq('user_id', userId)
+                .eq('id', id)
+                .select()
+                .maybeSingle();
+
+            if (error) throw new Error(`Failed to update task: ${error.message}`);
+            return (data as Task) ?? null;
+        },
+
+        async delete(userId, id) {
+            const { error } = await client
+                .from('tasks')
+                .delete()
+                .eq('user_id', userId)
+                .eq('id', id);
+
+            if (error) throw new Error(`Failed to delete task: ${error.message}`);
+        },
+
+        async dueForReminder(before, limit) {
+            const { data, error } = await client
+                .from('tasks')
+                .select('*')
+                .lte('remind_at', before)
+                .neq('status', 'completed')
+                .order('remind_at', { ascending: true })
+                .limit(limit);
+
+            if (error) throw new Error(`Failed to load due reminders: ${error.message}`);
+            return data as Task[];
+        },
+
+        async clearReminder(task) {
+            // Matching on remind_at leaves a reminder set by a concurrent reschedule alone
+            const { error } = await client
+                .from('tasks')
+                .update({ remind_at: null })
+                .eq('user_id', task.user_id)
+                .eq('id', task.id)
+                .eq('remind_at', task.remind_at);
+            if (error) throw new Error(`Failed to clear reminder: ${error.message}`);
+        },
+
+        async activity(userId, range, limit, offset = 0) {
+            const { from, to } = range;
+            const { data, error } = await client
+                .from('tasks')
+                .select('*')
+                .eq('user_id', userId)
+                .or(
+                    `and(created_at.gte.${from},created_at.lt.${to}),` +
+                        `and(completed_at.gte.${from},completed_at.lt.${to})`
+                )
+                .order('created_at', { ascending: false })
+                .order('id', { ascending: false })
+                .range(offset, offset + limit - 1);
+
+            if (error) throw new Error(`Failed to load task activity: ${error.message}`);
+            return data as Task[];
+        },
+    };
+}
+
+/**
+ * Re-embedding access to a table with content, embedding and embedding_version columns;
+ * versionsRpc counts its rows per version, "none" for rows without a vector
+ */
+function createEmbeddingStore(
+    client: SupabaseClient,
+    table: string,
+    versionsRpc: string
+): EmbeddingStore {
+    return {
+        async staleEmbeddings(version, limit) {
+            const { data, error } = await client
+                .from(table)
+                .select('id, user_id, content, embedding_version')
+                .or(`embedding_version.is.null,embedding_version.neq."${version}"`)
+                .order('id', { ascending: true })
+                .limit(limit);
+
+            if (error) throw new Error(`Failed to load stale embeddings: ${error.message}`);
+            return data as StaleEmbedding[];
+        },
+
+        async setEmbeddings(updates, version) {
+            for (const { id, embedding } of updates) {
+                const { error } = await client
+                    .from(table)
+                    .update({ embedding, embedding_version: version })
+                    .eq('id', id);
+
+                if (error) throw new Error(`Failed to store embedding: ${error.message}`);
+            }
+        },
+
+        async embeddingVersions() {
+            const { data, error } = await client.rpc(versionsRpc);
+
+            if (error) throw new Error(`${versionsRpc} RPC failed: ${error.message}`);
+            return Object.fromEntries(
+                ((data as { embedding_version: string; count: number }[]) ?? []).map(row => [
+                    row.embedding_version,
+                    Number(row.count),
+                ])
+            );
+        },
+    };
+}
+
+// Every column except the embedding
+const JOURNAL_COLUMNS = 'id, user_id, content, created_at, updated_at';
+
+function createJournalRepository(client: SupabaseClient): JournalRepository {
+    return {
+        async create(userId, fields) {
+            const { data, error } = await client
+                .from('journal_entries')
+                .insert([{ user_id: userId, ...fields }])
+                .select(JOURNAL_COLUMNS)
+                .single();
+
+            if (error) throw new Error(`Failed to add journal entry: ${error.message}`);
+            return data as JournalEntry;
+        },
+
+        async get(userId, id) {
+            const { data, error } = await client
+                .from('journal_entries')
+                .select(JOURNAL_COLUMNS)
+                .eq('user_id', userId)
+                .eq('id', id)
+                .maybeSingle();
+
+            if (error) throw new Error(`Failed to get journal entry: ${error.message}`);
+            return (data as JournalEntry) ?? null;
+        },
+
+        async update(userId, id, fields) {
+            const { data, error } = await client
+                .from('journal_entries')
+                .update(fields)
+                .eq('user_id', userId)
+                .eq('id', id)
+                .select(JOURNAL_COLUMNS)
+                .maybeSingle();
+
+            if (error) throw new Error(`Failed to update journal entry: ${error.message}`);
+            return (data as JournalEntry) ?? null;
+        },
+
+        async delete(userId, id) {
+            const { error } = await client
+                .from('journal_entries')
+                .delete()
+                .eq('user_id', userId)
+                .eq('id', id);
+
+            if (error) throw new Error(`Failed to delete journal entry: ${error.message}`);
+        },
+
+        async list(userId, query) {
+            let request = client
+                .from('journal_entries')
+                .select(JOURNAL_COLUMNS)
+                .eq('user_id', userId);
+
+            if (query.from) request = request.gte('created_at', query.from);
+            if (query.to) request = request.lt('created_at', query.to);
+            if (query.search) {
+                request = request.textSearch('content', query.search, {
+                    type: 'websearch',
+                    config: 'english',
+                });
+            }
+            if (query.before) {
+                const { created_at, id } = query.before;
+                request = request.or(
+                    `created_at.lt.${created_at},and(created_at.eq.${created_at},id.lt.${id})`
+                );
+            }
+
+            const { data, error } = await request
+                .order('created_at', { ascending: false })
+                .order('id', { ascending: false })
+                .limit(query.limit);
+
+            if (error) throw new Error(`Failed to list journal entries: ${error.message}`);
+            return data as JournalEntry[];
+        },
+
+        async match(userId, query) {
+            // SQL: match_journal_entries(query_embedding, match_threshold, match_count,
+            //      target_user_id, from_time, to_time, target_version)
+            const { data, error } = await client.rpc('match_journal_entries', {
+                query_embedding: query.embedding,
+                match_threshold: query.threshold,
+                match_count: query.count,
+                target_user_id: userId,
+                from_time: query.from ?? null,
+                to_time: query.to ?? null,
+                target_version: query.version ?? null,
+            });
+
+            if (error) throw new Error(`match_journal_entries RPC failed: ${error.message}`);
+            return (data as MatchJournalRow[]) ?? [];
+        },
+
+        // SQL: journal_embedding_versions() counts rows per embedding_version
+        ...createEmbeddingStore(client, 'journal_entries', 'journal_embedding_versions'),
+    };
+}
+
+// Postgres unique_violation: the (task_id, remind_at) reminder already exists
+const UNIQUE_VIOLATION = '23505';
+
+function createReminderRepository(client: SupabaseClient): ReminderRepository {
+    return {
+        async claim(task, channel, lockedUntil) {
+            const { data, error } = await client
+                .from('reminders')
+                .insert([
+                    {
+                        user_id: task.user_id,
+                        task_id: task.id,
+                        content: task.content,
+                        due_date: task.due_date,
+                        due_time: task.due_time,
+                        remind_at: task.remind_at,
+                        channel,
+                        attempts: 1,
+                        locked_until: lockedUntil,
+                    },
+                ])
+                .select()
+                .single();
+
+            if (error?.code === UNIQUE_VIOLATION) return null;
+            if (error) throw new Error(`Failed to record reminder: ${error.message}`);
+            return data as Reminder;
+        },
+
+        async markDelivered(id) {
+            // SQL: mark_reminder_delivered(reminder_id)
+            const { error } = await client.rpc('mark_reminder_delivered', { reminder_id: id });
+            if (error) throw new Error(`Failed to mark reminder delivered: ${error.message}`);
+        },
+
+        async markFailed(id, message) {
+            // SQL: mark_reminder_failed(reminder_id, error_message)
+            const { error } = await client.rpc('mark_reminder_failed', {
+                reminder_id: id,
+                error_message: message,
+            });
+            if (error) throw new Error(`Failed to mark reminder failed: ${error.message}`);
+        },
+
+        async leaseUndelivered(before, lockedUntil, maxAttempts, limit) {
+            // SQL: lease_reminders(...) selects and leases in one statement, skipping rows
+            // another process is leasing
+            const { data, error } = await client.rpc('lease_reminders', {
+                lease_before: before,
+                lease_until: lockedUntil,
+                max_attempts: maxAttempts,
+                lease_limit: limit,
+            });
+
+            if (error) throw new Error(`Failed to lease undelivered reminders: ${error.message}`);
+            return data as Reminder[];
+        },
+
+        async list(userId, options) {
+            let request = client.from('reminders').select('*').eq('user_id', userId);
+            if (options.unreadOnly) request = request.is('read_at', null);
+
+            const { data, error } = await request
+                .order('remind_at', { ascending: false })
+                .order('id', { ascending: false })
+                .limit(options.limit);
+
+            if (error) throw new Error(`Failed to list reminders: ${error.message}`);
+            return data as Reminder[];
+        },
+
+        async markRead(userId, id) {
+            // Keep the first read time when a reminder is acknowledged twice
+            const { error: updateError } = await client
+                .from('reminders')
+                .update({ read_at: new Date().toISOString() })
+                .eq('user_id', userId)
+                .eq('id', id)
+                .is('read_at', null);
+            if (updateError)
+                throw new Error(`Failed to mark reminder read: ${updateError.message}`);
+
+            const { data, error } = await client
+                .from('reminders')
+                .select('*')
+                .eq('user_id', userId)
+                .eq('id', id)
+                .maybeSingle();
+
+            if (error) throw new Error(`Failed to mark reminder read: ${error.message}`);
+            return (data as Reminder) ?? null;
+        },
+    };
+}
+
+// Every column except the embedding
+const MEMORY_COLUMNS =
+    'id, user_id, content, role, embedding_version, summary_id, pinned, created_at, updated_at';
+
+function createMemoryRepository(client: SupabaseClient): MemoryRepository {
+    return {
+        async insert(userId, content, role, embedding, embeddingVersion) {
+            const { data, error } = await client
+                .from('memories')
+                .insert([
+                    {
+                        user_id: userId,
+                        content,
+                        role,
+                        embedding, // pgvector serialized from number[]
+                        embedding_version: embeddingVersion,
+                    },
+                ])
+                .select('id')
+                .single();
+
+            if (error) throw new Error(`Failed to insert memory: ${error.message}`);
+            return { id: (data as { id: number }).id };
+        },
+
+        async insertMany(memories) {
+            if (!memories.length) return [];
+            const { data, error } = await client.from('memories').insert(memories).select('id');
+
+            if (error) throw new Error(`Failed to insert memories: ${error.message}`);
+            // PostgREST returns inserted rows in request order
+            return (data as { id: number }[]).map(row => ({ id: row.id }));
+        },
+
+        async recent(userId, limit, range) {
+            let request = client
+                .from('memories')
+                .select('id, content, role, created_at')
+                .eq('user_id', userId);
+            if (range) {
+                request = request.gte('created_at', range.from).lt('created_at', range.to);
+            }
+
+            const { data, error } = await request
+                .order('created_at', { ascending: false })
+                .limit(limit);
+
+            if (error) throw new Error(`Failed to load messages: ${error.message}`);
+            return data as MemoryMessage[];
+        },
+
+        async match(userId, query) {
+            // SQL: match_memories(query_embedding, match_threshold, match_count, target_user_id,
+            //      target_version)
+            const { data, error } = await client.rpc('match_memories', {
+                query_embedding: query.embedding,
+                match_threshold: query.threshold,
+                match_count: query.count,
+                target_user_id: userId,
+                target_version: query.version ?? null,
+            });
+
+            if (error) throw new Error(`match_memories RPC failed: ${error.message}`);
+            return (data as MatchMemoriesRow[]) ?? [];
+        },
+
+        async hybridMatch(userId, query) {
+            // SQL: hybrid_match_memories(query_embedding, query_text, match_threshold,
+            //      match_count, target_user_id, filter_role, from_time, to_time,
+            //      filter_summary_id, rrf_k, vector_weight, text_weight, recency_weight,
+            //      recency_half_life_days, target_version)
+            const { ranking } = query;
+            const { data, error } = await client.rpc('hybrid_match_memories', {
+                query_embedding: query.embedding,
+                query_text: query.text,
+                match_threshold: query.threshold,
+                match_count: query.count,
+                target_user_id: userId,
+                filter_role: query.role ?? null,
+                from_time: query.from ?? null,
+                to_time: query.to ?? null,
+                filter_summary_id: query.summaryId ?? null,
+                rrf_k: ranking.rrfK,
+                vector_weight: ranking.vectorWeight,
+                text_weight: ranking.textWeight,
+                recency_weight: ranking.recencyWeight,
+                recency_half_life_days: ranking.recencyHalfLifeDays,
+                target_version: query.version ?? null,
+            });
+
+            if (error) throw new Error(`hybrid_match_memories RPC failed: ${error.message}`);
+            return (data as HybridMatchRow[]) ?? [];
+        },
+
+        async unsummarized(userId, before, limit) {
+            const { data, error } = await client
+                .from('memories')
+                .select('id, content, role, created_at')
+                .eq('user_id', userId)
+                .is('summary_id', null)
+                .lt('created_at', before)
+                .order('created_at', { ascending: true })
+                .order('id', { ascending: true })
+                .limit(limit);
+
+            if (error) throw new Error(`Failed to load unsummarized messages: ${error.message}`);
+            return data as MemoryMessage[];
+        },
+
+        async pendingSummaryUsers(before, minMessages, limit) {
+            // SQL: pending_summary_users(before_time, min_messages, max_users)
+            const { data, error } = await client.rpc('pending_summary_users', {
+                before_time: before,
+                min_messages: minMessages,
+                max_users: limit,
+            });
+
+            if (error) throw new Error(`pending_summary_users RPC failed: ${error.message}`);
+            return ((data as { user_id: string }[]) ?? []).map(row => row.user_id);
+        },
+
+        async markSummarized(userId, ids, summaryId) {
+            const { error } = await client
+                .from('memories')
+                .update({ summary_id: summaryId })
+                .eq('user_id', userId)
+                .in('id', ids);
+
+            if (error) throw new Error(`Failed to mark messages summarized: ${error.message}`);
+        },
+
+        async deleteMany(userId, ids) {
+            const { error } = await client
+                .from('memories')
+                .delete()
+                .eq('user_id', userId)
+                .in('id', ids)
+                .eq('pinned', false);
+
+            if (error) throw new Error(`Failed to delete messages: ${error.message}`);
+        },
+
+        async list(userId, query) {
+            let request = client.from('memories').select(MEMORY_COLUMNS).eq('user_id', userId);
+
+            if (query.role) request = request.eq('role', query.role);
+            if (query.pinned !== undefined) request = request.eq('pinned', query.pinned);
+            if (query.from) request = request.gte('created_at', query.from);
+            if (query.to) request = request.lt('created_at', query.to);
+            if (query.before) {
+                const { created_at, id } = query.before;
+                request = request.or(
+                    `created_at.lt.${created_at},and(created_at.eq.${created_at},id.lt.${id})`
+                );
+            }
+
+            const { data, error } = await request
+                .order('created_at', { ascending: false })
+                .order('id', { ascending: false })
+                .limit(query.limit);
+
+            if (error) throw new Error(`Failed to list memories: ${error.message}`);
+            return data as MemoryRecord[];
+        },
+
+        async get(userId, id) {
+            const { data, error } = await client
+                .from('memories')
+                .select(MEMORY_COLUMNS)
+                .eq('user_id', userId)
+                .eq('id', id)
+                .maybeSingle();
+
+            if (error) throw new Error(`Failed to load memory: ${error.message}`);
+            return (data as MemoryRecord) ?? null;
+        },
+
+        async update(userId, id, fields) {
+            const { data, error } = await client
+                .from('memories')
+                .update(fields) // updated_at is set by trigger
+                .eq('user_id', userId)
+                .eq('id', id)
+                .select(MEMORY_COLUMNS)
+                .maybeSingle();
+
+            if (error) throw new Error(`Failed to update memory: ${error.message}`);
+            return (data as MemoryRecord) ?? null;
+        },
+
+        async delete(userId, id) {
+            const { data, error } = await client
+                .from('memories')
+                .delete()
+                .eq('user_id', userId)
+                .eq('id', id)
+                .select('id');
+
+            if (error) throw new Error(`Failed to delete memory: ${error.message}`);
+            return (data ?? []).length > 0;
+        },
+
+        async deleteRange(userId, query) {
+            let request = client.from('memories').delete().eq('user_id', userId);
+
+            if (query.role) request = request.eq('role', query.role);
+            if (query.from) request = request.gte('created_at', query.from);
+            if (query.to) request = request.lt('created_at', query.to);
+            if (!query.includePinned) request = request.eq('pinned', false);
+
+            const { data, error } = await request.select('id');
+
+            if (error) throw new Error(`Failed to purge memories: ${error.message}`);
+            return (data ?? []).length;
+        },
+
+        async pinned(userId, limit) {
+            const { data, error } = await client
+                .from('memories')
+                .select('id, content, role, created_at')
+                .eq('user_id', userId)
+                .eq('pinned', true)
+                .order('created_at', { ascending: false })
+                .limit(limit);
+
+            if (error) throw new Error(`Failed to load pinned memories: ${error.message}`);
+            return data as MemoryMessage[];
+        },
+
+        // SQL: memory_embedding_versions() counts rows per embedding_version
+        ...createEmbeddingStore(client, 'memories', 'memory_embedding_versions'),
+    };
+}
+
+// Every column except the embedding
+const SUMMARY_COLUMNS =
+    'id, user_id, content, topics, memory_ids, message_count, period_start, period_end, created_at';
+
+function createConversationSummaryRepository(
+    client: SupabaseClient
+): ConversationSummaryRepository {
+    return {
+        async create(userId, fields) {
+            const { data, error } = await client
+                .from('conversation_summaries')
+                .insert([{ user_id: userId, ...fields }])
+                .select(SUMMARY_COLUMNS)
+                .single();
+
+            if (error) throw new Error(`Failed to add conversation summary: ${error.message}`);
+            return data as ConversationSummary;
+        },
+
+        async list(userId, { range, limit }) {
+            let request = client
+                .from('conversation_summaries')
+                .select(SUMMARY_COLUMNS)
+                .eq('user_id', userId);
+            if (range) {
+                request = request.gte('period_end', range.from).lt('period_start', range.to);
+            }
+
+            const { data, error } = await request
+                .order('period_end', { ascending: false })
+                .order('id', { ascending: false })
+                .limit(limit);
+
+            if (error) throw new Error(`Failed to load conversation summaries: ${error.message}`);
+            return data as ConversationSummary[];
+        },
+
+        async match(userId, query) {
+            // SQL: match_conversation_summaries(query_embedding, match_threshold, match_count,
+            //      target_user_id, target_version)
+            const { data, error } = await client.rpc('match_conversation_summaries', {
+                query_embedding: query.embedding,
+                match_threshold: query.threshold,
+                match_count: query.count,
+                target_user_id: userId,
+                target_version: query.version ?? null,
+            });
+
+            if (error) throw new Error(`match_conversation_summaries RPC failed: ${error.message}`);
+            return (data as MatchSummaryRow[]) ?? [];
+        },
+
+        // SQL: summary_embedding_versions() counts rows per embedding_version
+        ...createEmbeddingStore(client, 'conversation_summaries', 'summary_embedding_versions'),
+    };
+}
+
+export function createSupabaseRepositories(client: SupabaseClient): Repositories {
+    return {
+        tasks: createTaskRepository(client),
+        journal: createJournalRepository(client),
+        memories: createMemoryRepository(client),
+        reminders: createReminderRepository(client),
+        conversationSummaries: createConversationSummaryRepository(client),
+    };
+}
@@ -0,0 +1,335 @@
+import { Task, TaskFields, TaskQuery } from '../models/task.model';
+import type { HybridRanking } from '../utils/ranking';
+
+export type { Task, TaskFields, TaskQuery };
+
+export type MemoryRole = 'user' | 'ai';
+
+/** A window of instants: from inclusive, to exclusive (ISO datetimes) */
+export interface TimeRange {
+    from: string;
+    to: string;
+}
+
+export interface JournalEntry {
+    id: number;
+    user_id: string;
+    content: string;
+    created_at: string;
+    updated_at: string;
+}
+
+/**
+ * Columns written for an entry. The embedding backs semantic search and is never returned;
+ * it is null when the embedding provider was unavailable at write time.
+ */
+export interface JournalFields {
+    content: string;
+    embedding: number[] | null;
+    /** The version the embedding came from, null without one */
+    embedding_version: string | null;
+}
+
+export type MatchJournalRow = JournalEntry & {
+    similarity: number; // 0..1, higher is better
+};
+
+export interface JournalListQuery {
+    /** Inclusive lower bound on created_at (ISO datetime) */
+    from?: string;
+    /** Exclusive upper bound on created_at (ISO datetime) */
+    to?: string;
+    /** Every word must appear in the entry */
+    search?: string;
+    /** Keyset cursor: only entries older than this one */
+    before?: { created_at: string; id: number };
+    limit: number;
+}
+
+export interface JournalMatchQuery {
+    embedding: number[];
+    threshold: number;
+    count: number;
+    from?: string;
+    to?: string;
+    /** Only compare vectors of this embedding version */
+    version?: string;
+}
+
+export interface Memory {
+    id: number;
+    user_id: string;
+    content: string;
+    role: MemoryRole;
+    embedding: number[];
+    /** The embedding model and size the vector came from, e.g. "nomic-embed-text@768" */
+    embedding_version: string;
+    /** The conversation summary this message was compacted into, if any */
+    summary_id: number | null;
+    /** Pinned memories are always included in retrieval and survive compaction pruning */
+    pinned: boolean;
+    created_at: string;
+    updated_at: string;
+}
+
+/** A memory written later than it was said, keeping its original time */
+export type NewMemory = Pick<
+    Memory,
+    'user_id' | 'content' | 'role' | 'embedding' | 'embedding_version' | 'created_at'
+>;
+
+/** A memory as returned by the management API: everything but the embedding */
+export type MemoryRecord = Omit<Memory, 'embedding'>;
+
+export interface MemoryListQuery {
+    role?: MemoryRole;
+    /** Inclusive lower bound on created_at (ISO datetime) */
+    from?: string;
+    /** Exclusive upper bound on created_at (ISO datetime) */
+    to?: string;
+    pinned?: boolean;
+    /** Keyset cursor: only memories older than this one */
+    before?: { created_at: string; id: number };
+    limit: number;
+}
+
+export interface MemoryPurgeQuery {
+    role?: MemoryRole;
+    from?: string;
+    to?: string;
+    /** Pinned memories are kept unless this is set */
+    includePinned?: boolean;
+}
+
+export interface MemoryUpdateFields {
+    content?: string;
+    embedding?: number[];
+    embedding_version?: string;
+    pinned?: boolean;
+}
+
+/** A row whose vector is from another embedding version, or that has no vector yet */
+export interface StaleEmbedding {
+    id: number;
+    user_id: string;
+    content: string;
+    embedding_version: string | null;
+}
+
+/**
+ * Rows with embedded content, as seen by the re-embedding job: across all users, lowest id
+ * first. Rows without a vector count as version "none".
+ */
+export interface EmbeddingStore {
+    staleEmbeddings(version: string, limit: number): Promise<StaleEmbedding[]>;
+    setEmbeddings(updates: { id: number; embedding: number[] }[], version: string): Promise<void>;
+    /** Number of rows per embedding version */
+    embeddingVersions(): Promise<Record<string, number>>;
+}
+
+/**
+ * A compacted stretch of conversation: the summary of consecutive messages, their ids and
+ * the time they span. Summaries stand in for the raw messages in analysis and prompts.
+ */
+export interface ConversationSummary {
+    id: number;
+    user_id: string;
+    content: string;
+    topics: string[];
+    memory_ids: number[];
+    message_count: number;
+    period_start: string;
+    period_end: string;
+    created_at: string;
+}
+
+export type ConversationSummaryFields = Omit<
+    ConversationSummary,
+    'id' | 'user_id' | 'created_at'
+> & {
+    embedding: number[] | null;
+    embedding_version: string | null;
+};
+
+export type MatchSummaryRow = ConversationSummary & {
+    similarity: number; // 0..1, higher is better
+};
+
+/**
+ * A fired reminder. One row per task and remind_at, so the same reminder is never recorded
+ * (or delivered) twice; rows are also the inbox clients poll.
+ */
+export interface Reminder {
+    id: number;
+    user_id: string;
+    task_id: number | null;
+    content: string;
+    due_date: string | null;
+    due_time: string | null;
+    remind_at: string;
+    channel: string;
+    /** Delivery attempts, counted when the reminder is leased */
+    attempts: number;
+    last_error: string | null;
+    /** Until when the process delivering it holds the reminder */
+    locked_until: string | null;
+    delivered_at: string | null;
+    read_at: string | null;
+    created_at: string;
+}
+
+export interface ReminderListOptions {
+    unreadOnly?: boolean;
+    limit: number;
+}
+
+export type MemoryMessage = Pick<Memory, 'id' | 'content' | 'role' | 'created_at'>;
+
+export type MatchMemoriesRow = Memory & {
+    similarity: number; // 0..1, higher is better
+};
+
+export interface MatchMemoriesQuery {
+    embedding: number[];
+    threshold: number;
+    count: number;
+    /** Only compare vectors of this embedding version */
+    version?: string;
+}
+
+export interface MemoryFilters {
+    role?: MemoryRole;
+    /** Inclusive lower bound on created_at (ISO datetime) */
+    from?: string;
+    /** Exclusive upper bound on created_at (ISO datetime) */
+    to?: string;
+    /** Only messages compacted into this conversation summary */
+    summaryId?: number;
+}
+
+/**
+ * Vector similarity (at least threshold) and full-text matches on the text, fused by rank
+ * and weighted toward recent messages
+ */
+export interface HybridMatchQuery extends MatchMemoriesQuery, MemoryFilters {
+    text: string;
+    ranking: HybridRanking;
+}
+
+export type HybridMatchRow = MatchMemoriesRow & {
+    /** Full-text rank, 0 when no query word matched */
+    text_rank: number;
+    /** Fused score; only meaningful relative to the other rows */
+    score: number;
+};
+
+/**
+ * All task queries are scoped to a user; a task owned by someone else behaves as missing.
+ * list() without a query returns every task, newest first.
+ */
+export interface TaskRepository {
+    list(userId: string, query?: TaskQuery): Promise<Task[]>;
+    get(userId: string, id: number): Promise<Task | null>;
+    create(userId: string, fields: TaskFields): Promise<Task>;
+    update(userId: string, id: number, fields: Partial<TaskFields>): Promise<Task | null>;
+    delete(userId: string, id: number): Promise<void>;
+    /**
+     * Open tasks whose remind_at has passed, across all users (reminder scheduler only)
+     */
+    dueForReminder(before: string, limit: number): Promise<Task[]>;
+    /**
+     * Clear a fired reminder's remind_at, unless the task was rescheduled to another one since
+     */
+    clearReminder(task: Task): Promise<void>;
+    /** Tasks created or completed within the range, newest first, skipping the first offset */
+    activity(userId: string, range: TimeRange, limit: number, offset?: number): Promise<Task[]>;
+}
+
+export interface JournalRepository extends EmbeddingStore {
+    create(userId: string, fields: JournalFields): Promise<JournalEntry>;
+    get(userId: string, id: number): Promise<JournalEntry | null>;
+    update(userId: string, id: number, fields: JournalFields): Promise<JournalEntry | null>;
+    delete(userId: string, id: number): Promise<void>;
+    /** Newest first (created_at, then id) */
+    list(userId: string, query: JournalListQuery): Promise<JournalEntry[]>;
+    match(userId: string, query: JournalMatchQuery): Promise<MatchJournalRow[]>;
+}
+
+export interface ReminderRepository {
+    /**
+     * Record the reminder for a task's current remind_at, leased until lockedUntil as its
+     * first attempt. Returns null if it was already recorded, by this or another process.
+     */
+    claim(task: Task, channel: string, lockedUntil: string): Promise<Reminder | null>;
+    /** Mark delivered and release the lease */
+    markDelivered(id: number): Promise<void>;
+    /** Record the error and release the lease, so the next pass retries */
+    markFailed(id: number, error: string): Promise<void>;
+    /**
+     * Lease reminders not delivered yet whose lease ran out before `before`, oldest first:
+     * each gets an attempt counted and is held until lockedUntil, so no other process
+     * retries it meanwhile.
+     */
+    leaseUndelivered(
+        before: string,
+        lockedUntil: string,
+        maxAttempts: number,
+        limit: number
+    ): Promise<Reminder[]>;
+    list(userId: string, options: ReminderListOptions): Promise<Reminder[]>;
+    markRead(userId: string, id: number): Promise<Reminder | null>;
+}
+
+export interface MemoryRepository extends EmbeddingStore {
+    insert(
+        userId: string,
+        content: string,
+        role: MemoryRole,
+        embedding: number[],
+        embeddingVersion: string
+    ): Promise<{ id: number }>;
+    /** Insert several memories at once, across users; ids are returned in input order */
+    insertMany(memories: NewMemory[]): Promise<{ id: number }[]>;
+    /** Newest first, optionally only those created within the range */
+    recent(userId: string, limit: number, range?: TimeRange): Promise<MemoryMessage[]>;
+    match(userId: string, query: MatchMemoriesQuery): Promise<MatchMemoriesRow[]>;
+    /** Best fused score first */
+    hybridMatch(userId: string, query: HybridMatchQuery): Promise<HybridMatchRow[]>;
+    /** Messages not yet compacted and created before the given time, oldest first */
+    unsummarized(userId: string, before: string, limit: number): Promise<MemoryMessage[]>;
+    /**
+     * Users with at least minMessages messages created before the given time and not yet
+     * compacted, across all users (compactor only)
+     */
+    pendingSummaryUsers(before: string, minMessages: number, limit: number): Promise<string[]>;
+    markSummarized(userId: string, ids: number[], summaryId: number): Promise<void>;
+    /** Remove raw messages once they are covered by a summary; pinned ones are kept */
+    deleteMany(userId: string, ids: number[]): Promise<void>;
+    /** Newest first (created_at, then id) */
+    list(userId: string, query: MemoryListQuery): Promise<MemoryRecord[]>;
+    get(userId: string, id: number): Promise<MemoryRecord | null>;
+    update(userId: string, id: number, fields: MemoryUpdateFields): Promise<MemoryRecord | null>;
+    delete(userId: string, id: number): Promise<boolean>;
+    /** Delete every memory matching the query; returns how many were removed */
+    deleteRange(userId: string, query: MemoryPurgeQuery): Promise<number>;
+    /** Pinned memories, newest first */
+    pinned(userId: string, limit: number): Promise<MemoryMessage[]>;
+}
+
+export interface ConversationSummaryRepository extends EmbeddingStore {
+    create(userId: string, fields: ConversationSummaryFields): Promise<ConversationSummary>;
+    /** Newest first; a range keeps summaries that overlap it */
+    list(
+        userId: string,
+        options: { range?: TimeRange; limit: number }
+    ): Promise<ConversationSummary[]>;
+    match(userId: string, query: MatchMemoriesQuery): Promise<MatchSummaryRow[]>;
+}
+
+export interface Repositories {
+    tasks: TaskRepository;
+    journal: JournalRepository;
+    memories: MemoryRepository;
+    reminders: ReminderRepository;
+    conversationSummaries: ConversationSummaryRepository;
+}
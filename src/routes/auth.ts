@@ -1,15 +1,27 @@
-import { Router, Request, Response } from 'express';
-import { createClient } from '@supabase/supabase-js';
+import { Router, Request, Response, NextFunction } from 'express';
 import { supabase } from '../config/supabase';
+import { requireAuth } from '../middleware/auth';
+import { isValidTimeZone } from '../utils/datetime';
+import { logger } from '../utils/logger';
 
 const router = Router();
 
+// Signup, login and logout talk to Supabase Auth directly
+const requireAuthService = (req: Request, res: Response, next: NextFunction): void => {
+    if (!supabase) {
+        res.status(503).json({ error: 'Authentication service is not configured' });
+        return;
+    }
+    next();
+};
+
 // Types for request bodies
 interface SignupRequest {
     email: string;
     password: string;
     firstName?: string;
     lastName?: string;
+    timezone?: string;
 }
 
 interface LoginRequest {
@@ -18,10 +30,10 @@ interface LoginRequest {
 }
 
 // Signup endpoint
-router.post('/signup', async (req: Request, res: Response) => {
-    console.log('Received signup request:', req.body);
+router.post('/signup', requireAuthService, async (req: Request, res: Response) => {
+    logger.info('Received signup request:', req.body);
     try {
-        const { email, password, firstName, lastName }: SignupRequest = req.body;
+        const { email, password, firstName, lastName, timezone }: SignupRequest = req.body;
 
         // Validate required fields
         if (!email || !password) {
@@ -45,20 +57,27 @@ router.post('/signup', async (req: Request, res: Response) => {
             });
         }
 
+        if (timezone !== undefined && !isValidTimeZone(timezone)) {
+            return res.status(400).json({
+                error: 'Invalid timezone',
+            });
+        }
+
         // Sign up user with Supabase Auth
-        const { data, error } = await supabase.auth.signUp({
+        const { data, error } = await supabase!.auth.signUp({
             email,
             password,
             options: {
                 data: {
                     first_name: firstName,
                     last_name: lastName,
+                    timezone,
                 },
             },
         });
 
         if (error) {
-            console.error('Signup error:', error);
+            logger.error('Signup error:', error);
             return res.status(400).json({
                 error: error.message,
             });
@@ -99,7 +118,7 @@ router.post('/signup', async (req: Request, res: Response) => {
             error: 'Unexpected response from authentication service',
         });
     } catch (error) {
-        console.error('Signup error:', error);
+        logger.error('Signup error:', error);
         return res.status(500).json({
             error: 'Internal server error',
         });
@@ -107,7 +126,7 @@ router.post('/signup', async (req: Request, res: Response) => {
 });
 
 // Login endpoint
-router.post('/login', async (req: Request, res: Response) => {
+router.post('/login', requireAuthService, async (req: Request, res: Response) => {
     try {
         const { email, password }: LoginRequest = req.body;
 
@@ -119,13 +138,13 @@ router.post('/login', async (req: Request, res: Response) => {
         }
 
         // Sign in user with Supabase Auth
-        const { data, error } = await supabase.auth.signInWithPassword({
+        const { data, error } = await supabase!.auth.signInWithPassword({
             email,
             password,
         });
 
         if (error) {
-            console.error('Login error:', error);
+            logger.error('Login error:', error);
             return res.status(401).json({
                 error: 'Invalid email or password',
             });
@@ -153,7 +172,7 @@ router.post('/login', async (req: Request, res: Response) => {
             error: 'Unexpected response from authentication service',
         });
     } catch (error) {
-        console.error('Login error:', error);
+        logger.error('Login error:', error);
         return res.status(500).json({
             error: 'Internal server error',
         });
@@ -161,12 +180,12 @@ router.post('/login', async (req: Request, res: Response) => {
 });
 
 // Logout endpoint
-router.post('/logout', async (req: Request, res: Response) => {
+router.post('/logout', requireAuthService, async (req: Request, res: Response) => {
     try {
-        const { error } = await supabase.auth.signOut();
+        const { error } = await supabase!.auth.signOut();
 
         if (error) {
-            console.error('Logout error:', error);
+            logger.error('Logout error:', error);
             return res.status(500).json({
                 error: 'Error signing out',
             });
@@ -176,7 +195,7 @@ router.post('/logout', async (req: Request, res: Response) => {
             message: 'Logout successful',
         });
     } catch (error) {
-        console.error('Logout error:', error);
+        logger.error('Logout error:', error);
         return res.status(500).json({
             error: 'Internal server error',
         });
@@ -184,63 +203,10 @@ router.post('/logout', async (req: Request, res: Response) => {
 });
 
 // Get current user endpoint
-router.get('/me', async (req: Request, res: Response) => {
-    try {
-        const authHeader = req.headers.authorization;
-        if (!authHeader || !authHeader.startsWith('Bearer ')) {
-            return res.status(401).json({
-                error: 'Not authenticated',
-            });
-        }
-
-        const token = authHeader.substring(7);
-
-        const supabaseUrl = process.env.SUPABASE_URL!;
-        const supabaseAnonKey = process.env.SUPABASE_ANON_KEY!;
-
-        const supabaseWithToken = createClient(supabaseUrl, supabaseAnonKey, {
-            global: {
-                headers: {
-                    Authorization: `Bearer ${token}`,
-                },
-            },
-        });
-
-        const {
-            data: { user },
-            error,
-        } = await supabaseWithToken.auth.getUser();
-
-        if (error) {
-            console.error('Get user error:', error);
-            return res.status(401).json({
-                error: 'Not authenticated',
-            });
-        }
-
-        if (!user) {
-            return res.status(401).json({
-                error: 'Not authenticated',
-            });
-        }
-
-        return res.status(200).json({
-            user: {
-                id: user.id,
-                email: user.email,
-                email_confirmed: user.email_confirmed_at ? true : false,
-                first_name: user.user_metadata?.first_name,
-                last_name: user.user_metadata?.last_name,
-                created_at: user.created_at,
-                updated_at: user.updated_at,
-            },
-        });
-    } catch (error) {
-        console.error('Get user error:', error);
-        return res.status(500).json({
-            error: 'Internal server error',
-        });
-    }
+router.get('/me', requireAuth, (req: Request, res: Response) => {
+    res.status(200).json({
+        user: req.user,
+    });
 });
 
 export default router;
@@ -1,64 +1,131 @@
 import { Router, Request, Response } from 'express';
-import { authenticateUser, handleLoadMessage, handleMessage } from '../services/chat.service';
-import { storeMemory } from '../memory/memories';
+import { handleLoadMessage, handleMessage } from '../services/chat.service';
+import { rememberExchange } from '../memory/queue';
+import { requireAuth } from '../middleware/auth';
+import { ChatMode, CHAT_MODES } from '../config/agent';
+import { logger } from '../utils/logger';
 
 interface SendMessageRequest {
-    user_id: string;
     message: string;
+    /** pipeline (classify, then extract) or agent (tool calling); CHAT_MODE by default */
+    mode?: ChatMode;
+}
+
+const INVALID_MODE = `mode must be one of: ${CHAT_MODES.join(', ')}`;
+
+function isValidMode(mode: unknown): boolean {
+    return mode === undefined || CHAT_MODES.includes(mode as ChatMode);
 }
 
 const router = Router();
 
+// Store the user message and the reply in the vector DB, behind the response when queued
+async function storeExchange(userId: string, message: string, reply: string): Promise<void> {
+    try {
+        await rememberExchange(userId, message, reply);
+    } catch (storeError) {
+        logger.error('Failed to store message in vector DB:', storeError);
+    }
+}
+
+function sendEvent(res: Response, event: string, data: unknown): void {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
 // POST /send-message
-router.post('/send-message', async (req: Request, res: Response) => {
+router.post('/send-message', requireAuth, async (req: Request, res: Response) => {
     try {
-        const { user_id, message }: SendMessageRequest = req.body;
+        const { message, mode }: SendMessageRequest = req.body;
+        const userId = req.user!.id;
 
-        if (!user_id || !message) {
-            res.status(400).json({ error: 'user_id and message are required' });
+        if (!message) {
+            res.status(400).json({ error: 'message is required' });
             return;
         }
-
-        // Authenticate user and get profile
-        const { authenticated, profile } = await authenticateUser(user_id);
-        if (!authenticated) {
-            res.status(401).json({ error: 'Invalid user' });
+        if (!isValidMode(mode)) {
+            res.status(400).json({ error: INVALID_MODE });
             return;
         }
 
         // Handle message
-        const response = await handleMessage(user_id, message, profile);
-
-        // Store user message in vector DB
-        try {
-            await storeMemory(user_id, message, 'user');
-            await storeMemory(user_id, response.reply, 'ai');
-        } catch (storeError) {
-            console.error('Failed to store message in vector DB:', storeError);
-        }
+        const response = await handleMessage(userId, message, req.profile, undefined, mode);
+
+        await storeExchange(userId, message, response.reply);
 
         res.json(response);
         return;
     } catch (error) {
-        console.error('Error in /send-message:', error);
+        logger.error('Error in /send-message:', error);
         res.status(500).json({ error: 'Internal server error' });
         return;
     }
 });
 
-router.get('/load-message', async (req: Request, res: Response) => {
+// POST /send-message/stream - same as /send-message, streamed as Server-Sent Events:
+// "intent" once classified, "delta" per generated chunk, then "done" with the full response
+router.post('/send-message/stream', requireAuth, async (req: Request, res: Response) => {
+    const { message, mode }: SendMessageRequest = req.body;
+    const userId = req.user!.id;
+
+    if (!message) {
+        res.status(400).json({ error: 'message is required' });
+        return;
+    }
+    if (!isValidMode(mode)) {
+        res.status(400).json({ error: INVALID_MODE });
+        return;
+    }
+
+    // Stop generating as soon as the client goes away
+    const controller = new AbortController();
+    res.on('close', () => {
+        if (!res.writableEnded) controller.abort();
+    });
+
+    res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no',
+    });
+    res.flushHeaders();
+
     try {
-        const { user_id }: { user_id: string } = req.query as { user_id: string };
+        const response = await handleMessage(
+            userId,
+            message,
+            req.profile,
+            {
+                signal: controller.signal,
+                onIntent: intent => sendEvent(res, 'intent', { intent }),
+                onDelta: text => sendEvent(res, 'delta', { text }),
+            },
+            mode
+        );
+        if (controller.signal.aborted) return;
 
-        const response = await handleLoadMessage(user_id);
+        sendEvent(res, 'done', response);
+        res.end();
+
+        // Only completed exchanges are remembered
+        await storeExchange(userId, message, response.reply);
+    } catch (error) {
+        if (controller.signal.aborted) return;
+        logger.error('Error in /send-message/stream:', error);
+        sendEvent(res, 'error', { error: 'Internal server error' });
+        res.end();
+    }
+});
+
+router.get('/load-message', requireAuth, async (req: Request, res: Response) => {
+    try {
+        const response = await handleLoadMessage(req.user!.id);
 
         res.json(response);
     } catch (error) {
-        console.error('Error in /load-message:', error);
+        logger.error('Error in /load-message:', error);
         res.status(500).json({ error: 'Internal server error' });
     }
-
-    res.status(200).json({ message: 'Load message endpoint - to be implemented' });
 });
 
 export default router;
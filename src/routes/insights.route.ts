@@ -0,0 +1,11 @@
+import { Router } from 'express';
+import { getProductivityInsights } from '../controller/insights.controller';
+import { requireAuth } from '../middleware/auth';
+
+const router = Router();
+
+router.use(requireAuth);
+
+router.get('/', getProductivityInsights);
+
+export default router;
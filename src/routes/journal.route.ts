@@ -0,0 +1,23 @@
+import { Router } from 'express';
+import {
+    getEntries,
+    exportEntries,
+    getEntryById,
+    createEntry,
+    updateEntry,
+    deleteEntry,
+} from '../controller/journal.controller';
+import { requireAuth } from '../middleware/auth';
+
+const router = Router();
+
+router.use(requireAuth);
+
+router.get('/', getEntries);
+router.get('/export', exportEntries);
+router.get('/:id', getEntryById);
+router.post('/', createEntry);
+router.put('/:id', updateEntry);
+router.delete('/:id', deleteEntry);
+
+export default router;
@@ -0,0 +1,23 @@
+import { Router } from 'express';
+import {
+    getMemories,
+    searchMemories,
+    getMemoryById,
+    updateMemory,
+    deleteMemory,
+    purgeMemories,
+} from '../controller/memory.controller';
+import { requireAuth } from '../middleware/auth';
+
+const router = Router();
+
+router.use(requireAuth);
+
+router.get('/', getMemories);
+router.get('/search', searchMemories);
+router.delete('/', purgeMemories);
+router.get('/:id', getMemoryById);
+router.patch('/:id', updateMemory);
+router.delete('/:id', deleteMemory);
+
+export default router;
@@ -0,0 +1,12 @@
+import { Router } from 'express';
+import { getReminders, markReminderRead } from '../controller/reminder.controller';
+import { requireAuth } from '../middleware/auth';
+
+const router = Router();
+
+router.use(requireAuth);
+
+router.get('/', getReminders);
+router.post('/:id/read', markReminderRead);
+
+export default router;
@@ -0,0 +1,11 @@
+import { Router } from 'express';
+import { getSummary } from '../controller/summary.controller';
+import { requireAuth } from '../middleware/auth';
+
+const router = Router();
+
+router.use(requireAuth);
+
+router.get('/', getSummary);
+
+export default router;
@@ -6,9 +6,12 @@ import {
     updateTask,
     deleteTask,
 } from '../controller/task.controller';
+import { requireAuth } from '../middleware/auth';
 
 const router = Router();
 
+router.use(requireAuth);
+
 router.get('/', getTasks);
 router.get('/:id', getTaskById);
 router.post('/', createTask);
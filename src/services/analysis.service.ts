@@ -0,0 +1,156 @@
+import { z } from 'zod';
+import { generateText } from '../llm';
+import { searchConversationSummaries } from '../memory/memories';
+import { ConversationSummary, getRepositories, MemoryMessage, TimeRange } from '../repositories';
+import { resolveTimeZone } from '../utils/datetime';
+import { resolvePeriod } from './date.resolver';
+
+const ANALYSIS_SUMMARY_LIMIT = Number(process.env.ANALYSIS_SUMMARY_LIMIT) || 30;
+const ANALYSIS_RECENT_MESSAGES = 30;
+const TOP_TOPICS = 10;
+
+export interface AnalysisContext {
+    timeZone?: string;
+    now?: Date;
+}
+
+export interface AnalysisOptions {
+    /** "this month", "last week"...; all time when left out */
+    period?: string;
+    /** Narrow to summaries about this subject */
+    topic?: string;
+}
+
+export interface ConversationAnalysis {
+    answer: string;
+    period: { label: string; from: string; to: string } | null;
+    /** Topics by the number of summaries they come up in */
+    topics: { topic: string; count: number }[];
+    summary_ids: number[];
+    /** Recent messages not yet compacted into a summary */
+    memory_ids: number[];
+}
+
+function countTopics(summaries: ConversationSummary[]): ConversationAnalysis['topics'] {
+    const counts = new Map<string, number>();
+    for (const summary of summaries) {
+        for (const topic of summary.topics) {
+            counts.set(topic, (counts.get(topic) ?? 0) + 1);
+        }
+    }
+    return [...counts]
+        .map(([topic, count]) => ({ topic, count }))
+        .sort((a, b) => b.count - a.count || a.topic.localeCompare(b.topic))
+        .slice(0, TOP_TOPICS);
+}
+
+function overlaps(summary: ConversationSummary, range: TimeRange): boolean {
+    return (
+        Date.parse(summary.period_end) >= Date.parse(range.from) &&
+        Date.parse(summary.period_start) < Date.parse(range.to)
+    );
+}
+
+function describeRecords(
+    summaries: ConversationSummary[],
+    messages: MemoryMessage[],
+    topics: ConversationAnalysis['topics']
+): string {
+    const sections: string[] = [];
+    if (topics.length) {
+        sections.push(
+            `Topic counts (number of summaries):\n${topics.map(t => `- ${t.topic}: ${t.count}`).join('\n')}`
+        );
+    }
+    if (summaries.length) {
+        const lines = summaries.map(
+            s =>
+                `- [summary ${s.id}, ${s.period_start.slice(0, 10)} to ${s.period_end.slice(0, 10)}] ${s.content}`
+        );
+        sections.push(`Conversation summaries, oldest first:\n${lines.join('\n')}`);
+    }
+    if (messages.length) {
+        const lines = messages.map(
+            m =>
+                `- [${m.created_at.slice(0, 10)}] ${m.role === 'ai' ? 'assistant' : 'user'}: ${m.content}`
+        );
+        sections.push(`Latest messages, not yet summarized:\n${lines.join('\n')}`);
+    }
+    return sections.join('\n\n');
+}
+
+/**
+ * Answer a question about past conversations ("what have we talked about this month?",
+ * "what topics keep coming up?") from the conversation summaries, plus the messages newer
+ * than the latest summary. Topic counts are computed, not left to the model.
+ */
+export async function analyzeConversation(
+    userId: string,
+    question: string,
+    options: AnalysisOptions = {},
+    context: AnalysisContext = {}
+): Promise<ConversationAnalysis> {
+    const timeZone = resolveTimeZone(context.timeZone);
+    const period = options.period
+        ? resolvePeriod(options.period, { timeZone, now: context.now })
+        : null;
+    if (options.period && !period) {
+        throw new z.ZodError([
+            {
+                code: 'custom',
+                path: ['period'],
+                message: `Unrecognized period "${options.period}"`,
+            },
+        ]);
+    }
+    const range = period ? { from: period.start, to: period.end } : undefined;
+    const repositories = getRepositories();
+
+    let summaries: ConversationSummary[];
+    if (options.topic?.trim()) {
+        const matches = await searchConversationSummaries(userId, options.topic, {
+            matchCount: ANALYSIS_SUMMARY_LIMIT,
+        });
+        summaries = matches.filter(summary => !range || overlaps(summary, range));
+    } else {
+        summaries = await repositories.conversationSummaries.list(userId, {
+            range,
+            limit: ANALYSIS_SUMMARY_LIMIT,
+        });
+    }
+    summaries.sort((a, b) => a.period_start.localeCompare(b.period_start));
+
+    // Whatever was said after the latest summary has not been compacted yet
+    const latest = await repositories.conversationSummaries.list(userId, { limit: 1 });
+    const after = latest[0]?.period_end;
+    const recent = await repositories.memories.recent(userId, ANALYSIS_RECENT_MESSAGES, range);
+    const messages = recent
+        .filter(message => !after || Date.parse(message.created_at) > Date.parse(after))
+        .reverse();
+
+    const topics = countTopics(summaries);
+    const result = {
+        period: period && { label: period.label, from: period.from, to: period.to },
+        topics,
+        summary_ids: summaries.map(summary => summary.id),
+        memory_ids: messages.map(message => message.id),
+    };
+    if (!summaries.length && !messages.length) {
+        const about = options.topic?.trim() ? ` about ${options.topic.trim()}` : '';
+        const when = period ? ` ${period.label}` : '';
+        return { ...result, answer: `We haven't talked${about}${when} yet.` };
+    }
+
+    const answer = await generateText('chat', [
+        {
+            role: 'system',
+            content: `Answer the user's question about their past conversations with you, addressed to them as "you", using only the records below${period ? ` (period: ${period.label})` : ''}. Quote the topic counts as given rather than estimating, and do not invent anything that is not in the records. At most 150 words, plain text.`,
+        },
+        {
+            role: 'user',
+            content: `${describeRecords(summaries, messages, topics)}\n\nQuestion: ${question}`,
+        },
+    ]);
+
+    return { ...result, answer: answer.trim() || "Sorry, I couldn't analyse our conversations." };
+}
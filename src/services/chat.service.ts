@@ -1,301 +1,325 @@
-import ollama from 'ollama';
 import { z } from 'zod';
-import { zodToJsonSchema } from 'zod-to-json-schema';
-import { supabaseAdmin } from '../config/supabase';
-
-const INTENT_MODEL = process.env.OLLAMA_INTENT_MODEL || 'llama3.2:latest';
-const SMALLTALK_MODEL = process.env.OLLAMA_SMALLTALK_MODEL || 'llama3.2:latest';
-
-const INTENTS = {
-    ADD_TASK: 'add_task',
-    LIST_TASKS: 'list_tasks',
-    DELETE_TASK: 'delete_task',
-    REFLECT_JOURNAL: 'reflect_journal',
-    SMALLTALK: 'smalltalk',
-    SUMMARIES: 'summaries',
-    PERFORMANCE_INSIGHTS: 'performance_insights',
-    LONG_CONVERSATION_ANALYSIS: 'long_conversation_analysis',
-} as const;
-
-type Intent = (typeof INTENTS)[keyof typeof INTENTS];
-
-export interface SendMessageResponse {
-    reply: string;
-    optional_data?: any;
+import { UserProfile } from '../models/user.model';
+import { generateObject } from '../llm';
+import { getRepositories } from '../repositories';
+import {
+    clearPendingAction,
+    getPendingAction,
+    isCancellation,
+    parseConfirmation,
+    PendingAction,
+} from './conversation.service';
+import { resolveTaskChoice } from './task.resolver';
+import { AGENT_INTENT, runAgent, runConfirmedTools } from '../agent/agent';
+import { ChatMode, getAgentConfig } from '../config/agent';
+import { getClassifierConfig } from '../config/classifier';
+import { classifyLocally } from '../intents/classifier';
+import { resolveTimeZone } from '../utils/datetime';
+import { logger } from '../utils/logger';
+import {
+    getIntent,
+    Intent,
+    IntentClassification,
+    IntentContext,
+    IntentParams,
+    INTENTS,
+    listIntents,
+    MessageStream,
+    ResponseMetadata,
+    SendMessageResponse,
+} from '../intents';
+
+export type { Intent, MessageStream, SendMessageResponse };
+
+const SCHEMA_REMINDER = 'Your response MUST be a JSON object that adheres to the provided schema.';
+const COMPOUND_MAX_ACTIONS = Number(process.env.COMPOUND_MAX_ACTIONS) || 5;
+
+// Only messages with a joining word or separator are worth a splitting call
+const COMPOUND_HINT = /\b(and|then|also|plus)\b|[;\n]/i;
+
+export type ActionStatus = 'ok' | 'failed' | 'needs_input' | 'skipped';
+
+/** One sub-request of a compound message, as returned in optional_data.actions */
+export interface ActionResult {
+    request: string;
+    intent: Intent | null;
+    status: ActionStatus;
+    reply: string | null;
+    optional_data?: SendMessageResponse['optional_data'];
+    metadata?: ResponseMetadata;
 }
 
-interface Task {
-    id: number;
-    user_id: string;
-    content: string;
-    due_date?: string;
-    created_at: string;
-}
-
-interface UserProfile {
-    first_name?: string;
-    last_name?: string;
-    email?: string;
-}
-
-// Authenticate user and get profile
-export async function authenticateUser(
-    userId: string
-): Promise<{ authenticated: boolean; profile?: UserProfile }> {
-    try {
-        const { data, error } = await supabaseAdmin!.auth.admin.getUserById(userId);
-        if (error || !data.user) {
-            return { authenticated: false };
-        }
-        const profile: UserProfile = {
-            first_name: data.user.user_metadata?.first_name,
-            last_name: data.user.user_metadata?.last_name,
-            email: data.user.email,
-        };
-        return { authenticated: true, profile };
-    } catch {
-        return { authenticated: false };
-    }
-}
-
-// Detect intent using Ollama with Zod
+// Detect intent using the intent model with Zod; the choices come from the intent registry
 async function detectIntent(message: string): Promise<Intent> {
+    const intents = listIntents();
     const intentSchema = z.object({
-        intent: z.enum(Object.values(INTENTS) as [string, ...string[]]),
+        intent: z.enum(intents.map(intent => intent.name) as [string, ...string[]]),
     });
 
-    const schema = zodToJsonSchema(intentSchema);
+    const choices = intents.map(intent => `- ${intent.name}: ${intent.description}`).join('\n');
+    const systemContent = `Classify the following user message into one of these intents:\n${choices}\n${SCHEMA_REMINDER}`;
 
-    const systemContent = `Classify the following user message into one of these intents: ${Object.values(INTENTS).join(', ')}. Your response MUST be a JSON object that adheres to the provided schema.`;
-
-    const response = await ollama.chat({
-        model: INTENT_MODEL,
-        messages: [
+    const result = await generateObject(
+        'intent',
+        [
             { role: 'system', content: systemContent },
             { role: 'user', content: message },
         ],
-        format: schema as any,
-    });
+        intentSchema,
+        'intent detection'
+    );
 
-    const content = response.message.content;
-    if (!content) return INTENTS.SMALLTALK;
-
-    try {
-        const parsedContent = JSON.parse(content);
-        const validated = intentSchema.safeParse(parsedContent);
-        if (validated.success) {
-            return validated.data.intent as Intent;
-        } else {
-            console.error('Zod validation failed for intent detection:', validated.error);
-        }
-    } catch (error) {
-        console.error('Failed to parse JSON from Ollama for intent detection:', error);
-    }
-    return INTENTS.SMALLTALK; // default
+    return result?.intent ?? INTENTS.SMALLTALK; // default
 }
 
-// Extract parameters using Groq
-export async function extractParameters(
-    intent: Intent,
-    message: string
-): Promise<Record<string, any>> {
-    let zodSchema: z.ZodObject<any>;
-    let systemContent = '';
-
-    switch (intent) {
-        case INTENTS.ADD_TASK: {
-            zodSchema = z.object({
-                content: z.string(),
-                due_date: z.string().optional(),
-            });
-            systemContent =
-                'Extract the task content and optional due date from the message. Your response MUST be a JSON object that adheres to the provided schema.';
-            break;
-        }
-        case INTENTS.DELETE_TASK: {
-            zodSchema = z.object({
-                task_id: z.number(),
-            });
-            systemContent =
-                'Extract the task ID to delete from the message. Your response MUST be a JSON object that adheres to the provided schema.';
-            break;
-        }
-        case INTENTS.REFLECT_JOURNAL: {
-            zodSchema = z.object({
-                content: z.string(),
-            });
-            systemContent =
-                'Extract the journal content from the message. Your response MUST be a JSON object that adheres to the provided schema.';
-            break;
-        }
-        default:
-            return {};
-    }
-
-    const schema = zodToJsonSchema(zodSchema);
-
-    const response = await ollama.chat({
-        model: INTENT_MODEL,
-        messages: [
-            { role: 'system', content: systemContent },
-            { role: 'user', content: message },
-        ],
-        format: schema as any,
-    });
+// The fast path's guess (keyword rules, then labelled examples), or null when it is off
+async function classifyFast(message: string): Promise<IntentClassification | null> {
+    const config = getClassifierConfig();
+    return config.enabled ? classifyLocally(message, config.neighbours) : null;
+}
 
-    const content = response.message.content;
-    if (!content) return {};
-    try {
-        const parsedContent = JSON.parse(content);
-        const validated = zodSchema.safeParse(parsedContent);
-        if (validated.success) {
-            return validated.data;
-        } else {
-            console.error(
-                `Zod validation failed for ${intent} parameter extraction:`,
-                validated.error
-            );
-        }
-    } catch (error) {
-        console.error(
-            `Failed to parse JSON from Ollama for ${intent} parameter extraction:`,
-            error
-        );
-    }
-    return {};
+function isConfident({ confidence }: IntentClassification): boolean {
+    return confidence !== null && confidence >= getClassifierConfig().threshold;
 }
 
-// CRUD functions for tasks
-async function addTask(userId: string, content: string, dueDate?: string): Promise<{ id: number }> {
-    const { data, error } = await supabaseAdmin!
-        .from('tasks')
-        .insert([{ user_id: userId, content, due_date: dueDate }])
-        .select('id')
-        .single();
+// Settle on the fast path's guess if it is confident, otherwise ask the intent model
+async function confirmIntent(
+    message: string,
+    candidate: IntentClassification | null
+): Promise<ResponseMetadata> {
+    if (candidate && isConfident(candidate)) return candidate;
 
-    if (error) throw new Error(`Failed to add task: ${error.message}`);
-    return { id: data.id };
+    const intent = await detectIntent(message);
+    return { intent, path: 'llm', confidence: null, ...(candidate && { candidate }) };
 }
 
-async function listTasks(userId: string): Promise<Task[]> {
-    const { data, error } = await supabaseAdmin!
-        .from('tasks')
-        .select('*')
-        .eq('user_id', userId)
-        .order('created_at', { ascending: false });
-
-    if (error) throw new Error(`Failed to list tasks: ${error.message}`);
-    return data as Task[];
+/**
+ * Classify a message, trying the local fast path (keyword rules, then labelled examples)
+ * before the intent model, which is only asked below INTENT_FAST_PATH_THRESHOLD
+ */
+export async function classifyIntent(message: string): Promise<ResponseMetadata> {
+    return confirmIntent(message, await classifyFast(message));
 }
 
-async function deleteTask(userId: string, taskId: number): Promise<void> {
-    const { error } = await supabaseAdmin!
-        .from('tasks')
-        .delete()
-        .eq('user_id', userId)
-        .eq('id', taskId);
+// Extract parameters using the intent model and the intent's own schema
+export async function extractParameters(intent: Intent, message: string): Promise<IntentParams> {
+    const parameters = getIntent(intent)?.parameters;
+    if (!parameters) return {};
 
-    if (error) throw new Error(`Failed to delete task: ${error.message}`);
+    const params = await generateObject(
+        'intent',
+        [
+            { role: 'system', content: `${parameters.instructions} ${SCHEMA_REMINDER}` },
+            { role: 'user', content: message },
+        ],
+        parameters.schema,
+        `${intent} parameter extraction`
+    );
+
+    return params ?? {};
 }
 
-// Journal function
-async function reflectJournal(userId: string, content: string): Promise<{ id: number }> {
-    const { data, error } = await supabaseAdmin!
-        .from('journal_entries')
-        .insert([{ user_id: userId, content }])
-        .select('id')
-        .single();
+/**
+ * Split a message into its separate requests, in order. Single requests, and anything the
+ * model cannot split, come back as the original message alone.
+ */
+export async function splitMessage(message: string): Promise<string[]> {
+    if (!COMPOUND_HINT.test(message)) return [message];
+
+    const result = await generateObject(
+        'intent',
+        [
+            {
+                role: 'system',
+                content: `Split the user message into the separate requests it makes, in the order given. Each request must stand on its own: repeat shared words such as the verb or the date (e.g. "add buy milk and call mom tomorrow" becomes "add buy milk tomorrow" and "add call mom tomorrow"). Keep a single request whole, including one whose text contains "and" (e.g. "add buy bread and butter"). ${SCHEMA_REMINDER}`,
+            },
+            { role: 'user', content: message },
+        ],
+        z.object({ requests: z.array(z.string()) }),
+        'message splitting'
+    );
 
-    if (error) throw new Error(`Failed to add journal entry: ${error.message}`);
-    return { id: data.id };
+    const requests = (result?.requests ?? []).map(request => request.trim()).filter(Boolean);
+    return requests.length > 1 ? requests.slice(0, COMPOUND_MAX_ACTIONS) : [message];
 }
 
-// Generate AI reply for smalltalk
-async function generateSmalltalkReply(message: string, profile?: UserProfile): Promise<string> {
-    const userName = profile?.first_name ? ` ${profile.first_name}` : '';
-    const prompt = `Respond naturally and helpfully as a friendly AI assistant in very very less words ${userName ? ` to ${userName}` : ''}: "${message}"`;
+// Resume the action the assistant asked about, or return null if the message is not an answer
+async function continuePendingAction(
+    pending: PendingAction,
+    context: IntentContext
+): Promise<SendMessageResponse | null> {
+    const { userId, message } = context;
+    clearPendingAction(userId);
 
-    const response = await ollama.chat({
-        model: SMALLTALK_MODEL,
-        messages: [{ role: 'user', content: prompt }],
-    });
+    if (isCancellation(message)) {
+        return { reply: 'Okay, cancelled.' };
+    }
 
-    return response.message.content?.trim() || "Sorry, I couldn't generate a response.";
+    switch (pending.type) {
+        case 'fill_slot': {
+            // Anything is a valid slot value, except a message that is a request of its own
+            const { intent } = await classifyIntent(message);
+            if (intent !== pending.intent && intent !== INTENTS.SMALLTALK) return null;
+            const params = { ...pending.params, [pending.slot]: message.trim() };
+            return runIntent(pending.intent, params, context);
+        }
+        case 'choose_task': {
+            const task = await resolveTaskChoice(pending.candidates, message);
+            if (!task) return null;
+            const params = { ...pending.params, task_id: task.id };
+            return runIntent(pending.intent, params, context);
+        }
+        case 'confirm': {
+            const answer = parseConfirmation(message);
+            if (answer === 'no') {
+                return { reply: 'Okay, I left it as it is.' };
+            }
+            if (answer !== 'yes') return null;
+            const params = { ...pending.params, confirmed: true };
+            return runIntent(pending.intent, params, context);
+        }
+        case 'confirm_tools': {
+            const answer = parseConfirmation(message);
+            if (answer === 'no') {
+                return { reply: 'Okay, I left it as it is.' };
+            }
+            if (answer !== 'yes') return null;
+            return runConfirmedTools(pending.calls, context);
+        }
+    }
 }
 
-// Handle complex intents (placeholder)
-async function handleComplexIntent(
+async function runIntent(
     intent: Intent,
-    _userId: string,
-    _message: string
+    params: IntentParams,
+    context: IntentContext
 ): Promise<SendMessageResponse> {
-    // TODO: Forward to Python FastAPI microservice
-    return {
-        reply: `Feature for ${intent} is not implemented yet.`,
-        optional_data: null,
-    };
+    const definition = getIntent(intent);
+    if (!definition) {
+        return { reply: "Sorry, I can't continue that." };
+    }
+    return definition.handle(params, context);
 }
 
-// Main handler
+/**
+ * Main handler. The pipeline mode splits the message into its requests, then classifies
+ * each and extracts its parameters; the agent mode lets the model call tools itself. Pending questions are
+ * answered the same way in both.
+ */
 export async function handleMessage(
     userId: string,
     message: string,
-    profile?: UserProfile
+    profile?: UserProfile,
+    stream?: MessageStream,
+    mode: ChatMode = getAgentConfig().defaultMode
 ): Promise<SendMessageResponse> {
-    const intent = await detectIntent(message);
-    console.log(`Detected intent: ${intent}`);
+    const context: IntentContext = {
+        userId,
+        message,
+        timeZone: resolveTimeZone(profile?.timezone),
+        profile,
+        stream,
+    };
+    const pending = getPendingAction(userId);
+    if (pending) {
+        const response = await continuePendingAction(pending, context);
+        if (response) {
+            stream?.onIntent?.(pending.intent);
+            return {
+                ...response,
+                metadata: { intent: pending.intent, path: 'pending', confidence: 1 },
+            };
+        }
+    }
+
+    if (mode === 'agent') {
+        stream?.onIntent?.(AGENT_INTENT);
+        return runAgent(context);
+    }
+
+    // Messages the fast path is sure are a single request skip the splitting call
+    const candidate = await classifyFast(message);
+    const single =
+        candidate && isConfident(candidate) && getIntent(candidate.intent)?.singleRequest;
+    const requests = single ? [message] : await splitMessage(message);
+    if (requests.length > 1) {
+        return runCompound(requests, context);
+    }
+
+    const metadata = await confirmIntent(message, candidate);
+    const { intent } = metadata;
+    logger.info(`Detected intent: ${intent} (${metadata.path})`);
+    stream?.onIntent?.(intent);
     const params = await extractParameters(intent, message);
 
-    switch (intent) {
-        case INTENTS.ADD_TASK: {
-            const { content, due_date } = params;
-            const taskContent = content || message.replace(/add task/i, '').trim();
-            const { id } = await addTask(userId, taskContent, due_date);
-            const reply = `Task added: "${taskContent}"${due_date ? ` due ${due_date}` : ''}`;
-            return { reply, optional_data: { task_id: id } };
-        }
-        case INTENTS.LIST_TASKS: {
-            const tasks = await listTasks(userId);
-            const reply = tasks.length
-                ? `Here are your tasks:\n${tasks.map(t => `- ${t.content}${t.due_date ? ` (due ${t.due_date})` : ''}`).join('\n')}`
-                : 'You have no tasks.';
-            return { reply, optional_data: { tasks } };
-        }
-        case INTENTS.DELETE_TASK: {
-            const { task_id } = params;
-            if (!task_id) {
-                return { reply: 'Please specify a task ID to delete, e.g., "delete task 1"' };
-            }
-            await deleteTask(userId, task_id);
-            return { reply: `Task ${task_id} deleted.` };
-        }
-        case INTENTS.REFLECT_JOURNAL: {
-            const { content } = params;
-            const journalContent = content || message;
-            const { id } = await reflectJournal(userId, journalContent);
-            const reply = 'Journal entry added.';
-            return { reply, optional_data: { journal_id: id } };
-        }
-        case INTENTS.SMALLTALK: {
-            const reply = await generateSmalltalkReply(message, profile);
-            return { reply };
+    return { ...(await runIntent(intent, params, context)), metadata };
+}
+
+/**
+ * Run the requests of a compound message one after another and combine the replies. A
+ * failed request is reported and the rest still run; a request that asks a follow-up
+ * question ends the run, since only one question can be open at a time.
+ */
+async function runCompound(
+    requests: string[],
+    context: IntentContext
+): Promise<SendMessageResponse> {
+    const { userId, stream } = context;
+    // Replies are combined at the end, so free-form ones are not streamed
+    const actionStream: MessageStream | undefined = stream && { signal: stream.signal };
+    const actions: ActionResult[] = [];
+
+    for (const request of requests) {
+        if (getPendingAction(userId)) {
+            actions.push({ request, intent: null, status: 'skipped', reply: null });
+            continue;
         }
-        default: {
-            return await handleComplexIntent(intent, userId, message);
+
+        let intent: Intent | null = null;
+        let metadata: ResponseMetadata | undefined;
+        try {
+            metadata = await classifyIntent(request);
+            intent = metadata.intent;
+            logger.info(`Detected intent: ${intent} (${metadata.path})`);
+            stream?.onIntent?.(intent);
+            const params = await extractParameters(intent, request);
+            const response = await runIntent(intent, params, {
+                ...context,
+                message: request,
+                stream: actionStream,
+            });
+            actions.push({
+                request,
+                intent,
+                status: getPendingAction(userId) ? 'needs_input' : 'ok',
+                reply: response.reply,
+                optional_data: response.optional_data,
+                metadata,
+            });
+        } catch (error) {
+            logger.error(`Action "${request}" failed:`, error);
+            actions.push({
+                request,
+                intent,
+                status: 'failed',
+                reply: `Sorry, I couldn't do "${request}".`,
+                metadata,
+            });
         }
     }
+
+    const skipped = actions.filter(action => action.status === 'skipped');
+    const replies = actions.flatMap(action => (action.reply ? [action.reply] : []));
+    if (skipped.length) {
+        replies.push(
+            `Once that's answered, ask me again for: ${skipped.map(action => `"${action.request}"`).join(', ')}.`
+        );
+    }
+    return { reply: replies.join('\n\n'), optional_data: { actions } };
 }
+
 export async function handleLoadMessage(userId: string): Promise<SendMessageResponse> {
-    const { data: messages, error } = await supabaseAdmin!
-        .from('memories')
-        .select('id, content, role, created_at')
-        .eq('user_id', userId)
-        .order('created_at', { ascending: false })
-        .limit(100);
-
-    if (error) {
-        throw new Error(`Failed to load messages: ${error.message}`);
-    }
+    const messages = await getRepositories().memories.recent(userId, 100);
 
     return {
         reply: 'Loaded past messages.',
@@ -0,0 +1,61 @@
+import { Task } from '../models/task.model';
+import type { HeldToolCall } from '../agent/agent';
+import type { Intent, IntentParams } from '../intents/types';
+
+const CONVERSATION_STATE_TTL_MS = Number(process.env.CONVERSATION_STATE_TTL_MS) || 10 * 60 * 1000;
+
+/**
+ * An action waiting on the user's next message:
+ * - fill_slot: a required parameter is missing and the assistant asked for it
+ * - choose_task: several tasks matched and the user has to pick one
+ * - confirm: a destructive action needs an explicit yes/no
+ * - confirm_tools: agent tool calls whose permission requires a yes/no
+ */
+export type PendingAction =
+    | { type: 'fill_slot'; intent: Intent; slot: string; params: IntentParams }
+    | { type: 'choose_task'; intent: Intent; params: IntentParams; candidates: Task[] }
+    | { type: 'confirm'; intent: Intent; params: IntentParams; task: Task }
+    | { type: 'confirm_tools'; intent: Intent; calls: HeldToolCall[] };
+
+interface ConversationState {
+    pending: PendingAction;
+    expiresAt: number;
+}
+
+// Per-user state lives in process; an unanswered question simply expires
+const states = new Map<string, ConversationState>();
+
+export function getPendingAction(userId: string): PendingAction | null {
+    const state = states.get(userId);
+    if (!state) return null;
+    if (state.expiresAt <= Date.now()) {
+        states.delete(userId);
+        return null;
+    }
+    return state.pending;
+}
+
+export function setPendingAction(userId: string, pending: PendingAction): void {
+    states.set(userId, { pending, expiresAt: Date.now() + CONVERSATION_STATE_TTL_MS });
+}
+
+export function clearPendingAction(userId: string): void {
+    states.delete(userId);
+}
+
+const YES = /^(y|yes|yeah|yep|yup|sure|ok|okay|confirm|do it|go ahead|please do)\b/i;
+const NO = /^(n|no|nope|nah|cancel|stop|don'?t|never ?mind|abort)\b/i;
+
+/**
+ * Read a yes/no answer, or null when the message is neither
+ */
+export function parseConfirmation(message: string): 'yes' | 'no' | null {
+    const answer = message.trim();
+    if (YES.test(answer)) return 'yes';
+    if (NO.test(answer)) return 'no';
+    return null;
+}
+
+export function isCancellation(message: string): boolean {
+    return /^(cancel|stop|never ?mind|forget it|abort)\b/i.test(message.trim());
+}
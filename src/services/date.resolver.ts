@@ -0,0 +1,439 @@
+import { z } from 'zod';
+import { generateObject } from '../llm';
+import {
+    addDays,
+    addMonths,
+    endOfMonth,
+    ISO_DATE_PATTERN,
+    isValidDate,
+    makeDate,
+    resolveTimeZone,
+    startOfDayInstant,
+    startOfMonth,
+    startOfWeek,
+    TIME_PATTERN,
+    toZonedIso,
+    weekdayOf,
+    zonedDateTime,
+} from '../utils/datetime';
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const MONTHS = [
+    'january',
+    'february',
+    'march',
+    'april',
+    'may',
+    'june',
+    'july',
+    'august',
+    'september',
+    'october',
+    'november',
+    'december',
+];
+const SHORT_WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const SHORT_MONTHS = MONTHS.map(month => month[0].toUpperCase() + month.slice(1, 3));
+
+// Times implied by parts of the day
+const DAY_PARTS: Record<string, string> = {
+    morning: '09:00',
+    noon: '12:00',
+    midday: '12:00',
+    afternoon: '15:00',
+    evening: '18:00',
+    'end of day': '17:00',
+    eod: '17:00',
+    tonight: '20:00',
+    night: '20:00',
+    midnight: '00:00',
+};
+
+// Longest "next/last N days" range; reports walk it day by day
+const MAX_RANGE_DAYS = 366;
+
+// Words that carry no date information ("due by the 27th of October")
+const FILLER_WORDS = new Set(['on', 'by', 'at', 'due', 'before', 'until', 'the', 'of', 'for']);
+
+export interface DateContext {
+    now?: Date;
+    timeZone?: string;
+}
+
+export interface ResolvedDue {
+    due_date: string;
+    due_time: string | null;
+    /** The same moment as an ISO 8601 datetime in the user's timezone */
+    due_at: string;
+    label: string;
+}
+
+/** Inclusive range of due dates; a null bound is open */
+export interface DateRange {
+    from: string | null;
+    to: string | null;
+    label: string;
+}
+
+interface Today {
+    date: string;
+    time: string;
+    timeZone: string;
+    now: Date;
+}
+
+function today(context: DateContext): Today {
+    const now = context.now ?? new Date();
+    const timeZone = resolveTimeZone(context.timeZone);
+    const { date, time } = zonedDateTime(now, timeZone);
+    return { date, time, timeZone, now };
+}
+
+/**
+ * Short label for a due date, e.g. "Mon 27 Oct" or "Mon 27 Oct 18:00". The year is shown
+ * only when it differs from the year of currentDate.
+ */
+export function formatDue(date: string, time?: string | null, currentDate?: string): string {
+    const [year, month, day] = date.split('-').map(Number);
+    let label = `${SHORT_WEEKDAYS[weekdayOf(date)]} ${day} ${SHORT_MONTHS[month - 1]}`;
+    if (currentDate && currentDate.slice(0, 4) !== date.slice(0, 4)) label += ` ${year}`;
+    return time ? `${label} ${time}` : label;
+}
+
+function normalize(text: string): string {
+    return text
+        .toLowerCase()
+        .replace(/(\d{4}-\d{2}-\d{2})t(\d)/, '$1 $2')
+        .replace(/[,.!?]+(\s|$)/g, ' ')
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+function monthIndex(word: string): number {
+    if (word.length < 3) return -1;
+    return MONTHS.findIndex(month => month.startsWith(word));
+}
+
+function to24Hour(hour: number, minute: number, meridiem?: string): string | null {
+    if (meridiem) {
+        if (hour < 1 || hour > 12) return null;
+        if (meridiem.startsWith('p') && hour !== 12) hour += 12;
+        if (meridiem.startsWith('a') && hour === 12) hour = 0;
+    }
+    if (hour > 23 || minute > 59) return null;
+    return `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`;
+}
+
+// Pull the time of day out of the expression, returning it with the remaining text
+function extractTime(text: string): { time: string | null; rest: string; invalid?: boolean } {
+    const patterns: { regex: RegExp; read: (match: RegExpMatchArray) => string | null }[] = [
+        {
+            regex: /\b(?:at )?(\d{1,2})(?::(\d{2}))? ?(am|pm|a\.m\.|p\.m\.)(?=\s|$)/,
+            read: m => to24Hour(Number(m[1]), Number(m[2] ?? 0), m[3]),
+        },
+        {
+            regex: /\b(?:at )?(\d{1,2}):(\d{2})\b/,
+            read: m => to24Hour(Number(m[1]), Number(m[2])),
+        },
+        {
+            regex: /\bat (\d{1,2})\b(?! ?(?:days?|weeks?|months?)\b)/,
+            read: m => to24Hour(Number(m[1]), 0),
+        },
+        {
+            regex: /\b(?:in the |this |at )?(morning|afternoon|evening|tonight|night|noon|midday|midnight|end of day|eod)\b/,
+            read: m => DAY_PARTS[m[1]],
+        },
+    ];
+
+    for (const { regex, read } of patterns) {
+        const match = text.match(regex);
+        if (!match) continue;
+        const time = read(match);
+        const rest = `${text.slice(0, match.index)} ${text.slice(match.index! + match[0].length)}`;
+        // "tonight" also means today
+        const remaining = match[1] === 'tonight' ? `today ${rest}` : rest;
+        return { time, rest: remaining.replace(/\s+/g, ' ').trim(), invalid: time === null };
+    }
+    return { time: null, rest: text };
+}
+
+function stripFillers(text: string): string {
+    return text
+        .split(' ')
+        .filter(word => word && !FILLER_WORDS.has(word))
+        .join(' ');
+}
+
+function numberWord(word: string): number {
+    if (word === 'a' || word === 'an' || word === 'one') return 1;
+    const words = [
+        'zero',
+        'one',
+        'two',
+        'three',
+        'four',
+        'five',
+        'six',
+        'seven',
+        'eight',
+        'nine',
+        'ten',
+    ];
+    const index = words.indexOf(word);
+    return index >= 0 ? index : Number(word);
+}
+
+// Next date (today included when allowToday) falling on the weekday
+function nextWeekday(from: string, weekday: number, allowToday: boolean): string {
+    let days = (weekday - weekdayOf(from) + 7) % 7;
+    if (days === 0 && !allowToday) days = 7;
+    return addDays(from, days);
+}
+
+// A calendar day named by the text, or null when it isn't one we recognise
+function parseDay(text: string, current: Today): string | null {
+    const date = current.date;
+
+    switch (text) {
+        case 'today':
+        case 'now':
+            return date;
+        case 'tomorrow':
+        case 'tmr':
+        case 'tmrw':
+            return addDays(date, 1);
+        case 'day after tomorrow':
+            return addDays(date, 2);
+        case 'this week':
+        case 'end week':
+        case 'end this week':
+            return addDays(startOfWeek(date), 6);
+        case 'next week':
+            return addDays(startOfWeek(date), 7);
+        case 'weekend':
+        case 'this weekend':
+            return weekdayOf(date) === 0 ? date : nextWeekday(date, 6, true);
+        case 'next weekend':
+            return addDays(startOfWeek(date), 12);
+        case 'this month':
+        case 'end month':
+        case 'end this month':
+            return endOfMonth(date);
+        case 'next month':
+            return addMonths(startOfMonth(date), 1);
+    }
+
+    if (ISO_DATE_PATTERN.test(text)) {
+        return isValidDate(text) ? text : null;
+    }
+
+    let match =
+        text.match(/^in (\w+) (day|week|month)s?$/) ??
+        text.match(/^(\w+) (day|week|month)s? from now$/);
+    if (match) {
+        const amount = numberWord(match[1]);
+        if (!Number.isInteger(amount)) return null;
+        if (match[2] === 'day') return addDays(date, amount);
+        if (match[2] === 'week') return addDays(date, amount * 7);
+        return addMonths(date, amount);
+    }
+
+    match = text.match(/^(this |next |coming )?(\w+)$/);
+    if (match) {
+        const weekday = WEEKDAYS.findIndex(
+            day => day === match![2] || (match![2].length >= 3 && day.startsWith(match![2]))
+        );
+        if (weekday >= 0) {
+            // "next friday" is the Friday of next week; plain and "this" mean the coming one
+            if (match[1] === 'next ') return addDays(startOfWeek(date), 7 + ((weekday + 6) % 7));
+            return nextWeekday(date, weekday, match[1] !== 'coming ');
+        }
+    }
+
+    match =
+        text.match(/^(\d{1,2})(?:st|nd|rd|th)? ([a-z]+)(?: (\d{4}))?$/) ??
+        text.match(/^([a-z]+) (\d{1,2})(?:st|nd|rd|th)?(?: (\d{4}))?$/);
+    if (match) {
+        const dayFirst = /^\d/.test(match[1]);
+        const day = Number(dayFirst ? match[1] : match[2]);
+        const month = monthIndex(dayFirst ? match[2] : match[1]);
+        if (month < 0) return null;
+
+        const year = match[3] ? Number(match[3]) : Number(date.slice(0, 4));
+        const candidate = makeDate(year, month + 1, day);
+        // Without a year the next such day is meant
+        if (candidate && !match[3] && candidate < date) {
+            return makeDate(year + 1, month + 1, day);
+        }
+        return candidate;
+    }
+
+    return null;
+}
+
+/**
+ * Resolve a due date expression ("next Monday", "tomorrow 6 AM", "27 Oct at 18:00",
+ * "in 3 days") against the current date in the user's timezone. Returns null for anything
+ * it doesn't recognise so the caller can fall back to the model or ask again.
+ */
+export function parseDueExpression(text: string, context: DateContext = {}): ResolvedDue | null {
+    const current = today(context);
+    const normalized = normalize(text);
+    if (!normalized) return null;
+
+    // Offsets in hours or minutes move the clock, not just the day
+    const relative = normalized.match(/^in (\w+) (hour|minute|min)s?$/);
+    if (relative) {
+        const amount = numberWord(relative[1]);
+        if (!Number.isInteger(amount)) return null;
+        const minutes = relative[2] === 'hour' ? amount * 60 : amount;
+        const { date, time } = zonedDateTime(
+            new Date(current.now.getTime() + minutes * 60_000),
+            current.timeZone
+        );
+        return buildResolved(date, time, current);
+    }
+
+    const { time, rest, invalid } = extractTime(normalized);
+    if (invalid) return null;
+
+    const dayText = stripFillers(rest);
+    if (!dayText) {
+        if (!time) return null;
+        // A bare time means the next time the clock shows it
+        const date = time > current.time ? current.date : addDays(current.date, 1);
+        return buildResolved(date, time, current);
+    }
+
+    const date = parseDay(dayText, current);
+    return date ? buildResolved(date, time, current) : null;
+}
+
+function buildResolved(date: string, time: string | null, current: Today): ResolvedDue {
+    return {
+        due_date: date,
+        due_time: time,
+        due_at: toZonedIso(date, time, current.timeZone),
+        label: formatDue(date, time, current.date),
+    };
+}
+
+/**
+ * Resolve a due date expression, asking the intent model only when the rules don't apply
+ */
+export async function resolveDueDate(
+    text: string,
+    context: DateContext = {}
+): Promise<ResolvedDue | null> {
+    const parsed = parseDueExpression(text, context);
+    if (parsed) return parsed;
+
+    const current = today(context);
+    const schema = z.object({
+        due_date: z.string().regex(ISO_DATE_PATTERN),
+        due_time: z.string().regex(TIME_PATTERN).nullable().optional(),
+    });
+    const result = await generateObject(
+        'intent',
+        [
+            {
+                role: 'system',
+                content: `Today is ${WEEKDAYS[weekdayOf(current.date)]} ${current.date} and the time is ${current.time} (${current.timeZone}). Convert the user's date expression into due_date as YYYY-MM-DD and, only if a time is given, due_time as HH:MM (24-hour). Your response MUST be a JSON object that adheres to the provided schema.`,
+            },
+            { role: 'user', content: text },
+        ],
+        schema,
+        'due date resolution'
+    );
+
+    if (!result || !isValidDate(result.due_date)) return null;
+    return buildResolved(result.due_date, result.due_time ?? null, current);
+}
+
+/**
+ * Resolve a period used to list tasks ("today", "this week", "next 7 days", "overdue") or
+ * to summarize ("yesterday", "last week", "past 30 days"). A single day ("Friday",
+ * "27 Oct") becomes a one-day range. Counted ranges are limited to MAX_RANGE_DAYS days.
+ */
+export function parseDateRange(text: string, context: DateContext = {}): DateRange | null {
+    const current = today(context);
+    const normalized = stripFillers(normalize(text).replace(/^(tasks?|things) /, ''));
+    const date = current.date;
+    const week = startOfWeek(date);
+
+    switch (normalized) {
+        case 'overdue':
+        case 'past due':
+            return { from: null, to: addDays(date, -1), label: 'overdue' };
+        case 'this week':
+        case 'week':
+            return { from: week, to: addDays(week, 6), label: 'this week' };
+        case 'next week':
+            return { from: addDays(week, 7), to: addDays(week, 13), label: 'next week' };
+        case 'last week':
+        case 'previous week':
+            return { from: addDays(week, -7), to: addDays(week, -1), label: 'last week' };
+        case 'this weekend':
+        case 'weekend':
+            return { from: addDays(week, 5), to: addDays(week, 6), label: 'this weekend' };
+        case 'this month':
+        case 'month':
+            return { from: startOfMonth(date), to: endOfMonth(date), label: 'this month' };
+        case 'next month': {
+            const next = addMonths(startOfMonth(date), 1);
+            return { from: next, to: endOfMonth(next), label: 'next month' };
+        }
+        case 'last month':
+        case 'previous month': {
+            const previous = addMonths(startOfMonth(date), -1);
+            return { from: previous, to: endOfMonth(previous), label: 'last month' };
+        }
+        case 'yesterday':
+            return { from: addDays(date, -1), to: addDays(date, -1), label: 'yesterday' };
+    }
+
+    const upcoming = normalized.match(/^(?:in )?(?:next|coming) (\w+) days?$/);
+    if (upcoming) {
+        const days = numberWord(upcoming[1]);
+        if (!Number.isInteger(days) || days < 1 || days > MAX_RANGE_DAYS) return null;
+        return { from: date, to: addDays(date, days - 1), label: `the next ${days} days` };
+    }
+
+    const recent = normalized.match(/^(?:in )?(?:last|past|previous) (\w+) days?$/);
+    if (recent) {
+        const days = numberWord(recent[1]);
+        if (!Number.isInteger(days) || days < 1 || days > MAX_RANGE_DAYS) return null;
+        return { from: addDays(date, 1 - days), to: date, label: `the last ${days} days` };
+    }
+
+    const day = parseDay(normalized, current);
+    if (!day) return null;
+    const label =
+        day === date ? 'today' : day === addDays(date, 1) ? 'tomorrow' : formatDue(day, null, date);
+    return { from: day, to: day, label };
+}
+
+/**
+ * A bounded period for reports: its days (inclusive, in the user's timezone) plus the
+ * instants [start, end) they cover. Open-ended ranges such as "overdue" give null.
+ */
+export interface Period {
+    label: string;
+    from: string;
+    to: string;
+    start: string;
+    end: string;
+}
+
+export function resolvePeriod(text: string, context: DateContext = {}): Period | null {
+    const range = parseDateRange(text, context);
+    if (!range?.from || !range.to) return null;
+    const timeZone = resolveTimeZone(context.timeZone);
+    return {
+        label: range.label,
+        from: range.from,
+        to: range.to,
+        start: startOfDayInstant(range.from, timeZone),
+        end: startOfDayInstant(addDays(range.to, 1), timeZone),
+    };
+}
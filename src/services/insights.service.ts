@@ -0,0 +1,183 @@
+import { z } from 'zod';
+import { generateText } from '../llm';
+import {
+    insightsQuerySchema,
+    InsightsQueryInput,
+    ProductivityMetrics,
+    Weekday,
+    WEEKDAYS,
+} from '../models/insights.model';
+import { getRepositories, Task, TimeRange } from '../repositories';
+import { addDays, resolveTimeZone, toZonedIso, zonedDateTime } from '../utils/datetime';
+import { Period, resolvePeriod } from './date.resolver';
+
+export interface InsightsContext {
+    timeZone?: string;
+    now?: Date;
+}
+
+function ratio(part: number, whole: number): number | null {
+    return whole ? Math.round((part / whole) * 100) / 100 : null;
+}
+
+function isWithin(time: string | null, period: Period): boolean {
+    if (!time) return false;
+    const instant = Date.parse(time);
+    return instant >= Date.parse(period.start) && instant < Date.parse(period.end);
+}
+
+// Completed before the due time, or on the due day for date-only tasks
+function isOnTime(task: Task, timeZone: string): boolean {
+    const completedAt = Date.parse(task.completed_at!);
+    if (task.due_time) {
+        return completedAt <= Date.parse(toZonedIso(task.due_date!, task.due_time, timeZone));
+    }
+    return zonedDateTime(new Date(completedAt), timeZone).date <= task.due_date!;
+}
+
+function streaks(days: Set<string>, period: Period, today: string) {
+    let longest = 0;
+    let run = 0;
+    for (let day = period.from; day <= period.to; day = addDays(day, 1)) {
+        run = days.has(day) ? run + 1 : 0;
+        longest = Math.max(longest, run);
+    }
+
+    // A streak still counts on a day with nothing done yet
+    let day = period.to < today ? period.to : today;
+    if (!days.has(day) && day === today) day = addDays(day, -1);
+    let current = 0;
+    while (day >= period.from && days.has(day)) {
+        current++;
+        day = addDays(day, -1);
+    }
+    return { current, longest };
+}
+
+// Every task created or completed in the range, read a page at a time. A task that moves to
+// the next page while paging (a newer one was added) is only counted once.
+async function loadActivity(userId: string, range: TimeRange): Promise<Task[]> {
+    const pageSize = Number(process.env.INSIGHTS_PAGE_SIZE) || 1000;
+    const tasks = getRepositories().tasks;
+    const activity = new Map<number, Task>();
+    for (let offset = 0; ; offset += pageSize) {
+        const page = await tasks.activity(userId, range, pageSize, offset);
+        page.forEach(task => activity.set(task.id, task));
+        if (page.length < pageSize) return [...activity.values()];
+    }
+}
+
+function computeMetrics(
+    activity: Task[],
+    open: Task[],
+    period: Period,
+    timeZone: string,
+    now: Date
+): ProductivityMetrics {
+    const today = zonedDateTime(now, timeZone).date;
+    const created = activity.filter(task => isWithin(task.created_at, period));
+    const completed = activity.filter(task => isWithin(task.completed_at, period));
+    const withDue = completed.filter(task => task.due_date);
+    const onTime = withDue.filter(task => isOnTime(task, timeZone)).length;
+
+    const leadTimes = completed.map(
+        task => Date.parse(task.completed_at!) - Date.parse(task.created_at)
+    );
+    const averageLead = leadTimes.length
+        ? Math.round((leadTimes.reduce((sum, ms) => sum + ms, 0) / leadTimes.length / 36e5) * 10) /
+          10
+        : null;
+
+    const byWeekday = Object.fromEntries(WEEKDAYS.map(day => [day, 0])) as Record<Weekday, number>;
+    const completionDays = new Set<string>();
+    for (const task of completed) {
+        const { date, weekday } = zonedDateTime(new Date(task.completed_at!), timeZone);
+        byWeekday[WEEKDAYS[weekday]]++;
+        completionDays.add(date);
+    }
+    const most = Math.max(...Object.values(byWeekday));
+    const { current, longest } = streaks(completionDays, period, today);
+
+    return {
+        period: { label: period.label, from: period.from, to: period.to },
+        tasks_created: created.length,
+        tasks_completed: completed.length,
+        completion_rate: ratio(
+            created.filter(task => task.status === 'completed').length,
+            created.length
+        ),
+        completed_on_time: onTime,
+        completed_late: withDue.length - onTime,
+        on_time_rate: ratio(onTime, withDue.length),
+        overdue: open.filter(task => task.due_date && task.due_date < today).length,
+        carried_over: open.filter(task => Date.parse(task.created_at) < Date.parse(period.start))
+            .length,
+        average_lead_time_hours: averageLead,
+        current_streak_days: current,
+        longest_streak_days: longest,
+        completions_by_weekday: byWeekday,
+        busiest_weekdays: most ? WEEKDAYS.filter(day => byWeekday[day] === most) : [],
+    };
+}
+
+/**
+ * Productivity metrics for a period, computed from the user's tasks. Nothing here comes
+ * from the model.
+ */
+export async function getInsights(
+    userId: string,
+    input: InsightsQueryInput,
+    context: InsightsContext = {}
+): Promise<ProductivityMetrics> {
+    const { period: text } = insightsQuerySchema.parse(input);
+    const timeZone = resolveTimeZone(context.timeZone);
+    const now = context.now ?? new Date();
+    const period = resolvePeriod(text, { timeZone, now });
+    if (!period) {
+        throw new z.ZodError([
+            { code: 'custom', path: ['period'], message: `Unrecognized period "${text}"` },
+        ]);
+    }
+
+    const tasks = getRepositories().tasks;
+    const [activity, open] = await Promise.all([
+        loadActivity(userId, { from: period.start, to: period.end }),
+        tasks.list(userId, { status: ['pending', 'in_progress'], sort: 'created_at' }),
+    ]);
+    return computeMetrics(activity, open, period, timeZone, now);
+}
+
+function percent(rate: number | null): string {
+    return rate === null ? 'n/a' : `${Math.round(rate * 100)}%`;
+}
+
+// Plain statement of the numbers, used when there is nothing to narrate or no reply
+function describeMetrics(metrics: ProductivityMetrics): string {
+    const { label } = metrics.period;
+    const heading = `${label[0].toUpperCase()}${label.slice(1)}:`;
+    if (!metrics.tasks_created && !metrics.tasks_completed) {
+        return `${heading} no tasks added or completed, ${metrics.overdue} overdue.`;
+    }
+    return [
+        `${heading} ${metrics.tasks_created} tasks added, ${metrics.tasks_completed} completed.`,
+        `Completion rate ${percent(metrics.completion_rate)}, on time ${percent(metrics.on_time_rate)}.`,
+        `${metrics.overdue} overdue, ${metrics.carried_over} carried over.`,
+    ].join(' ');
+}
+
+/**
+ * A short narration of computed metrics. The model only rewords the numbers it is given.
+ */
+export async function narrateInsights(metrics: ProductivityMetrics): Promise<string> {
+    if (!metrics.tasks_created && !metrics.tasks_completed) return describeMetrics(metrics);
+
+    const reply = await generateText('chat', [
+        {
+            role: 'system',
+            content:
+                'You narrate productivity metrics for the user, addressed as "you". Use only the numbers in the JSON below and quote them exactly; do not calculate, estimate or add any other figures. Mention the completion and on-time rates, lead time, streaks, busiest weekdays and anything overdue or carried over, with one practical suggestion. At most 100 words, plain text.',
+        },
+        { role: 'user', content: JSON.stringify(metrics) },
+    ]);
+    return reply.trim() || describeMetrics(metrics);
+}
@@ -0,0 +1,180 @@
+import { z } from 'zod';
+import { embed, embeddingVersion } from '../memory/memories';
+import {
+    journalEntryInputSchema,
+    JournalEntryInput,
+    journalExportSchema,
+    JournalExportInput,
+    journalQuerySchema,
+    JournalQueryInput,
+} from '../models/journal.model';
+import { getRepositories, JournalEntry, JournalFields, MatchJournalRow } from '../repositories';
+import { decodeCursor, encodeCursor } from '../utils/cursor';
+import { addDays, resolveTimeZone, startOfDayInstant, zonedDateTime } from '../utils/datetime';
+import { logger } from '../utils/logger';
+import { formatDue } from './date.resolver';
+
+const JOURNAL_MATCH_THRESHOLD = Number(process.env.JOURNAL_MATCH_THRESHOLD) || 0.5;
+const EXPORT_PAGE_SIZE = 100;
+
+export interface JournalContext {
+    timeZone?: string;
+}
+
+export interface JournalPage {
+    entries: (JournalEntry | MatchJournalRow)[];
+    /** Pass back as ?cursor= for the next page; null on the last page */
+    next_cursor: string | null;
+}
+
+export interface JournalExport {
+    filename: string;
+    contentType: string;
+    body: string;
+}
+
+function invalid(path: string, message: string): z.ZodError {
+    return new z.ZodError([{ code: 'custom', path: [path], message }]);
+}
+
+// Entries are still saved when the embedding provider is down; they just miss semantic search
+async function toFields(content: string): Promise<JournalFields> {
+    try {
+        return { content, embedding: await embed(content), embedding_version: embeddingVersion() };
+    } catch (error) {
+        logger.error('Journal entry embedding failed:', error);
+        return { content, embedding: null, embedding_version: null };
+    }
+}
+
+// Calendar days in the user's timezone to the created_at bounds [from, to)
+function toTimeRange(
+    from: string | undefined,
+    to: string | undefined,
+    context: JournalContext
+): { from?: string; to?: string } {
+    if (from && to && from > to) throw invalid('from', 'from must not be after to');
+    const timeZone = resolveTimeZone(context.timeZone);
+    return {
+        from: from ? startOfDayInstant(from, timeZone) : undefined,
+        to: to ? startOfDayInstant(addDays(to, 1), timeZone) : undefined,
+    };
+}
+
+/**
+ * Journal operations shared by the chat service and the REST controller. Input is
+ * validated against the journal schemas (throws ZodError).
+ */
+export async function createEntry(userId: string, input: JournalEntryInput): Promise<JournalEntry> {
+    const { content } = journalEntryInputSchema.parse(input);
+    return getRepositories().journal.create(userId, await toFields(content));
+}
+
+export async function getEntry(userId: string, id: number): Promise<JournalEntry | null> {
+    return getRepositories().journal.get(userId, id);
+}
+
+export async function updateEntry(
+    userId: string,
+    id: number,
+    input: JournalEntryInput
+): Promise<JournalEntry | null> {
+    const { content } = journalEntryInputSchema.parse(input);
+    const journal = getRepositories().journal;
+    if (!(await journal.get(userId, id))) return null;
+    return journal.update(userId, id, await toFields(content));
+}
+
+export async function deleteEntry(userId: string, id: number): Promise<void> {
+    await getRepositories().journal.delete(userId, id);
+}
+
+/**
+ * Browse the journal newest first, optionally within a date range or matching a search.
+ * Semantic search returns the closest entries ranked by similarity, in one page.
+ */
+export async function listEntries(
+    userId: string,
+    input: JournalQueryInput,
+    context: JournalContext = {}
+): Promise<JournalPage> {
+    const query = journalQuerySchema.parse(input);
+    const range = toTimeRange(query.from, query.to, context);
+    const journal = getRepositories().journal;
+
+    if (query.q && query.mode === 'semantic') {
+        const entries = await journal.match(userId, {
+            embedding: await embed(query.q),
+            threshold: JOURNAL_MATCH_THRESHOLD,
+            count: query.limit,
+            version: embeddingVersion(),
+            ...range,
+        });
+        return { entries, next_cursor: null };
+    }
+
+    // One extra row tells whether another page follows
+    const rows = await journal.list(userId, {
+        ...range,
+        search: query.q,
+        before: query.cursor ? decodeCursor(query.cursor) : undefined,
+        limit: query.limit + 1,
+    });
+    const entries = rows.slice(0, query.limit);
+    const hasMore = rows.length > query.limit;
+    return { entries, next_cursor: hasMore ? encodeCursor(entries[entries.length - 1]) : null };
+}
+
+function toMarkdown(entries: JournalEntry[], timeZone: string): string {
+    const lines = ['# Journal', ''];
+    let currentDay = '';
+    // Oldest first reads like a diary
+    for (const entry of [...entries].reverse()) {
+        const { date, time } = zonedDateTime(new Date(entry.created_at), timeZone);
+        if (date !== currentDay) {
+            lines.push(`## ${formatDue(date)} ${date.slice(0, 4)}`, '');
+            currentDay = date;
+        }
+        lines.push(`### ${time}`, '', entry.content.trim(), '');
+    }
+    return lines.join('\n');
+}
+
+/**
+ * The whole journal (or a date range) as a Markdown document or a JSON array
+ */
+export async function exportEntries(
+    userId: string,
+    input: JournalExportInput,
+    context: JournalContext = {}
+): Promise<JournalExport> {
+    const { format, from, to } = journalExportSchema.parse(input);
+    const range = toTimeRange(from, to, context);
+    const journal = getRepositories().journal;
+
+    const entries: JournalEntry[] = [];
+    for (;;) {
+        const last = entries[entries.length - 1];
+        const page = await journal.list(userId, {
+            ...range,
+            before: last && { created_at: last.created_at, id: last.id },
+            limit: EXPORT_PAGE_SIZE,
+        });
+        entries.push(...page);
+        if (page.length < EXPORT_PAGE_SIZE) break;
+    }
+
+    const timeZone = resolveTimeZone(context.timeZone);
+    const stamp = zonedDateTime(new Date(), timeZone).date;
+    return format === 'json'
+        ? {
+              filename: `journal-${stamp}.json`,
+              contentType: 'application/json',
+              body: JSON.stringify(entries, null, 2),
+          }
+        : {
+              filename: `journal-${stamp}.md`,
+              contentType: 'text/markdown; charset=utf-8',
+              body: toMarkdown(entries, timeZone),
+          };
+}
@@ -0,0 +1,155 @@
+import { z } from 'zod';
+import { embed, embeddingVersion, searchMemories } from '../memory/memories';
+import {
+    memoryPurgeSchema,
+    MemoryPurgeInput,
+    memoryQuerySchema,
+    MemoryQueryInput,
+    memorySearchSchema,
+    MemorySearchInput,
+    memoryUpdateSchema,
+    MemoryUpdateInput,
+} from '../models/memory.model';
+import {
+    getRepositories,
+    MatchMemoriesRow,
+    MemoryRecord,
+    MemoryUpdateFields,
+} from '../repositories';
+import { decodeCursor, encodeCursor } from '../utils/cursor';
+import { addDays, resolveTimeZone, startOfDayInstant } from '../utils/datetime';
+
+const MEMORY_SEARCH_THRESHOLD = Number(process.env.MEMORY_SEARCH_THRESHOLD) || 0.5;
+
+export interface MemoryContext {
+    timeZone?: string;
+}
+
+export interface MemoryPage {
+    memories: MemoryRecord[];
+    /** Pass back as ?cursor= for the next page; null on the last page */
+    next_cursor: string | null;
+}
+
+export type MemorySearchResult = MemoryRecord & {
+    similarity: number;
+    /** Hybrid search only */
+    text_rank?: number;
+    score?: number;
+};
+
+function invalid(path: string, message: string): z.ZodError {
+    return new z.ZodError([{ code: 'custom', path: [path], message }]);
+}
+
+// Calendar days in the user's timezone to the created_at bounds [from, to)
+function toTimeRange(
+    from: string | undefined,
+    to: string | undefined,
+    context: MemoryContext
+): { from?: string; to?: string } {
+    if (from && to && from > to) throw invalid('from', 'from must not be after to');
+    const timeZone = resolveTimeZone(context.timeZone);
+    return {
+        from: from ? startOfDayInstant(from, timeZone) : undefined,
+        to: to ? startOfDayInstant(addDays(to, 1), timeZone) : undefined,
+    };
+}
+
+function toSearchResult({ embedding: _embedding, ...row }: MatchMemoriesRow): MemorySearchResult {
+    return row;
+}
+
+/**
+ * Browse what the assistant remembers, newest first, optionally by role, date range or
+ * pinned state
+ */
+export async function listMemories(
+    userId: string,
+    input: MemoryQueryInput,
+    context: MemoryContext = {}
+): Promise<MemoryPage> {
+    const query = memoryQuerySchema.parse(input);
+
+    // One extra row tells whether another page follows
+    const rows = await getRepositories().memories.list(userId, {
+        ...toTimeRange(query.from, query.to, context),
+        role: query.role,
+        pinned: query.pinned,
+        before: query.cursor ? decodeCursor(query.cursor) : undefined,
+        limit: query.limit + 1,
+    });
+    const memories = rows.slice(0, query.limit);
+    const hasMore = rows.length > query.limit;
+    return { memories, next_cursor: hasMore ? encodeCursor(memories[memories.length - 1]) : null };
+}
+
+/**
+ * The memories that best match the query, best first. A missing q is rejected by the
+ * schema; dates are calendar days in the user's timezone.
+ */
+export async function searchMemoryRecords(
+    userId: string,
+    input: Partial<MemorySearchInput>,
+    context: MemoryContext = {}
+): Promise<MemorySearchResult[]> {
+    const query = memorySearchSchema.parse(input);
+    const rows = await searchMemories(userId, query.q, {
+        matchThreshold: MEMORY_SEARCH_THRESHOLD,
+        matchCount: query.limit,
+        mode: query.mode,
+        role: query.role,
+        summaryId: query.summary_id,
+        ...toTimeRange(query.from, query.to, context),
+    });
+    return rows.map(toSearchResult);
+}
+
+export async function getMemory(userId: string, id: number): Promise<MemoryRecord | null> {
+    return getRepositories().memories.get(userId, id);
+}
+
+/**
+ * Pin, unpin or correct a memory. Edited content is re-embedded so retrieval matches what
+ * the memory now says.
+ */
+export async function updateMemory(
+    userId: string,
+    id: number,
+    input: MemoryUpdateInput
+): Promise<MemoryRecord | null> {
+    const { content, pinned } = memoryUpdateSchema.parse(input);
+    const memories = getRepositories().memories;
+    const existing = await memories.get(userId, id);
+    if (!existing) return null;
+
+    const fields: MemoryUpdateFields = { pinned };
+    if (content !== undefined && content !== existing.content) {
+        fields.content = content;
+        fields.embedding = await embed(content);
+        fields.embedding_version = embeddingVersion();
+    }
+    return memories.update(userId, id, fields);
+}
+
+/** Forget one memory; false when there was nothing to delete */
+export async function deleteMemory(userId: string, id: number): Promise<boolean> {
+    return getRepositories().memories.delete(userId, id);
+}
+
+/**
+ * Forget every memory in a date range (calendar days in the user's timezone, inclusive),
+ * optionally only one role's. Returns how many were deleted.
+ */
+export async function purgeMemories(
+    userId: string,
+    input: MemoryPurgeInput,
+    context: MemoryContext = {}
+): Promise<number> {
+    const query = memoryPurgeSchema.parse(input);
+    return getRepositories().memories.deleteRange(userId, {
+        ...toTimeRange(query.from, query.to, context),
+        role: query.role,
+        includePinned: query.include_pinned,
+    });
+}
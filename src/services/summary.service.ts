@@ -0,0 +1,151 @@
+import { z } from 'zod';
+import { generateText } from '../llm';
+import {
+    Summary,
+    SummaryCounts,
+    summaryQuerySchema,
+    SummaryQueryInput,
+} from '../models/summary.model';
+import { getRepositories, JournalEntry, MemoryMessage, Task, TimeRange } from '../repositories';
+import { resolveTimeZone, zonedDateTime } from '../utils/datetime';
+import { formatDue, resolvePeriod } from './date.resolver';
+
+// Most recent records read per source; busier periods are summarized from these
+const SUMMARY_SOURCE_LIMIT = Number(process.env.SUMMARY_SOURCE_LIMIT) || 50;
+const EXCERPT_LENGTH = 300;
+
+export interface SummaryContext {
+    timeZone?: string;
+    now?: Date;
+}
+
+function excerpt(text: string): string {
+    const flat = text.replace(/\s+/g, ' ').trim();
+    return flat.length > EXCERPT_LENGTH ? `${flat.slice(0, EXCERPT_LENGTH)}...` : flat;
+}
+
+function isWithin(time: string | null, range: TimeRange): boolean {
+    if (!time) return false;
+    const instant = Date.parse(time);
+    return instant >= Date.parse(range.from) && instant < Date.parse(range.to);
+}
+
+function plural(count: number, singular: string, pluralForm = `${singular}s`): string {
+    return `${count} ${count === 1 ? singular : pluralForm}`;
+}
+
+function describeCounts(counts: SummaryCounts): string {
+    return [
+        `${plural(counts.tasks_created, 'task')} added`,
+        `${counts.tasks_completed} completed`,
+        plural(counts.journal_entries, 'journal entry', 'journal entries'),
+        plural(counts.messages, 'message'),
+    ].join(', ');
+}
+
+// Every record is tagged with its id so the model can only draw on what is listed
+function describeSources(
+    created: Task[],
+    completed: Task[],
+    journal: JournalEntry[],
+    messages: MemoryMessage[],
+    timeZone: string
+): string {
+    const when = (time: string) => {
+        const { date, time: clock } = zonedDateTime(new Date(time), timeZone);
+        return formatDue(date, clock);
+    };
+    const task = (t: Task) => {
+        const due = t.due_date ? `, due ${formatDue(t.due_date, t.due_time)}` : '';
+        return `- [task ${t.id}] ${t.content} (${t.status}, ${t.priority}${due})`;
+    };
+
+    const sections = [
+        ['Tasks added', created.map(task)],
+        ['Tasks completed', completed.map(task)],
+        [
+            'Journal entries',
+            journal.map(e => `- [journal ${e.id}] ${when(e.created_at)}: ${excerpt(e.content)}`),
+        ],
+        ['Conversation', messages.map(m => `- [message ${m.id}] ${m.role}: ${excerpt(m.content)}`)],
+    ] as const;
+
+    return sections
+        .filter(([, lines]) => lines.length)
+        .map(([title, lines]) => `${title}:\n${lines.join('\n')}`)
+        .join('\n\n');
+}
+
+/**
+ * Summarize what the user did in a period: tasks added or completed, journal entries and
+ * chat messages. The summary is written only from those records; the counts and the ids
+ * of every record used are returned alongside it.
+ */
+export async function summarize(
+    userId: string,
+    input: SummaryQueryInput,
+    context: SummaryContext = {}
+): Promise<Summary> {
+    const { period } = summaryQuerySchema.parse(input);
+    const timeZone = resolveTimeZone(context.timeZone);
+    const range = resolvePeriod(period, { timeZone, now: context.now });
+    if (!range) {
+        throw new z.ZodError([
+            { code: 'custom', path: ['period'], message: `Unrecognized period "${period}"` },
+        ]);
+    }
+
+    const window: TimeRange = { from: range.start, to: range.end };
+    const repositories = getRepositories();
+    const [tasks, journal, messages] = await Promise.all([
+        repositories.tasks.activity(userId, window, SUMMARY_SOURCE_LIMIT),
+        repositories.journal.list(userId, { ...window, limit: SUMMARY_SOURCE_LIMIT }),
+        repositories.memories.recent(userId, SUMMARY_SOURCE_LIMIT, window),
+    ]);
+
+    const created = tasks.filter(task => isWithin(task.created_at, window));
+    const completed = tasks.filter(task => isWithin(task.completed_at, window));
+    const counts: SummaryCounts = {
+        tasks_created: created.length,
+        tasks_completed: completed.length,
+        journal_entries: journal.length,
+        messages: messages.length,
+    };
+    const sources = {
+        task_ids: tasks.map(task => task.id),
+        journal_ids: journal.map(entry => entry.id),
+        memory_ids: messages.map(message => message.id),
+    };
+    const result = {
+        period: { label: range.label, from: range.from, to: range.to },
+        counts,
+        sources,
+    };
+
+    if (!tasks.length && !journal.length && !messages.length) {
+        return { ...result, summary: `Nothing recorded for ${range.label}.` };
+    }
+
+    // Oldest first, so the model reads the period in order
+    const records = describeSources(
+        [...created].reverse(),
+        [...completed].reverse(),
+        [...journal].reverse(),
+        [...messages].reverse(),
+        timeZone
+    );
+    const summary = await generateText('chat', [
+        {
+            role: 'system',
+            content: `Write a short digest of the user's ${range.label} from the records below, addressed to them as "you". Cover what got done, what was added and is still open, and any themes from the journal and conversation. Use only these records; never invent tasks, events or feelings. At most 120 words, plain text.`,
+        },
+        { role: 'user', content: records },
+    ]);
+
+    return {
+        ...result,
+        summary:
+            summary.trim() ||
+            `${range.label[0].toUpperCase()}${range.label.slice(1)}: ${describeCounts(counts)}.`,
+    };
+}
@@ -0,0 +1,215 @@
+import { embedTexts } from '../llm';
+import { Task } from '../models/task.model';
+import { addDays, resolveTimeZone, zonedDateTime } from '../utils/datetime';
+import { logger } from '../utils/logger';
+import { fuzzyCoverage, tokenize } from '../utils/text';
+import { cosineSimilarity } from '../utils/vector';
+import { DateContext } from './date.resolver';
+
+const MIN_SCORE = 0.5;
+const CLEAR_MARGIN = 0.15;
+const MAX_CANDIDATES = 5;
+
+// Words that describe the action or the reference itself, not the task
+const REFERENCE_WORDS = [
+    'task',
+    'tasks',
+    'todo',
+    'do',
+    'item',
+    'delete',
+    'remove',
+    'erase',
+    'cancel',
+    'complete',
+    'completed',
+    'mark',
+    'done',
+    'finish',
+    'finished',
+    'edit',
+    'rename',
+    'update',
+    'change',
+    'move',
+    'reschedule',
+    'added',
+    'created',
+    'made',
+    'just',
+    'number',
+    'last',
+    'latest',
+    'newest',
+    'most',
+    'recent',
+    'first',
+    'oldest',
+    'earliest',
+    'yesterday',
+    'today',
+    's',
+];
+
+export interface TaskReference {
+    task_id?: number;
+    task_description?: string;
+}
+
+export type TaskResolution =
+    | { status: 'resolved'; task: Task }
+    | { status: 'ambiguous'; candidates: Task[] }
+    | { status: 'not_found' };
+
+type RelativeReference = 'newest' | 'oldest' | 'created_today' | 'created_yesterday';
+
+function taskText(task: Task): string {
+    return [task.content, task.description, ...task.tags].filter(Boolean).join(' ');
+}
+
+/**
+ * A reference made only of relative words ("the last one", "the task I added yesterday").
+ * One that also names something ("the first aid kit") is a description instead.
+ */
+function parseRelativeReference(text: string): RelativeReference | null {
+    if (tokenize(text, REFERENCE_WORDS).length) return null;
+    const lower = text.toLowerCase();
+    if (/\b(last|latest|newest|most recent|just (added|created|made))\b/.test(lower)) {
+        return 'newest';
+    }
+    if (/\b(first|oldest|earliest)\b/.test(lower)) return 'oldest';
+    if (/\byesterday'?s?\b/.test(lower)) return 'created_yesterday';
+    if (/\btoday'?s?\b/.test(lower)) return 'created_today';
+    return null;
+}
+
+function applyRelativeReference(
+    tasks: Task[],
+    reference: RelativeReference,
+    context: DateContext
+): Task[] {
+    const byCreated = [...tasks].sort((a, b) => a.created_at.localeCompare(b.created_at));
+    switch (reference) {
+        case 'newest':
+            return byCreated.slice(-1);
+        case 'oldest':
+            return byCreated.slice(0, 1);
+        case 'created_today':
+        case 'created_yesterday': {
+            // Days as the user sees them, not UTC days
+            const timeZone = resolveTimeZone(context.timeZone);
+            const today = zonedDateTime(context.now ?? new Date(), timeZone).date;
+            const day = reference === 'created_yesterday' ? addDays(today, -1) : today;
+            return tasks.filter(
+                task => zonedDateTime(new Date(task.created_at), timeZone).date === day
+            );
+        }
+    }
+}
+
+async function semanticScores(query: string, tasks: Task[]): Promise<number[] | null> {
+    try {
+        const [queryVector, ...taskVectors] = await embedTexts([query, ...tasks.map(taskText)]);
+        return taskVectors.map(vector => Math.max(0, cosineSimilarity(queryVector, vector)));
+    } catch (error) {
+        logger.error('Semantic task matching failed, using text matching only:', error);
+        return null;
+    }
+}
+
+/**
+ * Score tasks against a description: fuzzy word coverage blended with embedding similarity
+ */
+async function rankTasks(
+    description: string,
+    tasks: Task[]
+): Promise<{ task: Task; score: number }[]> {
+    const queryTokens = tokenize(description, REFERENCE_WORDS);
+    if (!queryTokens.length) return [];
+
+    const semantic = await semanticScores(queryTokens.join(' '), tasks);
+    return tasks
+        .map((task, i) => {
+            const fuzzy = fuzzyCoverage(queryTokens, tokenize(taskText(task)));
+            const score = semantic ? Math.max(fuzzy, 0.6 * fuzzy + 0.4 * semantic[i]) : fuzzy;
+            return { task, score };
+        })
+        .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Resolve a natural-language reference ("the grocery task", "the last one",
+ * "the task I added yesterday") against the user's tasks.
+ */
+export async function resolveTaskReference(
+    tasks: Task[],
+    reference: TaskReference,
+    message: string,
+    context: DateContext = {}
+): Promise<TaskResolution> {
+    if (reference.task_id) {
+        const task = tasks.find(candidate => candidate.id === reference.task_id);
+        return task ? { status: 'resolved', task } : { status: 'not_found' };
+    }
+
+    const description = reference.task_description?.trim() || message;
+    let pool = tasks;
+
+    const relative = parseRelativeReference(description) ?? parseRelativeReference(message);
+    if (relative) {
+        pool = applyRelativeReference(tasks, relative, context);
+        if (pool.length <= 1) {
+            return pool.length ? { status: 'resolved', task: pool[0] } : { status: 'not_found' };
+        }
+    }
+
+    const ranked = (await rankTasks(description, pool)).filter(entry => entry.score >= MIN_SCORE);
+    if (!ranked.length) {
+        // A relative reference alone ("yesterday's task") can still narrow things down
+        return relative
+            ? { status: 'ambiguous', candidates: pool.slice(0, MAX_CANDIDATES) }
+            : { status: 'not_found' };
+    }
+    if (ranked.length === 1 || ranked[0].score - ranked[1].score >= CLEAR_MARGIN) {
+        return { status: 'resolved', task: ranked[0].task };
+    }
+    return {
+        status: 'ambiguous',
+        candidates: ranked.slice(0, MAX_CANDIDATES).map(entry => entry.task),
+    };
+}
+
+const ORDINALS: Record<string, number> = {
+    first: 0,
+    '1st': 0,
+    second: 1,
+    '2nd': 1,
+    third: 2,
+    '3rd': 2,
+    fourth: 3,
+    '4th': 3,
+    fifth: 4,
+    '5th': 4,
+};
+
+/**
+ * Pick a task from a list the user was shown: by id, by position ("the second one",
+ * "the last one") or by description.
+ */
+export async function resolveTaskChoice(candidates: Task[], answer: string): Promise<Task | null> {
+    const text = answer.trim().toLowerCase();
+
+    const id = text.match(/^(?:task|number|#)?\s*(\d+)\.?$/)?.[1];
+    if (id) return candidates.find(task => task.id === Number(id)) ?? null;
+
+    if (/\blast\b/.test(text)) return candidates[candidates.length - 1] ?? null;
+    const ordinal = Object.keys(ORDINALS).find(word => new RegExp(`\\b${word}\\b`).test(text));
+    if (ordinal) return candidates[ORDINALS[ordinal]] ?? null;
+
+    const ranked = await rankTasks(answer, candidates);
+    const [best, second] = ranked;
+    if (best && best.score >= MIN_SCORE && (!second || best.score - second.score >= CLEAR_MARGIN)) {
+        return best.task;
+    }
+    return null;
+}
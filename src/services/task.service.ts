@@ -0,0 +1,182 @@
+import { z } from 'zod';
+import { getReminderConfig } from '../config/reminders';
+import {
+    createTaskSchema,
+    CreateTaskInput,
+    Task,
+    TaskFields,
+    taskQuerySchema,
+    TaskQueryInput,
+    updateTaskSchema,
+    UpdateTaskInput,
+} from '../models/task.model';
+import { getRepositories } from '../repositories';
+import { resolveTimeZone, toZonedIso, zonedDateTime } from '../utils/datetime';
+import { firstOccurrence, nextOccurrence, parseRecurrence } from '../utils/recurrence';
+
+/**
+ * Who is acting and when: due dates are wall-clock values in the user's timezone, so
+ * reminder times and recurrence dates are worked out against it.
+ */
+export interface TaskContext {
+    timeZone?: string;
+    now?: Date;
+}
+
+export interface CompletedTask {
+    task: Task;
+    /** The next occurrence of a recurring task, created on completion */
+    next: Task | null;
+}
+
+function today(context: TaskContext): string {
+    return zonedDateTime(context.now ?? new Date(), resolveTimeZone(context.timeZone)).date;
+}
+
+/**
+ * When the reminder for a due date fires: the lead time before a timed task, or the default
+ * time on the day for a date-only one. Tasks already past due get none.
+ */
+function reminderTime(
+    fields: Pick<TaskFields, 'status' | 'due_date' | 'due_time'>,
+    context: TaskContext
+): string | null {
+    if (fields.status === 'completed' || !fields.due_date) return null;
+
+    const { leadMinutes, defaultTime } = getReminderConfig();
+    const timeZone = resolveTimeZone(context.timeZone);
+    const due = Date.parse(toZonedIso(fields.due_date, fields.due_time ?? defaultTime, timeZone));
+    if (due <= (context.now ?? new Date()).getTime()) return null;
+
+    const lead = fields.due_time ? leadMinutes * 60_000 : 0;
+    return new Date(due - lead).toISOString();
+}
+
+/**
+ * Task operations shared by the chat service and the REST controller. Input is validated
+ * against the task schemas (throws ZodError) and completed_at follows the status.
+ */
+export async function createTask(
+    userId: string,
+    input: CreateTaskInput,
+    context: TaskContext = {}
+): Promise<Task> {
+    const fields = createTaskSchema.parse(input);
+
+    // A recurring task without a date starts at its first occurrence from today
+    const rule = fields.recurrence ? parseRecurrence(fields.recurrence) : null;
+    if (rule && !fields.due_date) {
+        fields.due_date = firstOccurrence(rule, today(context));
+    }
+
+    return getRepositories().tasks.create(userId, {
+        ...fields,
+        remind_at: reminderTime(fields, context),
+        completed_at: fields.status === 'completed' ? new Date().toISOString() : null,
+    });
+}
+
+export async function listTasks(userId: string, query?: TaskQueryInput): Promise<Task[]> {
+    return getRepositories().tasks.list(userId, query && taskQuerySchema.parse(query));
+}
+
+export async function getTask(userId: string, taskId: number): Promise<Task | null> {
+    return getRepositories().tasks.get(userId, taskId);
+}
+
+// Next occurrence of a recurring task, skipping dates that are already in the past
+async function createNextOccurrence(
+    userId: string,
+    task: Task,
+    context: TaskContext
+): Promise<Task | null> {
+    const rule = task.recurrence ? parseRecurrence(task.recurrence) : null;
+    if (!rule) return null;
+
+    const from = today(context);
+    let dueDate = nextOccurrence(rule, task.due_date ?? from);
+    for (let i = 0; dueDate && dueDate < from && i < 1000; i++) {
+        dueDate = nextOccurrence(rule, dueDate);
+    }
+    if (!dueDate) return null;
+
+    return createTask(
+        userId,
+        {
+            content: task.content,
+            description: task.description,
+            priority: task.priority,
+            tags: task.tags,
+            due_date: dueDate,
+            due_time: task.due_time,
+            recurrence: task.recurrence,
+        },
+        context
+    );
+}
+
+async function applyUpdate(
+    userId: string,
+    taskId: number,
+    input: UpdateTaskInput,
+    context: TaskContext
+): Promise<CompletedTask | null> {
+    const fields = updateTaskSchema.parse(input);
+    const repositories = getRepositories();
+    const existing = await repositories.tasks.get(userId, taskId);
+    if (!existing) return null;
+
+    const changes: Partial<TaskFields> = { ...fields };
+    const completing = fields.status === 'completed' && existing.status !== 'completed';
+    if (fields.status && fields.status !== existing.status) {
+        changes.completed_at = fields.status === 'completed' ? new Date().toISOString() : null;
+    }
+
+    const merged = {
+        status: fields.status ?? existing.status,
+        due_date: fields.due_date !== undefined ? fields.due_date : existing.due_date,
+        due_time: fields.due_time !== undefined ? fields.due_time : existing.due_time,
+    };
+    if (merged.due_time && !merged.due_date) {
+        throw new z.ZodError([
+            { code: 'custom', path: ['due_time'], message: 'due_time requires due_date' },
+        ]);
+    }
+    if (
+        fields.status !== undefined ||
+        fields.due_date !== undefined ||
+        fields.due_time !== undefined
+    ) {
+        changes.remind_at = reminderTime(merged, context);
+    }
+
+    const task = await repositories.tasks.update(userId, taskId, changes);
+    if (!task) return null;
+    const next = completing ? await createNextOccurrence(userId, task, context) : null;
+    return { task, next };
+}
+
+/**
+ * Update a task. Completing a recurring task also creates its next occurrence.
+ */
+export async function updateTask(
+    userId: string,
+    taskId: number,
+    input: UpdateTaskInput,
+    context: TaskContext = {}
+): Promise<Task | null> {
+    const result = await applyUpdate(userId, taskId, input, context);
+    return result?.task ?? null;
+}
+
+export async function completeTask(
+    userId: string,
+    taskId: number,
+    context: TaskContext = {}
+): Promise<CompletedTask | null> {
+    return applyUpdate(userId, taskId, { status: 'completed' }, context);
+}
+
+export async function deleteTask(userId: string, taskId: number): Promise<void> {
+    await getRepositories().tasks.delete(userId, taskId);
+}
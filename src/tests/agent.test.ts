@@ -0,0 +1,207 @@
+import { ToolCallRecord } from '../agent/agent';
+import { createFakeProvider, setProvider } from '../llm';
+import { createInMemoryRepositories, Repositories, setRepositories } from '../repositories';
+import { handleMessage } from '../services/chat.service';
+import { clearPendingAction } from '../services/conversation.service';
+import { createTask } from '../services/task.service';
+
+const toolCalls = (...calls: { name: string; arguments: unknown }[]) =>
+    JSON.stringify({ tool_calls: calls });
+
+describe('agent mode', () => {
+    const agent = createFakeProvider();
+    const intent = createFakeProvider();
+    const embedding = createFakeProvider();
+    let repos: Repositories;
+
+    beforeAll(() => {
+        setProvider('agent', agent);
+        setProvider('intent', intent);
+        setProvider('embedding', embedding);
+    });
+    afterAll(() => {
+        setProvider('agent', null);
+        setProvider('intent', null);
+        setProvider('embedding', null);
+        setRepositories(null);
+    });
+    beforeEach(() => {
+        agent.reset();
+        intent.reset();
+        clearPendingAction('alice');
+        repos = createInMemoryRepositories();
+        setRepositories(repos);
+    });
+    afterEach(() => {
+        delete process.env.AGENT_MAX_ITERATIONS;
+        delete process.env.AGENT_TOOL_PERMISSIONS;
+    });
+
+    test('runs several tools from one message and feeds their results back', async () => {
+        agent.enqueue(
+            toolCalls(
+                { name: 'create_task', arguments: { content: 'buy milk', due_date: '2026-10-20' } },
+                { name: 'add_journal_entry', arguments: { content: 'A calm Monday' } }
+            ),
+            'Added the task and wrote it down.'
+        );
+
+        const response = await handleMessage(
+            'alice',
+            'Remind me to buy milk tomorrow and journal that today was calm',
+            undefined,
+            undefined,
+            'agent'
+        );
+
+        expect(response.reply).toBe('Added the task and wrote it down.');
+        expect(response.optional_data).toMatchObject({
+            mode: 'agent',
+            iterations: 2,
+            tool_calls: [
+                { name: 'create_task', status: 'ok' },
+                { name: 'add_journal_entry', status: 'ok' },
+            ],
+        });
+        expect(intent.calls).toHaveLength(0);
+        expect((await repos.tasks.list('alice')).map(t => [t.content, t.due_date])).toEqual([
+            ['buy milk', '2026-10-20'],
+        ]);
+        expect((await repos.journal.list('alice', { limit: 10 })).map(e => e.content)).toEqual([
+            'A calm Monday',
+        ]);
+
+        const [first, second] = agent.calls;
+        expect(first.tools?.map(tool => tool.name)).toContain('search_memories');
+        expect(first.tools?.find(tool => tool.name === 'create_task')?.parameters).toMatchObject({
+            type: 'object',
+            required: ['content'],
+        });
+        expect(second.messages.filter(message => message.role === 'tool')).toHaveLength(2);
+    });
+
+    test('returns validation errors to the model so it can retry', async () => {
+        agent.enqueue(
+            toolCalls({ name: 'create_task', arguments: { due_date: 'tomorrow' } }),
+            toolCalls({ name: 'create_task', arguments: { content: 'call mum' } }),
+            'Done.'
+        );
+
+        const response = await handleMessage(
+            'alice',
+            'Add call mum',
+            undefined,
+            undefined,
+            'agent'
+        );
+
+        expect(
+            response.optional_data.tool_calls.map((call: ToolCallRecord) => call.status)
+        ).toEqual(['invalid', 'ok']);
+        const rejected = agent.calls[1].messages.find(message => message.role === 'tool');
+        expect(JSON.parse(rejected!.content)).toMatchObject({ error: 'Invalid arguments' });
+        expect(await repos.tasks.list('alice')).toHaveLength(1);
+    });
+
+    test('holds calls that need confirmation until the user says yes', async () => {
+        const task = await createTask('alice', { content: 'old report' });
+        agent.enqueue(
+            toolCalls({ name: 'delete_task', arguments: { task_id: task.id } }),
+            'I asked before deleting it.'
+        );
+
+        const question = await handleMessage(
+            'alice',
+            'Delete the old report',
+            undefined,
+            undefined,
+            'agent'
+        );
+        expect(question.reply).toBe(`Delete task ${task.id}. old report? (yes/no)`);
+        expect(await repos.tasks.get('alice', task.id)).not.toBeNull();
+
+        const answer = await handleMessage('alice', 'yes', undefined, undefined, 'agent');
+        expect(answer.reply).toBe(`Deleted task ${task.id}. old report`);
+        expect(await repos.tasks.get('alice', task.id)).toBeNull();
+    });
+
+    test('denied tools are not offered and calls to them are refused', async () => {
+        process.env.AGENT_TOOL_PERMISSIONS = 'delete_task=deny';
+        const task = await createTask('alice', { content: 'keep me' });
+        agent.enqueue(
+            toolCalls({ name: 'delete_task', arguments: { task_id: task.id } }),
+            'I am not allowed to delete tasks.'
+        );
+
+        const response = await handleMessage('alice', 'Delete it', undefined, undefined, 'agent');
+
+        expect(agent.calls[0].tools?.map(tool => tool.name)).not.toContain('delete_task');
+        expect(response.optional_data.tool_calls[0].status).toBe('denied');
+        expect(await repos.tasks.get('alice', task.id)).not.toBeNull();
+    });
+
+    test('a tool that throws is reported and the loop carries on', async () => {
+        jest.spyOn(repos.journal, 'create').mockRejectedValueOnce(
+            new Error('database unavailable')
+        );
+        const errors = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+        agent.enqueue(
+            toolCalls(
+                { name: 'add_journal_entry', arguments: { content: 'A calm Monday' } },
+                { name: 'create_task', arguments: { content: 'buy milk' } }
+            ),
+            'Added the task; the journal entry could not be saved.'
+        );
+
+        const response = await handleMessage(
+            'alice',
+            'Journal and add',
+            undefined,
+            undefined,
+            'agent'
+        );
+        errors.mockRestore();
+
+        expect(response.reply).toBe('Added the task; the journal entry could not be saved.');
+        expect(
+            response.optional_data.tool_calls.map((call: ToolCallRecord) => call.status)
+        ).toEqual(['failed', 'ok']);
+        const results = agent.calls[1].messages.filter(message => message.role === 'tool');
+        expect(JSON.parse(results[0].content)).toEqual({ error: 'add_journal_entry failed' });
+    });
+
+    test('a confirmation question that cannot be asked is reported as a failed call', async () => {
+        jest.spyOn(repos.tasks, 'get').mockRejectedValueOnce(new Error('database unavailable'));
+        const errors = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+        agent.enqueue(
+            toolCalls({ name: 'delete_task', arguments: { task_id: 1 } }),
+            'I could not look that task up.'
+        );
+
+        const response = await handleMessage(
+            'alice',
+            'Delete task 1',
+            undefined,
+            undefined,
+            'agent'
+        );
+        errors.mockRestore();
+
+        expect(response.reply).toBe('I could not look that task up.');
+        expect(response.optional_data.tool_calls).toEqual([
+            expect.objectContaining({ name: 'delete_task', status: 'failed' }),
+        ]);
+        expect(response.optional_data.pending_action).toBeUndefined();
+    });
+
+    test('stops after the iteration limit', async () => {
+        process.env.AGENT_MAX_ITERATIONS = '2';
+        const listing = toolCalls({ name: 'list_tasks', arguments: {} });
+        agent.enqueue(listing, listing, listing);
+
+        const response = await handleMessage('alice', 'Loop', undefined, undefined, 'agent');
+
+        expect(agent.calls).toHaveLength(2);
+        expect(response.reply).toBe('I had to stop after 2 steps.\nFound 0 tasks\nFound 0 tasks');
+    });
+});
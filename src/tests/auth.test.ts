@@ -0,0 +1,98 @@
+import { Request, Response, NextFunction } from 'express';
+import { supabase } from '../config/supabase';
+import { requireAuth } from '../middleware/auth';
+
+jest.mock('../config/supabase', () => ({
+    supabase: { auth: { getUser: jest.fn() } },
+    supabaseAdmin: null,
+}));
+
+const getUser = supabase!.auth.getUser as jest.Mock;
+
+function mockResponse() {
+    const res = {} as Response;
+    res.status = jest.fn().mockReturnValue(res);
+    res.json = jest.fn().mockReturnValue(res);
+    return res;
+}
+
+describe('requireAuth', () => {
+    beforeEach(() => getUser.mockReset());
+
+    test('rejects requests without a bearer token', async () => {
+        const req = { headers: {} } as Request;
+        const res = mockResponse();
+        const next = jest.fn() as NextFunction;
+
+        await requireAuth(req, res, next);
+
+        expect(res.status).toHaveBeenCalledWith(401);
+        expect(next).not.toHaveBeenCalled();
+        expect(getUser).not.toHaveBeenCalled();
+    });
+
+    test('rejects tokens Supabase does not accept', async () => {
+        getUser.mockResolvedValue({ data: { user: null }, error: new Error('bad jwt') });
+        const req = { headers: { authorization: 'Bearer bad' } } as Request;
+        const res = mockResponse();
+        const next = jest.fn() as NextFunction;
+
+        await requireAuth(req, res, next);
+
+        expect(getUser).toHaveBeenCalledWith('bad');
+        expect(res.status).toHaveBeenCalledWith(401);
+        expect(next).not.toHaveBeenCalled();
+    });
+
+    test('attaches the user and profile for a valid token', async () => {
+        getUser.mockResolvedValue({
+            data: {
+                user: {
+                    id: 'user-1',
+                    email: 'jane@example.com',
+                    email_confirmed_at: '2025-09-26T10:00:00.000Z',
+                    user_metadata: { first_name: 'Jane', last_name: 'Doe' },
+                    created_at: '2025-09-26T10:00:00.000Z',
+                },
+            },
+            error: null,
+        });
+        const req = { headers: { authorization: 'Bearer good' } } as Request;
+        const res = mockResponse();
+        const next = jest.fn() as NextFunction;
+
+        await requireAuth(req, res, next);
+
+        expect(next).toHaveBeenCalled();
+        expect(req.user?.id).toBe('user-1');
+        expect(req.profile).toEqual({
+            first_name: 'Jane',
+            last_name: 'Doe',
+            email: 'jane@example.com',
+        });
+    });
+});
+
+describe('local bearer tokens', () => {
+    afterEach(() => {
+        delete process.env.STORAGE_BACKEND;
+        jest.resetModules();
+    });
+
+    async function verifyWithoutAnonKey(token: string, supabaseAdmin: unknown) {
+        jest.resetModules();
+        jest.doMock('../config/supabase', () => ({ supabase: null, supabaseAdmin }));
+        const { verifyAccessToken } = await import('../middleware/auth');
+        return verifyAccessToken(token);
+    }
+
+    test('are taken as the user id with the memory backend', async () => {
+        await expect(verifyWithoutAnonKey('alice', null)).resolves.toMatchObject({ id: 'alice' });
+    });
+
+    test('are refused when the data lives in Supabase', async () => {
+        await expect(verifyWithoutAnonKey('alice', {})).resolves.toBeNull();
+        process.env.STORAGE_BACKEND = 'supabase';
+        await expect(verifyWithoutAnonKey('alice', null)).resolves.toBeNull();
+    });
+});
@@ -0,0 +1,92 @@
+import { classifyByExamples, classifyByRules } from '../intents/classifier';
+import { createFakeProvider, setProvider } from '../llm';
+import { createInMemoryRepositories, setRepositories } from '../repositories';
+import { handleMessage } from '../services/chat.service';
+
+describe('fast-path intent classifier', () => {
+    const fake = createFakeProvider();
+
+    beforeAll(() => {
+        setProvider('intent', fake);
+        setProvider('chat', fake);
+        setProvider('embedding', fake);
+        setRepositories(createInMemoryRepositories());
+    });
+    afterAll(() => {
+        setProvider('intent', null);
+        setProvider('chat', null);
+        setProvider('embedding', null);
+        setRepositories(null);
+    });
+    beforeEach(() => fake.reset());
+    afterEach(() => {
+        delete process.env.INTENT_FAST_PATH_ENABLED;
+        delete process.env.INTENT_FAST_PATH_THRESHOLD;
+    });
+
+    test('keyword rules decide when only one intent matches', () => {
+        expect(classifyByRules('Show me my tasks')).toEqual({
+            intent: 'list_tasks',
+            path: 'rules',
+            confidence: 0.95,
+        });
+        expect(classifyByRules('Hi there!')?.intent).toBe('smalltalk');
+        expect(classifyByRules('Add a journal entry')?.intent).toBe('reflect_journal');
+        expect(classifyByRules('Could you sort out the thing from before')).toBeNull();
+    });
+
+    test('nearest labelled examples vote with a confidence', async () => {
+        const result = await classifyByExamples('Which topics keep coming up in our chats?', 5);
+
+        expect(result).toMatchObject({ intent: 'long_conversation_analysis', path: 'examples' });
+        expect(result!.confidence).toBeGreaterThan(0.3);
+        expect(result!.confidence).toBeLessThanOrEqual(1);
+    });
+
+    test('confident local results skip the intent model', async () => {
+        process.env.INTENT_FAST_PATH_ENABLED = 'true';
+        fake.enqueue('{}');
+
+        const response = await handleMessage('alice', 'Show my tasks');
+
+        expect(response.metadata).toEqual({
+            intent: 'list_tasks',
+            path: 'rules',
+            confidence: 0.95,
+        });
+        expect(fake.calls.filter(call => call.kind === 'json')).toHaveLength(1);
+        expect(fake.calls[0].messages[0].content).toMatch(/^Extract filters for listing tasks/);
+    });
+
+    test('falls back to the intent model below the threshold', async () => {
+        process.env.INTENT_FAST_PATH_ENABLED = 'true';
+        process.env.INTENT_FAST_PATH_THRESHOLD = '0.99';
+        fake.enqueue(JSON.stringify({ intent: 'smalltalk' }), 'Sure.');
+
+        const response = await handleMessage('alice', 'What topics keep coming up?');
+
+        expect(response.metadata).toMatchObject({
+            intent: 'smalltalk',
+            path: 'llm',
+            confidence: null,
+            candidate: { intent: 'long_conversation_analysis', path: 'examples' },
+        });
+    });
+
+    test('a confident journal entry is not split into requests', async () => {
+        process.env.INTENT_FAST_PATH_ENABLED = 'true';
+        const content = 'walked to the lake and then had lunch with Sam';
+        fake.enqueue(JSON.stringify({ content }));
+
+        const response = await handleMessage('alice', `Journal: ${content}`);
+
+        expect(response).toMatchObject({
+            reply: 'Journal entry added.',
+            metadata: { intent: 'reflect_journal', path: 'rules' },
+        });
+        const prompts = fake.calls
+            .filter(call => call.kind === 'json')
+            .map(call => call.messages[0].content);
+        expect(prompts).toEqual([expect.stringMatching(/^Extract the journal content/)]);
+    });
+});
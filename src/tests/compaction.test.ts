@@ -0,0 +1,155 @@
+import { createFakeProvider, setProvider } from '../llm';
+import { compactConversation, createCompactionScheduler } from '../memory/compaction';
+import { buildConversationContext, contextToMessages } from '../memory/context';
+import { storeMemory } from '../memory/memories';
+import { createInMemoryRepositories, Repositories, setRepositories } from '../repositories';
+import { handleMessage } from '../services/chat.service';
+
+process.env.INTENT_FAST_PATH_ENABLED = 'false';
+
+const now = new Date('2025-10-22T10:00:00Z');
+const config = {
+    minAgeHours: 24,
+    batchSize: 10,
+    minMessages: 5,
+    intervalMs: 60_000,
+    pruneRaw: false,
+};
+
+function summaryReply(summary: string, topics: string[]): string {
+    return JSON.stringify({ summary, topics });
+}
+
+describe('conversation compaction', () => {
+    const fake = createFakeProvider();
+    let repos: Repositories;
+
+    beforeAll(() => {
+        setProvider('intent', fake);
+        setProvider('chat', fake);
+        setProvider('embedding', fake);
+    });
+    afterAll(() => {
+        setProvider('intent', null);
+        setProvider('chat', null);
+        setProvider('embedding', null);
+        setRepositories(null);
+    });
+    beforeEach(() => {
+        jest.useFakeTimers();
+        fake.reset();
+        repos = createInMemoryRepositories();
+        setRepositories(repos);
+    });
+    afterEach(() => jest.useRealTimers());
+
+    // count messages for alice, one minute apart from the given time
+    async function converse(start: string, count: number, text = 'message') {
+        for (let i = 0; i < count; i++) {
+            jest.setSystemTime(new Date(Date.parse(start) + i * 60_000));
+            await storeMemory('alice', `${text} ${i}`, i % 2 ? 'ai' : 'user');
+        }
+        jest.setSystemTime(now);
+    }
+
+    test('compacts old messages in batches and links the ids they cover', async () => {
+        await converse('2025-10-01T09:00:00Z', 25);
+        await converse('2025-10-22T09:00:00Z', 3, 'today');
+        fake.enqueue(
+            summaryReply('Planned the move to Berlin.', ['Moving', 'berlin']),
+            summaryReply('Talked about job interviews.', ['job search', 'berlin']),
+            summaryReply('Booked the movers.', ['moving'])
+        );
+
+        const scheduler = createCompactionScheduler(config, () => now);
+        expect(await scheduler.tick()).toBe(3);
+
+        const summaries = await repos.conversationSummaries.list('alice', { limit: 10 });
+        expect(summaries.map(s => s.message_count)).toEqual([5, 10, 10]);
+        expect(summaries[2].memory_ids).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+        expect(summaries[2].topics).toEqual(['moving', 'berlin']);
+        expect(summaries[2].period_start).toBe('2025-10-01T09:00:00.000Z');
+
+        // Today's messages are too recent, and nothing is summarized twice
+        const before = new Date(now.getTime() - 24 * 3_600_000).toISOString();
+        expect(await repos.memories.unsummarized('alice', before, 100)).toEqual([]);
+        expect(await scheduler.tick()).toBe(0);
+    });
+
+    test('leaves a batch for later when the model cannot summarize it', async () => {
+        await converse('2025-10-01T09:00:00Z', 6);
+        fake.enqueue('not json');
+        const before = now.toISOString();
+
+        await expect(compactConversation('alice', { ...config, before })).rejects.toThrow(
+            'no conversation summary'
+        );
+        expect(await repos.memories.unsummarized('alice', before, 100)).toHaveLength(6);
+    });
+
+    test('can delete the raw messages once summarized', async () => {
+        await converse('2025-10-01T09:00:00Z', 6);
+        fake.enqueue(summaryReply('Small talk.', []));
+
+        await compactConversation('alice', {
+            ...config,
+            pruneRaw: true,
+            before: now.toISOString(),
+        });
+
+        expect(await repos.memories.recent('alice', 100)).toEqual([]);
+        expect(
+            (await repos.conversationSummaries.list('alice', { limit: 1 }))[0].memory_ids
+        ).toEqual([1, 2, 3, 4, 5, 6]);
+    });
+
+    test('summaries are compact prompt context in place of the messages they cover', async () => {
+        await storeMemory('alice', 'I am moving to Berlin in December', 'user');
+        await storeMemory('alice', 'Berlin in December sounds exciting', 'ai');
+        fake.enqueue(summaryReply('The user is moving to Berlin in December.', ['berlin']));
+        await compactConversation('alice', { ...config, minMessages: 1, before: '2100-01-01' });
+
+        const context = await buildConversationContext('alice', 'moving to Berlin in December', {
+            matchThreshold: 0.3,
+            historyMessages: 0,
+        });
+        const [system] = contextToMessages('system', context, 'hi');
+
+        expect(context.summaries.map(s => s.content)).toEqual([
+            'The user is moving to Berlin in December.',
+        ]);
+        expect(context.memories).toEqual([]);
+        expect(system.content).toContain('Summaries of earlier conversations:');
+    });
+
+    test('answers analysis questions from summaries with computed topic counts', async () => {
+        await converse('2025-10-01T09:00:00Z', 20);
+        fake.enqueue(
+            summaryReply('Planned the move to Berlin.', ['moving', 'berlin']),
+            summaryReply('Talked about job interviews in Berlin.', ['job search', 'berlin'])
+        );
+        await createCompactionScheduler(config, () => now).tick();
+        await converse('2025-10-21T20:00:00Z', 2, 'latest');
+
+        fake.enqueue(
+            JSON.stringify({ intent: 'long_conversation_analysis' }),
+            JSON.stringify({ period: 'this month' }),
+            'Mostly Berlin: the move and job interviews.'
+        );
+        const response = await handleMessage('alice', 'What topics keep coming up this month?');
+
+        expect(response.reply).toBe('Mostly Berlin: the move and job interviews.');
+        expect(response.optional_data.topics).toEqual([
+            { topic: 'berlin', count: 2 },
+            { topic: 'job search', count: 1 },
+            { topic: 'moving', count: 1 },
+        ]);
+        expect(response.optional_data.summary_ids).toEqual([1, 2]);
+        expect(response.optional_data.memory_ids).toEqual([21, 22]);
+
+        const prompt = fake.calls[fake.calls.length - 1].messages[1].content;
+        expect(prompt).toContain('- berlin: 2');
+        expect(prompt).toContain('user: latest 0');
+        expect(prompt).toContain('Question: What topics keep coming up this month?');
+    });
+});
@@ -0,0 +1,115 @@
+import { createFakeProvider, setProvider } from '../llm';
+import { createInMemoryRepositories, Repositories, setRepositories } from '../repositories';
+import { ActionResult, handleMessage } from '../services/chat.service';
+import { clearPendingAction, getPendingAction } from '../services/conversation.service';
+
+process.env.INTENT_FAST_PATH_ENABLED = 'false';
+
+const intent = (name: string) => JSON.stringify({ intent: name });
+const split = (...requests: string[]) => JSON.stringify({ requests });
+
+describe('compound messages', () => {
+    const fake = createFakeProvider();
+    let repos: Repositories;
+
+    beforeAll(() => {
+        setProvider('intent', fake);
+        setProvider('embedding', fake);
+    });
+    afterAll(() => {
+        setProvider('intent', null);
+        setProvider('embedding', null);
+        setRepositories(null);
+    });
+    beforeEach(() => {
+        fake.reset();
+        clearPendingAction('alice');
+        repos = createInMemoryRepositories();
+        setRepositories(repos);
+    });
+
+    test('runs each request in order and combines the replies', async () => {
+        fake.enqueue(
+            split('add buy milk tomorrow', 'add call mom tomorrow', 'show my list'),
+            intent('add_task'),
+            JSON.stringify({ content: 'buy milk', due_date: 'tomorrow' }),
+            intent('add_task'),
+            JSON.stringify({ content: 'call mom', due_date: 'tomorrow' }),
+            intent('list_tasks'),
+            '{}'
+        );
+
+        const response = await handleMessage(
+            'alice',
+            'add buy milk and call mom tomorrow, then show my list'
+        );
+
+        const { actions } = response.optional_data;
+        expect(actions.map((a: ActionResult) => [a.intent, a.status])).toEqual([
+            ['add_task', 'ok'],
+            ['add_task', 'ok'],
+            ['list_tasks', 'ok'],
+        ]);
+        expect(actions[2].optional_data.tasks).toHaveLength(2);
+        expect(response.reply.split('\n\n').slice(0, 2)).toEqual([
+            actions[0].reply,
+            actions[1].reply,
+        ]);
+        expect(fake.calls[2].messages[1].content).toBe('add buy milk tomorrow');
+    });
+
+    test('reports a failed request without undoing the others', async () => {
+        const create = repos.tasks.create.bind(repos.tasks);
+        jest.spyOn(repos.tasks, 'create')
+            .mockImplementationOnce(create)
+            .mockRejectedValueOnce(new Error('database unavailable'));
+        fake.enqueue(
+            split('add buy milk', 'add call mom', 'add water plants'),
+            ...['buy milk', 'call mom', 'water plants'].flatMap(content => [
+                intent('add_task'),
+                JSON.stringify({ content }),
+            ])
+        );
+
+        const response = await handleMessage('alice', 'add buy milk, call mom and water plants');
+
+        expect(response.optional_data.actions.map((a: ActionResult) => a.status)).toEqual([
+            'ok',
+            'failed',
+            'ok',
+        ]);
+        expect(response.reply).toContain(`Sorry, I couldn't do "add call mom".`);
+        expect((await repos.tasks.list('alice')).map(t => t.content).sort()).toEqual([
+            'buy milk',
+            'water plants',
+        ]);
+    });
+
+    test('a follow-up question ends the run', async () => {
+        fake.enqueue(split('add a task', 'show my list'), intent('add_task'), '{}');
+
+        const response = await handleMessage('alice', 'add a task and then show my list');
+
+        expect(response.optional_data.actions.map((a: ActionResult) => a.status)).toEqual([
+            'needs_input',
+            'skipped',
+        ]);
+        expect(response.reply).toBe(
+            'What should the task say?\n\nOnce that\'s answered, ask me again for: "show my list".'
+        );
+        expect(getPendingAction('alice')).toMatchObject({ type: 'fill_slot', slot: 'content' });
+    });
+
+    test('single requests keep the usual response', async () => {
+        fake.enqueue(
+            split('add buy bread and butter'),
+            intent('add_task'),
+            JSON.stringify({ content: 'buy bread and butter' })
+        );
+
+        const response = await handleMessage('alice', 'add buy bread and butter');
+
+        expect(response.reply).toBe('Task added: "buy bread and butter"');
+        expect(response.optional_data.actions).toBeUndefined();
+    });
+});
@@ -0,0 +1,70 @@
+import { createFakeProvider, setProvider } from '../llm';
+import { buildConversationContext, contextToMessages } from '../memory/context';
+import { storeMemory } from '../memory/memories';
+import { createInMemoryRepositories, setRepositories } from '../repositories';
+import { handleMessage } from '../services/chat.service';
+
+process.env.INTENT_FAST_PATH_ENABLED = 'false';
+
+describe('retrieval-augmented replies', () => {
+    const fake = createFakeProvider();
+
+    beforeAll(() => {
+        setProvider('intent', fake);
+        setProvider('chat', fake);
+        setProvider('embedding', fake);
+    });
+    afterAll(() => {
+        setProvider('intent', null);
+        setProvider('chat', null);
+        setProvider('embedding', null);
+        setRepositories(null);
+    });
+    beforeEach(() => {
+        fake.reset();
+        setRepositories(createInMemoryRepositories());
+    });
+
+    test('smalltalk prompt includes relevant memories and recent turns', async () => {
+        const { id: sisterId } = await storeMemory(
+            'alice',
+            'My sister Priya lives in Pune',
+            'user'
+        );
+        for (let i = 0; i < 12; i++) {
+            await storeMemory('alice', `filler message number ${i}`, i % 2 ? 'ai' : 'user');
+        }
+        fake.enqueue(JSON.stringify({ intent: 'smalltalk' }), 'She lives in Pune!');
+
+        const response = await handleMessage('alice', 'Where does my sister Priya live?');
+
+        expect(response.reply).toBe('She lives in Pune!');
+        expect(response.optional_data.memory_ids).toEqual([sisterId]);
+
+        const prompt = fake.calls[1].messages;
+        expect(prompt[0].role).toBe('system');
+        expect(prompt[0].content).toContain('My sister Priya lives in Pune');
+        expect(prompt.slice(1, -1).map(message => message.content)).toContain(
+            'filler message number 11'
+        );
+        expect(prompt[prompt.length - 1]).toEqual({
+            role: 'user',
+            content: 'Where does my sister Priya live?',
+        });
+    });
+
+    test('context respects the token budget', async () => {
+        await storeMemory('alice', 'tea '.repeat(200), 'user');
+        await storeMemory('alice', 'I like green tea', 'ai');
+
+        const context = await buildConversationContext('alice', 'I like tea', {
+            matchThreshold: 0,
+            tokenBudget: 20,
+        });
+        const messages = contextToMessages('system', context, 'hi');
+
+        expect(context.history.map(message => message.content)).toEqual(['I like green tea']);
+        expect(context.memories).toHaveLength(0);
+        expect(messages[1]).toEqual({ role: 'assistant', content: 'I like green tea' });
+    });
+});
@@ -0,0 +1,114 @@
+import { createFakeProvider, setProvider } from '../llm';
+import { Task } from '../models/task.model';
+import { createInMemoryRepositories, Repositories, setRepositories } from '../repositories';
+import { handleMessage } from '../services/chat.service';
+import { createTask } from '../services/task.service';
+import {
+    clearPendingAction,
+    getPendingAction,
+    parseConfirmation,
+} from '../services/conversation.service';
+
+process.env.INTENT_FAST_PATH_ENABLED = 'false';
+
+const intent = (name: string) => JSON.stringify({ intent: name });
+
+describe('multi-turn slot filling and confirmation', () => {
+    const fake = createFakeProvider();
+    let repos: Repositories;
+
+    beforeAll(() => {
+        setProvider('intent', fake);
+        setProvider('embedding', fake);
+    });
+    afterAll(() => {
+        setProvider('intent', null);
+        setProvider('embedding', null);
+        setRepositories(null);
+    });
+    beforeEach(() => {
+        fake.reset();
+        clearPendingAction('alice');
+        repos = createInMemoryRepositories();
+        setRepositories(repos);
+    });
+
+    test('asks for missing task content and finishes on the next message', async () => {
+        fake.enqueue(intent('add_task'), '{}', intent('add_task'));
+
+        const question = await handleMessage('alice', 'Add a task');
+        const answer = await handleMessage('alice', 'buy milk');
+
+        expect(question.reply).toBe('What should the task say?');
+        expect(question.optional_data.pending_action).toMatchObject({ slot: 'content' });
+        expect(answer.reply).toBe('Task added: "buy milk"');
+        expect(fake.calls).toHaveLength(3);
+        expect((await repos.tasks.list('alice')).map(t => t.content)).toEqual(['buy milk']);
+    });
+
+    test('asks which task to delete, then requires confirmation', async () => {
+        const report = await createTask('alice', { content: 'finish the report' });
+        await createTask('alice', { content: 'buy groceries' });
+        const review = await createTask('alice', { content: 'review the report' });
+        fake.enqueue(intent('delete_task'), JSON.stringify({ task_description: 'report' }));
+
+        const choose = await handleMessage('alice', 'Delete the report task');
+        expect(choose.optional_data.pending_action.candidates.map((t: Task) => t.id)).toEqual([
+            review.id,
+            report.id,
+        ]);
+
+        const confirm = await handleMessage('alice', String(report.id));
+        expect(confirm.reply).toBe(`Delete task ${report.id}. finish the report? (yes/no)`);
+        expect(await repos.tasks.get('alice', report.id)).not.toBeNull();
+
+        const done = await handleMessage('alice', 'yes');
+        expect(done.reply).toBe(`Task ${report.id} deleted.`);
+        expect(await repos.tasks.get('alice', report.id)).toBeNull();
+    });
+
+    test('declining the confirmation keeps the task', async () => {
+        const task = await createTask('alice', { content: 'walk the dog' });
+        fake.enqueue(intent('delete_task'), JSON.stringify({ task_id: task.id }));
+
+        await handleMessage('alice', `Delete task ${task.id}`);
+        const declined = await handleMessage('alice', 'no');
+
+        expect(declined.reply).toBe('Okay, I left it as it is.');
+        expect(await repos.tasks.get('alice', task.id)).not.toBeNull();
+    });
+
+    test('an unrelated reply drops the pending action and is handled normally', async () => {
+        const task = await createTask('alice', { content: 'walk the dog' });
+        fake.enqueue(
+            intent('delete_task'),
+            JSON.stringify({ task_id: task.id }),
+            intent('list_tasks')
+        );
+
+        await handleMessage('alice', `Delete task ${task.id}`);
+        const listed = await handleMessage('alice', 'Show me my tasks');
+
+        expect(listed.optional_data.tasks).toHaveLength(1);
+        expect(getPendingAction('alice')).toBeNull();
+    });
+
+    test('a new request is not taken as the missing slot', async () => {
+        await createTask('alice', { content: 'walk the dog' });
+        fake.enqueue(intent('add_task'), '{}', intent('list_tasks'), intent('list_tasks'), '{}');
+
+        await handleMessage('alice', 'Add a task');
+        const listed = await handleMessage('alice', 'Show me my tasks');
+
+        expect(listed.optional_data.tasks).toHaveLength(1);
+        expect((await repos.tasks.list('alice')).map(t => t.content)).toEqual(['walk the dog']);
+        expect(getPendingAction('alice')).toBeNull();
+    });
+
+    test('parseConfirmation', () => {
+        expect(parseConfirmation('Yes please')).toBe('yes');
+        expect(parseConfirmation('ok')).toBe('yes');
+        expect(parseConfirmation("No, don't")).toBe('no');
+        expect(parseConfirmation('maybe later')).toBeNull();
+    });
+});
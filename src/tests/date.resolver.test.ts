@@ -0,0 +1,144 @@
+import { createFakeProvider, setProvider } from '../llm';
+import { createInMemoryRepositories, Repositories, setRepositories } from '../repositories';
+import { handleMessage } from '../services/chat.service';
+import { clearPendingAction } from '../services/conversation.service';
+import { parseDateRange, parseDueExpression, resolveDueDate } from '../services/date.resolver';
+import { toZonedIso } from '../utils/datetime';
+
+process.env.INTENT_FAST_PATH_ENABLED = 'false';
+
+// Wednesday 22 October 2025, 10:30 in London (BST, UTC+1)
+const now = new Date('2025-10-22T09:30:00Z');
+const context = { now, timeZone: 'Europe/London' };
+
+describe('parseDueExpression', () => {
+    test.each([
+        ['tomorrow', '2025-10-23', null],
+        ['tomorrow 6 AM', '2025-10-23', '06:00'],
+        ['next Monday', '2025-10-27', null],
+        ['friday at 5pm', '2025-10-24', '17:00'],
+        ['on the 3rd of November', '2025-11-03', null],
+        ['Oct 1', '2026-10-01', null],
+        ['in 2 weeks', '2025-11-05', null],
+        ['tonight', '2025-10-22', '20:00'],
+        ['at 9:15', '2025-10-23', '09:15'],
+        ['2025-12-01T14:00', '2025-12-01', '14:00'],
+        ['end of the month', '2025-10-31', null],
+    ])('%s', (text, date, time) => {
+        const resolved = parseDueExpression(text, context);
+        expect(resolved).toMatchObject({ due_date: date, due_time: time });
+    });
+
+    test('returns an ISO datetime in the user timezone and a short label', () => {
+        expect(parseDueExpression('next Monday 6pm', context)).toEqual({
+            due_date: '2025-10-27',
+            due_time: '18:00',
+            due_at: '2025-10-27T18:00:00+00:00',
+            label: 'Mon 27 Oct 18:00',
+        });
+    });
+
+    test('uses the date in the user timezone, not the server one', () => {
+        const lateEvening = new Date('2025-10-22T23:30:00Z');
+        expect(
+            parseDueExpression('tomorrow', { now: lateEvening, timeZone: 'Asia/Tokyo' })?.due_date
+        ).toBe('2025-10-24');
+        expect(
+            parseDueExpression('tomorrow', { now: lateEvening, timeZone: 'UTC' })?.due_date
+        ).toBe('2025-10-23');
+    });
+
+    test('rejects expressions it does not understand', () => {
+        expect(parseDueExpression('whenever I feel like it', context)).toBeNull();
+        expect(parseDueExpression('31 February', context)).toBeNull();
+        expect(parseDueExpression('25pm', context)).toBeNull();
+    });
+});
+
+describe('resolveDueDate', () => {
+    const fake = createFakeProvider();
+
+    beforeAll(() => setProvider('intent', fake));
+    afterAll(() => setProvider('intent', null));
+    beforeEach(() => fake.reset());
+
+    test('does not call the model for expressions the rules cover', async () => {
+        await resolveDueDate('next Monday', context);
+        expect(fake.calls).toHaveLength(0);
+    });
+
+    test('falls back to the model and validates its answer', async () => {
+        fake.enqueue(JSON.stringify({ due_date: '2025-12-25', due_time: null }));
+        const resolved = await resolveDueDate('christmas day', context);
+        expect(resolved?.label).toBe('Thu 25 Dec');
+
+        fake.enqueue(JSON.stringify({ due_date: 'soon' }));
+        expect(await resolveDueDate('some day', context)).toBeNull();
+    });
+});
+
+describe('parseDateRange', () => {
+    test.each([
+        ['this week', '2025-10-20', '2025-10-26'],
+        ['due next week', '2025-10-27', '2025-11-02'],
+        ['today', '2025-10-22', '2025-10-22'],
+        ['next 7 days', '2025-10-22', '2025-10-28'],
+        ['overdue', null, '2025-10-21'],
+        ['last week', '2025-10-13', '2025-10-19'],
+        ['past 7 days', '2025-10-16', '2025-10-22'],
+    ])('%s', (text, from, to) => {
+        expect(parseDateRange(text, context)).toMatchObject({ from, to });
+    });
+
+    test('rejects counted ranges longer than a year', () => {
+        expect(parseDateRange('last 366 days', context)).toMatchObject({ from: '2024-10-22' });
+        expect(parseDateRange('last 367 days', context)).toBeNull();
+        expect(parseDateRange('past 3000000 days', context)).toBeNull();
+        expect(parseDateRange('next 5000000 days', context)).toBeNull();
+    });
+});
+
+test('toZonedIso follows daylight saving time', () => {
+    expect(toZonedIso('2025-07-01', '09:00', 'America/New_York')).toBe('2025-07-01T09:00:00-04:00');
+    expect(toZonedIso('2025-12-01', '09:00', 'America/New_York')).toBe('2025-12-01T09:00:00-05:00');
+});
+
+describe('due dates in chat', () => {
+    const fake = createFakeProvider();
+    let repos: Repositories;
+
+    beforeAll(() => {
+        setProvider('intent', fake);
+        setProvider('embedding', fake);
+    });
+    afterAll(() => {
+        setProvider('intent', null);
+        setProvider('embedding', null);
+        setRepositories(null);
+    });
+    beforeEach(() => {
+        fake.reset();
+        clearPendingAction('alice');
+        repos = createInMemoryRepositories();
+        setRepositories(repos);
+    });
+
+    test('stores the resolved date and time and echoes them back', async () => {
+        fake.enqueue(
+            JSON.stringify({ intent: 'add_task' }),
+            JSON.stringify({ content: 'submit report', due_date: '27 October 2025 at 6 PM' })
+        );
+
+        const response = await handleMessage('alice', 'Submit report by 27 October at 6 PM', {
+            timezone: 'Europe/Paris',
+        });
+
+        // The year is only shown when it isn't the current one
+        expect(response.reply).toMatch(
+            /^Task added: "submit report" due Mon 27 Oct( 2025)? 18:00$/
+        );
+        expect(response.optional_data.due.due_at).toBe('2025-10-27T18:00:00+01:00');
+        const [task] = await repos.tasks.list('alice');
+        expect(task).toMatchObject({ due_date: '2025-10-27', due_time: '18:00' });
+    });
+});
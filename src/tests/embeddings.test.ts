@@ -0,0 +1,122 @@
+import { getEmbeddingConfig } from '../config/embedding';
+import { createFakeProvider, LLMProvider, setProvider } from '../llm';
+import { searchConversationSummaries, searchMemories, storeMemory } from '../memory/memories';
+import { createEntry, listEntries } from '../services/journal.service';
+import { createReembedScheduler, reembedMemories, ReembedProgress } from '../memory/reembed';
+import { createInMemoryRepositories, getRepositories, setRepositories } from '../repositories';
+
+const ENV_KEYS = ['LLM_EMBEDDING_MODEL', 'EMBEDDING_DIMENSIONS', 'EMBEDDING_VERSION'];
+
+describe('embedding versions', () => {
+    const fake = createFakeProvider();
+
+    beforeAll(() => setProvider('embedding', fake));
+    afterAll(() => {
+        setProvider('embedding', null);
+        setRepositories(null);
+    });
+    beforeEach(() => setRepositories(createInMemoryRepositories()));
+    afterEach(() => ENV_KEYS.forEach(key => delete process.env[key]));
+
+    test('dimensions are checked against the configured model', () => {
+        expect(getEmbeddingConfig()).toMatchObject({
+            dimensions: 768,
+            version: 'nomic-embed-text@768',
+        });
+
+        process.env.LLM_EMBEDDING_MODEL = 'mxbai-embed-large:latest';
+        expect(getEmbeddingConfig().version).toBe('mxbai-embed-large:latest@1024');
+        process.env.EMBEDDING_DIMENSIONS = '768';
+        expect(() => getEmbeddingConfig()).toThrow('produces 1024 dimensions');
+
+        process.env.LLM_EMBEDDING_MODEL = 'text-embedding-3-small';
+        process.env.EMBEDDING_DIMENSIONS = '512';
+        process.env.EMBEDDING_VERSION = 'openai-v2';
+        expect(getEmbeddingConfig()).toMatchObject({ dimensions: 512, version: 'openai-v2' });
+    });
+
+    test('search only compares vectors of the active version', async () => {
+        await storeMemory('alice', 'My sister Priya lives in Pune', 'user');
+        const [row] = await getRepositories().memories.list('alice', { limit: 1 });
+        expect(row.embedding_version).toBe('nomic-embed-text@768');
+
+        process.env.LLM_EMBEDDING_MODEL = 'fake-small';
+        process.env.EMBEDDING_DIMENSIONS = '64';
+        const query = 'My sister Priya lives in Pune';
+        expect(await searchMemories('alice', query, { mode: 'vector' })).toEqual([]);
+        // Hybrid search still finds it by text
+        expect(await searchMemories('alice', query, { mode: 'hybrid' })).toHaveLength(1);
+    });
+
+    test('re-embeds stale rows in batches and resumes after a failure', async () => {
+        for (let i = 0; i < 5; i++) {
+            await storeMemory(i % 2 ? 'bob' : 'alice', `note number ${i}`, 'user');
+        }
+        process.env.LLM_EMBEDDING_MODEL = 'fake-small';
+        process.env.EMBEDDING_DIMENSIONS = '64';
+        const { version } = getEmbeddingConfig();
+
+        let failures = 1;
+        const flaky: LLMProvider = {
+            ...fake,
+            async embed(input, options) {
+                if (input.length && input[0] === 'note number 2' && failures-- > 0) {
+                    throw new Error('embedding server unavailable');
+                }
+                return fake.embed(input, options);
+            },
+        };
+        setProvider('embedding', flaky);
+
+        const updates: ReembedProgress[] = [];
+        await expect(
+            reembedMemories({ version, batchSize: 2, onProgress: p => updates.push(p) })
+        ).rejects.toThrow('embedding server unavailable');
+        expect(updates.map(update => update.percent)).toEqual([40]);
+
+        const scheduler = createReembedScheduler({ version, batchSize: 2, intervalMs: 60_000 });
+        expect(await scheduler.tick()).toBe(3);
+        expect(scheduler.progress()).toMatchObject({ version, current: 5, remaining: 0 });
+        expect(await getRepositories().memories.embeddingVersions()).toEqual({ [version]: 5 });
+
+        const [match] = await searchMemories('bob', 'note number 3', { mode: 'vector' });
+        expect(match.content).toBe('note number 3');
+        setProvider('embedding', fake);
+    });
+
+    test('journal entries and summaries are versioned and re-embedded too', async () => {
+        const { journal, conversationSummaries } = getRepositories();
+        await createEntry('alice', { content: 'Hiked up to the lighthouse today' });
+        await conversationSummaries.create('alice', {
+            content: 'Talked about the lighthouse hike',
+            topics: ['hiking'],
+            memory_ids: [],
+            message_count: 2,
+            period_start: '2026-03-01T10:00:00.000Z',
+            period_end: '2026-03-01T10:05:00.000Z',
+            embedding: null,
+            embedding_version: null,
+        });
+        expect(await journal.embeddingVersions()).toEqual({ 'nomic-embed-text@768': 1 });
+        expect(await conversationSummaries.embeddingVersions()).toEqual({ none: 1 });
+
+        process.env.LLM_EMBEDDING_MODEL = 'mxbai-embed-large';
+        const { version } = getEmbeddingConfig();
+        // A new entry embeds at the new size next to the old one
+        await createEntry('alice', { content: 'Baked sourdough bread' });
+        const search = { q: 'Hiked up to the lighthouse today', mode: 'semantic' as const };
+        expect((await listEntries('alice', search)).entries).toEqual([]);
+
+        expect(await reembedMemories({ version, batchSize: 10 })).toBe(2);
+        expect(await journal.embeddingVersions()).toEqual({ [version]: 2 });
+        expect(await conversationSummaries.embeddingVersions()).toEqual({ [version]: 1 });
+
+        const [entry] = (await listEntries('alice', search)).entries;
+        expect(entry.content).toBe('Hiked up to the lighthouse today');
+        const [summary] = await searchConversationSummaries(
+            'alice',
+            'Talked about the lighthouse hike'
+        );
+        expect(summary.content).toBe('Talked about the lighthouse hike');
+    });
+});
@@ -0,0 +1,141 @@
+import { z } from 'zod';
+import { createFakeProvider, setProvider } from '../llm';
+import { createInMemoryRepositories, getRepositories, setRepositories } from '../repositories';
+import { handleMessage } from '../services/chat.service';
+import { getInsights, narrateInsights } from '../services/insights.service';
+import { completeTask, createTask } from '../services/task.service';
+
+process.env.INTENT_FAST_PATH_ENABLED = 'false';
+
+// Wednesday 22 October 2025; this week is Monday 20 to Sunday 26 October
+const now = new Date('2025-10-22T10:00:00Z');
+
+function at(instant: string) {
+    jest.setSystemTime(new Date(instant));
+}
+
+describe('performance insights', () => {
+    const fake = createFakeProvider();
+
+    beforeAll(() => {
+        setProvider('intent', fake);
+        setProvider('chat', fake);
+    });
+    afterAll(() => {
+        setProvider('intent', null);
+        setProvider('chat', null);
+        setRepositories(null);
+    });
+    beforeEach(async () => {
+        jest.useFakeTimers();
+        fake.reset();
+        setRepositories(createInMemoryRepositories());
+
+        at('2025-10-10T09:00:00Z');
+        await createTask('alice', { content: 'Renew passport', due_date: '2025-10-15' });
+        at('2025-10-20T09:00:00Z');
+        const onTime = await createTask('alice', { content: 'Pay rent', due_date: '2025-10-21' });
+        at('2025-10-20T10:00:00Z');
+        const late = await createTask('alice', {
+            content: 'Send invoice',
+            due_date: '2025-10-20',
+            due_time: '12:00',
+        });
+        at('2025-10-20T15:00:00Z');
+        await completeTask('alice', onTime.id);
+        at('2025-10-21T11:00:00Z');
+        await completeTask('alice', late.id);
+        at('2025-10-21T12:00:00Z');
+        await createTask('alice', { content: 'Plan trip' });
+        at('2025-10-22T08:00:00Z');
+        const quick = await createTask('alice', { content: 'Water plants' });
+        at('2025-10-22T09:00:00Z');
+        await completeTask('alice', quick.id);
+        await createTask('bob', { content: 'Not alice', due_date: '2025-10-01' });
+
+        at(now.toISOString());
+    });
+    afterEach(() => jest.useRealTimers());
+
+    test('computes the metrics from the tasks', async () => {
+        const metrics = await getInsights('alice', { period: 'this week' }, { timeZone: 'UTC' });
+
+        expect(metrics).toEqual({
+            period: { label: 'this week', from: '2025-10-20', to: '2025-10-26' },
+            tasks_created: 4,
+            tasks_completed: 3,
+            completion_rate: 0.75,
+            completed_on_time: 1,
+            completed_late: 1,
+            on_time_rate: 0.5,
+            overdue: 1,
+            carried_over: 1,
+            average_lead_time_hours: 10.7,
+            current_streak_days: 3,
+            longest_streak_days: 3,
+            completions_by_weekday: {
+                sunday: 0,
+                monday: 1,
+                tuesday: 1,
+                wednesday: 1,
+                thursday: 0,
+                friday: 0,
+                saturday: 0,
+            },
+            busiest_weekdays: ['monday', 'tuesday', 'wednesday'],
+        });
+        expect(fake.calls).toHaveLength(0);
+    });
+
+    test('reads every task of the period, a page at a time', async () => {
+        process.env.INSIGHTS_PAGE_SIZE = '2';
+        const activity = jest.spyOn(getRepositories().tasks, 'activity');
+        try {
+            const metrics = await getInsights(
+                'alice',
+                { period: 'this week' },
+                { timeZone: 'UTC' }
+            );
+            expect(metrics).toMatchObject({ tasks_created: 4, tasks_completed: 3 });
+            expect(activity).toHaveBeenCalledTimes(3);
+        } finally {
+            delete process.env.INSIGHTS_PAGE_SIZE;
+        }
+    });
+
+    test('a quiet period has no rates and needs no narration', async () => {
+        const metrics = await getInsights('alice', { period: 'last month' }, { timeZone: 'UTC' });
+
+        expect(metrics.tasks_created).toBe(0);
+        expect(metrics.completion_rate).toBeNull();
+        expect(metrics.busiest_weekdays).toEqual([]);
+        expect(await narrateInsights(metrics)).toBe(
+            'Last month: no tasks added or completed, 1 overdue.'
+        );
+        expect(fake.calls).toHaveLength(0);
+        await expect(getInsights('alice', { period: 'overdue' })).rejects.toThrow(
+            'Unrecognized period'
+        );
+    });
+
+    test('rejects periods longer than a year as invalid input', async () => {
+        for (const period of ['past 3000000 days', 'next 5000000 days', 'last 100000 days']) {
+            await expect(getInsights('alice', { period })).rejects.toBeInstanceOf(z.ZodError);
+        }
+    });
+
+    test('the model narrates the computed numbers in chat', async () => {
+        fake.enqueue(
+            JSON.stringify({ intent: 'performance_insights' }),
+            JSON.stringify({ period: 'this week' }),
+            'You completed 3 of 4 tasks this week.'
+        );
+
+        const response = await handleMessage('alice', 'How productive was I this week?');
+
+        expect(response.reply).toBe('You completed 3 of 4 tasks this week.');
+        expect(response.optional_data.metrics.completion_rate).toBe(0.75);
+        const prompt = fake.calls[fake.calls.length - 1].messages[1].content;
+        expect(JSON.parse(prompt)).toEqual(response.optional_data.metrics);
+    });
+});
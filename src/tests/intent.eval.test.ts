@@ -0,0 +1,121 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+    createFakeProvider,
+    createRecordingProvider,
+    loadRecordings,
+    RecordingProvider,
+    saveRecordings,
+    setProvider,
+} from '../llm';
+import { buildReport, evaluateIntents, formatMarkdown, LabelledExample } from '../eval/intents';
+import corpus from '../eval/intents.corpus.json';
+
+const examples: LabelledExample[] = [
+    {
+        text: 'Add a task to call mom tomorrow',
+        intent: 'add_task',
+        params: { content: 'call mom', due_date: 'tomorrow' },
+    },
+    { text: 'Show me all my tasks', intent: 'list_tasks' },
+    { text: 'Delete task number 5', intent: 'delete_task', params: { task_id: 5 } },
+    { text: 'Hello!', intent: 'smalltalk' },
+];
+
+// Stands in for the intent model: right except that it lists instead of deleting
+const model = createFakeProvider({
+    responder(messages) {
+        const system = messages[0].content;
+        const text = messages[messages.length - 1].content;
+        if (system.startsWith('Classify')) {
+            const intent = examples.find(example => example.text === text)!.intent;
+            return JSON.stringify({ intent: intent === 'delete_task' ? 'list_tasks' : intent });
+        }
+        if (text.startsWith('Add'))
+            return JSON.stringify({ content: 'Call Mom', due_date: 'Tomorrow' });
+        return JSON.stringify({ task_description: 'task number 5' });
+    },
+});
+
+describe('intent evaluation', () => {
+    afterEach(() => setProvider('intent', null));
+
+    test('the corpus covers every intent with labelled slots', () => {
+        const labelled = corpus as LabelledExample[];
+        const counts = labelled.reduce<Record<string, number>>(
+            (acc, example) => ({ ...acc, [example.intent]: (acc[example.intent] ?? 0) + 1 }),
+            {}
+        );
+        expect(Object.keys(counts)).toHaveLength(11);
+        expect(Object.values(counts).every(count => count === 20)).toBe(true);
+        expect(labelled.filter(example => example.params).length).toBeGreaterThan(25);
+    });
+
+    test('reports accuracy, precision and recall, confusion and slots', () => {
+        const report = buildReport(
+            [
+                { text: 'a', expected: 'add_task', predicted: 'add_task', slots: [] },
+                { text: 'b', expected: 'add_task', predicted: 'list_tasks', slots: [] },
+                { text: 'c', expected: 'list_tasks', predicted: 'list_tasks', slots: [] },
+                {
+                    text: 'd',
+                    expected: 'delete_task',
+                    predicted: 'delete_task',
+                    slots: [
+                        { field: 'task_id', expected: 5, actual: 5 },
+                        { field: 'task_description', expected: 'the dog', actual: 'dog' },
+                    ],
+                },
+            ],
+            { provider: 'fake', model: 'fake' }
+        );
+
+        expect(report.accuracy).toBe(0.75);
+        expect(report.intents.add_task).toEqual({
+            precision: 1,
+            recall: 0.5,
+            f1: 0.667,
+            support: 2,
+        });
+        expect(report.intents.list_tasks).toMatchObject({ precision: 0.5, recall: 1 });
+        expect(report.confusion.add_task).toEqual({ add_task: 1, delete_task: 0, list_tasks: 1 });
+        expect(report.slots).toMatchObject({ correct: 1, total: 2, accuracy: 0.5 });
+        expect(report.slot_errors).toEqual([
+            { text: 'd', field: 'task_description', expected: 'the dog', actual: 'dog' },
+        ]);
+        expect(formatMarkdown(report)).toContain('| add_task | 1 | · | 1 |');
+    });
+
+    test('replays recorded responses offline with the same report', async () => {
+        const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'intent-eval-'));
+        const file = path.join(dir, 'intents.json');
+        try {
+            const recorder = createRecordingProvider({ mode: 'record', provider: model });
+            setProvider('intent', recorder);
+            const recorded = await evaluateIntents(examples);
+            await saveRecordings(file, recorder.recordings);
+
+            expect(recorded).toMatchObject({ accuracy: 0.75, slots: { correct: 2, total: 3 } });
+            expect(recorded.misclassified).toEqual([
+                { text: 'Delete task number 5', expected: 'delete_task', predicted: 'list_tasks' },
+            ]);
+
+            model.reset();
+            const replay: RecordingProvider = createRecordingProvider({
+                mode: 'replay',
+                recordings: await loadRecordings(file),
+            });
+            setProvider('intent', replay);
+            expect(await evaluateIntents(examples)).toEqual(recorded);
+            expect(model.calls).toHaveLength(0);
+
+            // A message, or a prompt, that was never recorded fails instead of calling a model
+            await expect(
+                evaluateIntents([{ text: 'Good evening', intent: 'smalltalk' }])
+            ).rejects.toThrow('No recorded json response for "Good evening"');
+        } finally {
+            await fs.rm(dir, { recursive: true, force: true });
+        }
+    });
+});
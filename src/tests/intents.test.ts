@@ -0,0 +1,86 @@
+import { z } from 'zod';
+import { getIntent, listIntents, registerIntent, unregisterIntent } from '../intents';
+import { createFakeProvider, setProvider } from '../llm';
+import { createInMemoryRepositories, setRepositories } from '../repositories';
+import { handleMessage } from '../services/chat.service';
+import { clearPendingAction } from '../services/conversation.service';
+
+process.env.INTENT_FAST_PATH_ENABLED = 'false';
+
+describe('intent registry', () => {
+    const fake = createFakeProvider();
+    const handle = jest.fn(async (params: { plant?: string }) => ({
+        reply: `Watering ${params.plant}`,
+    }));
+
+    beforeAll(() => {
+        setProvider('intent', fake);
+        setRepositories(createInMemoryRepositories());
+        registerIntent({
+            name: 'water_plant',
+            description: 'water a house plant',
+            parameters: {
+                schema: z.object({ plant: z.string().optional() }),
+                instructions: 'Extract which plant to water.',
+            },
+            followUps: { plant: 'Which plant?' },
+            handle,
+        });
+    });
+    afterAll(() => {
+        unregisterIntent('water_plant');
+        setProvider('intent', null);
+        setRepositories(null);
+    });
+    beforeEach(() => {
+        fake.reset();
+        handle.mockClear();
+        clearPendingAction('alice');
+    });
+
+    test('registers the built-in intents in classifier order', () => {
+        expect(listIntents().map(intent => intent.name)).toEqual([
+            'add_task',
+            'list_tasks',
+            'delete_task',
+            'complete_task',
+            'update_task',
+            'reschedule_task',
+            'reflect_journal',
+            'smalltalk',
+            'summaries',
+            'performance_insights',
+            'long_conversation_analysis',
+            'water_plant',
+        ]);
+        expect(() => registerIntent({ ...getIntent('smalltalk')! })).toThrow(/already registered/);
+    });
+
+    test('builds the prompts from the registry and dispatches to the handler', async () => {
+        fake.enqueue(JSON.stringify({ intent: 'water_plant' }), JSON.stringify({ plant: 'fern' }));
+
+        const response = await handleMessage('alice', 'Water the fern');
+
+        expect(response.reply).toBe('Watering fern');
+        expect(handle).toHaveBeenCalledWith(
+            { plant: 'fern' },
+            expect.objectContaining({ userId: 'alice', message: 'Water the fern' })
+        );
+        expect(fake.calls[0].messages[0].content).toContain('- water_plant: water a house plant');
+        expect(fake.calls[1].messages[0].content).toMatch(/^Extract which plant to water\. /);
+    });
+
+    test('intents without parameters skip the extraction call', async () => {
+        const definition = getIntent('water_plant')!;
+        unregisterIntent('water_plant');
+        registerIntent({ ...definition, parameters: undefined });
+        fake.enqueue(JSON.stringify({ intent: 'water_plant' }));
+
+        await handleMessage('alice', 'Water the plants');
+
+        expect(fake.calls).toHaveLength(1);
+        expect(handle).toHaveBeenCalledWith({}, expect.anything());
+        unregisterIntent('water_plant');
+        registerIntent(definition);
+    });
+});
@@ -0,0 +1,152 @@
+import { z } from 'zod';
+import { createFakeProvider, setProvider } from '../llm';
+import { createInMemoryRepositories, setRepositories } from '../repositories';
+import {
+    createEntry,
+    deleteEntry,
+    exportEntries,
+    getEntry,
+    listEntries,
+    updateEntry,
+} from '../services/journal.service';
+
+// Entries are stamped with the current time, so each one is written at a chosen instant
+async function writeAt(userId: string, instant: string, content: string) {
+    jest.setSystemTime(new Date(instant));
+    return createEntry(userId, { content });
+}
+
+describe('journal service', () => {
+    const fake = createFakeProvider();
+
+    beforeAll(() => setProvider('embedding', fake));
+    afterAll(() => {
+        setProvider('embedding', null);
+        setRepositories(null);
+    });
+    beforeEach(() => {
+        jest.useFakeTimers();
+        setRepositories(createInMemoryRepositories());
+    });
+    afterEach(() => jest.useRealTimers());
+
+    test('entries are scoped to their owner', async () => {
+        const entry = await writeAt('alice', '2025-10-20T08:00:00Z', '  Slept well  ');
+        expect(entry.content).toBe('Slept well');
+
+        expect(await getEntry('bob', entry.id)).toBeNull();
+        expect(await updateEntry('bob', entry.id, { content: 'hijacked' })).toBeNull();
+        await deleteEntry('bob', entry.id);
+
+        jest.setSystemTime(new Date('2025-10-20T09:00:00Z'));
+        const updated = await updateEntry('alice', entry.id, { content: 'Slept badly' });
+        expect(updated?.content).toBe('Slept badly');
+        expect(updated?.updated_at).toBe('2025-10-20T09:00:00.000Z');
+
+        await deleteEntry('alice', entry.id);
+        expect(await getEntry('alice', entry.id)).toBeNull();
+        await expect(createEntry('alice', { content: '   ' })).rejects.toThrow();
+    });
+
+    test('pages newest first with a cursor', async () => {
+        for (let day = 1; day <= 5; day++) {
+            await writeAt('alice', `2025-10-0${day}T12:00:00Z`, `day ${day}`);
+        }
+
+        const first = await listEntries('alice', { limit: 2 });
+        const second = await listEntries('alice', { limit: 2, cursor: first.next_cursor! });
+        const last = await listEntries('alice', { limit: 2, cursor: second.next_cursor! });
+
+        expect(first.entries.map(e => e.content)).toEqual(['day 5', 'day 4']);
+        expect(second.entries.map(e => e.content)).toEqual(['day 3', 'day 2']);
+        expect(last.entries.map(e => e.content)).toEqual(['day 1']);
+        expect(last.next_cursor).toBeNull();
+        await expect(listEntries('alice', { cursor: 'nonsense' })).rejects.toThrow(
+            'Invalid cursor'
+        );
+    });
+
+    test('rejects cursors that would add to the repository filter', async () => {
+        const forged = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+        const cursors = [
+            forged(['2025-10-05T12:00:00Z,user_id.neq.alice', 1]),
+            forged(['2025-10-05', 1]),
+            forged(['2025-10-05T12:00:00Z', 1.5]),
+            forged(['2025-10-05T12:00:00Z', '1']),
+        ];
+
+        for (const cursor of cursors) {
+            await expect(listEntries('alice', { cursor })).rejects.toBeInstanceOf(z.ZodError);
+        }
+        const valid = forged(['2025-10-05T12:00:00.000+00:00', 3]);
+        await expect(listEntries('alice', { cursor: valid })).resolves.toEqual({
+            entries: [],
+            next_cursor: null,
+        });
+    });
+
+    test('filters by calendar days in the user timezone and by text', async () => {
+        // 23:30 UTC on the 1st is already the 2nd in Tokyo
+        await writeAt('alice', '2025-10-01T23:30:00Z', 'Walked by the river');
+        await writeAt('alice', '2025-10-03T10:00:00Z', 'Rainy walk, felt calm');
+
+        const tokyo = await listEntries(
+            'alice',
+            { from: '2025-10-02', to: '2025-10-02' },
+            { timeZone: 'Asia/Tokyo' }
+        );
+        const utc = await listEntries('alice', { from: '2025-10-02', to: '2025-10-02' });
+        const search = await listEntries('alice', { q: 'calm walk' });
+
+        expect(tokyo.entries.map(e => e.content)).toEqual(['Walked by the river']);
+        expect(utc.entries).toEqual([]);
+        expect(search.entries.map(e => e.content)).toEqual(['Rainy walk, felt calm']);
+    });
+
+    test('semantic search ranks entries by similarity', async () => {
+        await writeAt('alice', '2025-10-01T08:00:00Z', 'Grateful for my sister Priya');
+        await writeAt('alice', '2025-10-02T08:00:00Z', 'Long day of meetings at work');
+
+        const page = await listEntries('alice', { q: 'my sister Priya', mode: 'semantic' });
+
+        expect(page.entries[0].content).toBe('Grateful for my sister Priya');
+        expect(page.entries[0]).toHaveProperty('similarity');
+        expect(page.next_cursor).toBeNull();
+    });
+
+    test('exports as Markdown, oldest first under day headings, or as JSON', async () => {
+        await writeAt('alice', '2025-10-01T08:00:00Z', 'First entry');
+        await writeAt('alice', '2025-10-01T20:15:00Z', 'Second entry');
+        await writeAt('alice', '2025-10-02T07:00:00Z', 'Third entry');
+
+        const markdown = await exportEntries('alice', {});
+        const json = await exportEntries('alice', { format: 'json', from: '2025-10-02' });
+
+        expect(markdown.contentType).toMatch(/markdown/);
+        expect(markdown.body).toBe(
+            [
+                '# Journal',
+                '',
+                '## Wed 1 Oct 2025',
+                '',
+                '### 08:00',
+                '',
+                'First entry',
+                '',
+                '### 20:15',
+                '',
+                'Second entry',
+                '',
+                '## Thu 2 Oct 2025',
+                '',
+                '### 07:00',
+                '',
+                'Third entry',
+                '',
+            ].join('\n')
+        );
+        expect(JSON.parse(json.body).map((e: { content: string }) => e.content)).toEqual([
+            'Third entry',
+        ]);
+    });
+});
@@ -0,0 +1,87 @@
+import { z } from 'zod';
+import { createFakeProvider, generateObject, setProvider } from '../llm';
+import { fakeEmbedding } from '../llm/fake.provider';
+import { getLLMConfig } from '../config/llm';
+import { detectIntent, INTENTS } from '../services/chat.service';
+
+function cosine(a: number[], b: number[]): number {
+    return a.reduce((sum, value, i) => sum + value * b[i], 0);
+}
+
+describe('LLM provider layer', () => {
+    const fake = createFakeProvider();
+
+    beforeAll(() => setProvider('intent', fake));
+    afterAll(() => setProvider('intent', null));
+    beforeEach(() => fake.reset());
+
+    test('detectIntent uses the structured output of the intent provider', async () => {
+        fake.enqueue(JSON.stringify({ intent: 'list_tasks' }));
+
+        await expect(detectIntent('Show me all my tasks')).resolves.toBe(INTENTS.LIST_TASKS);
+        expect(fake.calls).toHaveLength(1);
+        expect(fake.calls[0].kind).toBe('json');
+        expect(fake.calls[0].messages[1]).toEqual({
+            role: 'user',
+            content: 'Show me all my tasks',
+        });
+    });
+
+    test('detectIntent falls back to smalltalk on invalid model output', async () => {
+        fake.enqueue('not json', JSON.stringify({ intent: 'unknown' }));
+
+        await expect(detectIntent('Hello!')).resolves.toBe(INTENTS.SMALLTALK);
+        await expect(detectIntent('Hello!')).resolves.toBe(INTENTS.SMALLTALK);
+    });
+
+    test('generateObject validates against the Zod schema', async () => {
+        fake.enqueue(JSON.stringify({ content: 'buy milk', due_date: 'tomorrow' }));
+        const schema = z.object({ content: z.string(), due_date: z.string().optional() });
+
+        const result = await generateObject('intent', [], schema, 'test');
+
+        expect(result).toEqual({ content: 'buy milk', due_date: 'tomorrow' });
+        expect(fake.calls[0].schema).toMatchObject({ type: 'object' });
+    });
+
+    test('fake embeddings are deterministic and similarity-preserving', () => {
+        const a = fakeEmbedding('buy groceries tomorrow');
+        const b = fakeEmbedding('buy groceries');
+        const c = fakeEmbedding('call the dentist');
+
+        expect(a).toHaveLength(768);
+        expect(fakeEmbedding('buy groceries tomorrow')).toEqual(a);
+        expect(cosine(a, b)).toBeGreaterThan(cosine(a, c));
+    });
+});
+
+describe('getLLMConfig', () => {
+    const env = process.env;
+
+    beforeEach(() => {
+        process.env = { ...env };
+    });
+    afterAll(() => {
+        process.env = env;
+    });
+
+    test('per-role settings override the global provider', () => {
+        process.env.LLM_PROVIDER = 'groq';
+        process.env.LLM_EMBEDDING_PROVIDER = 'ollama';
+        process.env.LLM_INTENT_MODEL = 'llama-3.3-70b-versatile';
+
+        expect(getLLMConfig('intent')).toMatchObject({
+            provider: 'groq',
+            model: 'llama-3.3-70b-versatile',
+        });
+        expect(getLLMConfig('embedding')).toMatchObject({
+            provider: 'ollama',
+            model: 'nomic-embed-text',
+        });
+    });
+
+    test('rejects unknown providers', () => {
+        process.env.LLM_PROVIDER = 'bard';
+        expect(() => getLLMConfig('chat')).toThrow('Unknown LLM provider');
+    });
+});
@@ -0,0 +1,140 @@
+import { z } from 'zod';
+import { createFakeProvider, setProvider } from '../llm';
+import { compactConversation } from '../memory/compaction';
+import { buildConversationContext, contextToMessages } from '../memory/context';
+import { storeMemory } from '../memory/memories';
+import { createInMemoryRepositories, getRepositories, setRepositories } from '../repositories';
+import {
+    deleteMemory,
+    getMemory,
+    listMemories,
+    purgeMemories,
+    searchMemoryRecords,
+    updateMemory,
+} from '../services/memory.service';
+
+// Memories are stamped with the current time, so each one is written at a chosen instant
+async function storeAt(userId: string, instant: string, content: string, role: 'user' | 'ai') {
+    jest.setSystemTime(new Date(instant));
+    return storeMemory(userId, content, role);
+}
+
+describe('memory management', () => {
+    const fake = createFakeProvider();
+
+    beforeAll(() => {
+        setProvider('embedding', fake);
+        setProvider('chat', fake);
+    });
+    afterAll(() => {
+        setProvider('embedding', null);
+        setProvider('chat', null);
+        setRepositories(null);
+    });
+    beforeEach(() => {
+        fake.reset();
+        jest.useFakeTimers();
+        setRepositories(createInMemoryRepositories());
+    });
+    afterEach(() => jest.useRealTimers());
+
+    test('lists newest first with filters and a cursor, without embeddings', async () => {
+        await storeAt('alice', '2025-10-01T12:00:00Z', 'I moved to Pune', 'user');
+        await storeAt('alice', '2025-10-02T12:00:00Z', 'Pune is lovely', 'ai');
+        await storeAt('alice', '2025-10-03T12:00:00Z', 'I started a new job', 'user');
+        await storeAt('bob', '2025-10-03T12:00:00Z', 'Not yours', 'user');
+
+        const first = await listMemories('alice', { limit: 2 });
+        const second = await listMemories('alice', { limit: 2, cursor: first.next_cursor! });
+        expect(first.memories.map(m => m.content)).toEqual([
+            'I started a new job',
+            'Pune is lovely',
+        ]);
+        expect(second.memories.map(m => m.content)).toEqual(['I moved to Pune']);
+        expect(second.next_cursor).toBeNull();
+        expect(first.memories[0]).not.toHaveProperty('embedding');
+
+        const users = await listMemories('alice', { role: 'user', from: '2025-10-02' });
+        expect(users.memories.map(m => m.content)).toEqual(['I started a new job']);
+        await expect(listMemories('alice', { role: 'system' as 'user' })).rejects.toThrow();
+    });
+
+    test('rejects cursors that would add to the repository filter', async () => {
+        const forged = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+        const cursors = [
+            'nonsense',
+            forged(['2025-10-03T12:00:00Z,pinned.eq.true', 1]),
+            forged(['2025-10-03T12:00:00Z', '1)']),
+        ];
+
+        for (const cursor of cursors) {
+            await expect(listMemories('alice', { cursor })).rejects.toBeInstanceOf(z.ZodError);
+        }
+    });
+
+    test('editing re-embeds the content and other users cannot touch it', async () => {
+        const { id } = await storeAt('alice', '2025-10-01T12:00:00Z', 'I live in Pune', 'user');
+        expect(await updateMemory('bob', id, { pinned: true })).toBeNull();
+        expect(await deleteMemory('bob', id)).toBe(false);
+
+        jest.setSystemTime(new Date('2025-10-02T12:00:00Z'));
+        const updated = await updateMemory('alice', id, { content: 'I live in Mumbai' });
+        expect(updated).toMatchObject({ content: 'I live in Mumbai', pinned: false });
+        expect(updated?.updated_at).toBe('2025-10-02T12:00:00.000Z');
+
+        const [match] = await searchMemoryRecords('alice', { q: 'I live in Mumbai' });
+        expect(match).toMatchObject({ id, content: 'I live in Mumbai' });
+        expect(match.similarity).toBeCloseTo(1);
+
+        await expect(updateMemory('alice', id, {})).rejects.toThrow();
+        expect(await deleteMemory('alice', id)).toBe(true);
+        expect(await getMemory('alice', id)).toBeNull();
+    });
+
+    test('purges a date range but keeps pinned memories unless asked', async () => {
+        const { id: pinnedId } = await storeAt(
+            'alice',
+            '2025-10-01T08:00:00Z',
+            'Allergic to nuts',
+            'user'
+        );
+        await storeAt('alice', '2025-10-01T09:00:00Z', 'Noted', 'ai');
+        await storeAt('alice', '2025-10-05T09:00:00Z', 'Later message', 'user');
+        await updateMemory('alice', pinnedId, { pinned: true });
+
+        await expect(purgeMemories('alice', {})).rejects.toThrow();
+        expect(await purgeMemories('alice', { to: '2025-10-02' })).toBe(1);
+        expect(await getMemory('alice', pinnedId)).not.toBeNull();
+
+        expect(await purgeMemories('alice', { to: '2025-10-02', include_pinned: 'true' })).toBe(1);
+        const left = await listMemories('alice', {});
+        expect(left.memories.map(m => m.content)).toEqual(['Later message']);
+    });
+
+    test('pinned memories are always in the context and survive pruning', async () => {
+        const { id } = await storeAt('alice', '2025-10-01T08:00:00Z', 'Call me Al', 'user');
+        await updateMemory('alice', id, { pinned: true });
+        for (let i = 0; i < 3; i++) {
+            await storeAt('alice', `2025-10-01T09:0${i}:00Z`, `chatter ${i}`, 'user');
+        }
+
+        const context = await buildConversationContext('alice', 'unrelated', {
+            matchThreshold: 0.99,
+            historyMessages: 2,
+        });
+        expect(context.pinned.map(memory => memory.id)).toEqual([id]);
+        expect(context.history.map(message => message.id)).not.toContain(id);
+        expect(contextToMessages('system', context, 'hi')[0].content).toContain('Call me Al');
+
+        fake.enqueue(JSON.stringify({ summary: 'Alice chatted.', topics: ['chat'] }));
+        await compactConversation('alice', {
+            before: '2025-10-02T00:00:00Z',
+            batchSize: 10,
+            minMessages: 2,
+            pruneRaw: true,
+        });
+        const left = await getRepositories().memories.list('alice', { limit: 10 });
+        expect(left.map(memory => memory.id)).toEqual([id]);
+        expect(left[0].summary_id).not.toBeNull();
+    });
+});
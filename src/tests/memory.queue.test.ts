@@ -0,0 +1,202 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { createFakeProvider, LLMProvider, setProvider } from '../llm';
+import { createMemoryQueue } from '../memory/queue';
+import { createInMemoryRepositories, getRepositories, setRepositories } from '../repositories';
+
+describe('memory write queue', () => {
+    const fake = createFakeProvider();
+    let dir: string;
+    let clock: Date;
+    const now = () => clock;
+    const config = () => ({
+        dir,
+        batchSize: 3,
+        flushIntervalMs: 60_000,
+        maxAttempts: 3,
+        retryBaseMs: 1000,
+        retryMaxMs: 10_000,
+    });
+
+    beforeAll(() => setProvider('embedding', fake));
+    afterAll(() => {
+        setProvider('embedding', null);
+        setRepositories(null);
+    });
+    beforeEach(async () => {
+        setRepositories(createInMemoryRepositories());
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'memory-queue-'));
+        clock = new Date('2026-03-01T10:00:00Z');
+    });
+    afterEach(async () => {
+        setProvider('embedding', fake);
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    test('batches embeddings and keeps the time each message was said', async () => {
+        const batches: number[] = [];
+        const counting: LLMProvider = {
+            ...fake,
+            async embed(input, options) {
+                batches.push(input.length);
+                return fake.embed(input, options);
+            },
+        };
+        setProvider('embedding', counting);
+
+        const queue = createMemoryQueue(config(), now);
+        await queue.enqueue('alice', [
+            { role: 'user', content: 'I moved to Lisbon' },
+            { role: 'ai', content: 'Lisbon is lovely' },
+        ]);
+        await queue.enqueue('bob', [{ role: 'user', content: 'I play the cello' }]);
+        clock = new Date('2026-03-01T10:00:02Z');
+        await queue.enqueue('alice', [{ role: 'user', content: 'My cat is called Miso' }]);
+
+        clock = new Date('2026-03-01T10:00:05Z');
+        expect(queue.stats()).toMatchObject({ depth: 4, lag_ms: 5000 });
+
+        expect(await queue.flush()).toBe(4);
+        expect(batches).toEqual([3, 1]);
+        expect(queue.stats()).toMatchObject({ depth: 0, lag_ms: 0, written: 4 });
+
+        const rows = await getRepositories().memories.list('alice', { limit: 10 });
+        expect(rows.map(row => [row.role, row.content, row.created_at])).toEqual([
+            ['user', 'My cat is called Miso', '2026-03-01T10:00:02.000Z'],
+            ['ai', 'Lisbon is lovely', '2026-03-01T10:00:00.001Z'],
+            ['user', 'I moved to Lisbon', '2026-03-01T10:00:00.000Z'],
+        ]);
+        expect(rows[0].embedding_version).toBe('nomic-embed-text@768');
+    });
+
+    test('retries with backoff and dead-letters messages that keep failing', async () => {
+        const failing: LLMProvider = {
+            ...fake,
+            async embed() {
+                throw new Error('embedding server unavailable');
+            },
+        };
+        setProvider('embedding', failing);
+
+        const queue = createMemoryQueue(config(), now);
+        await queue.enqueue('alice', [{ role: 'user', content: 'Remember the milk' }]);
+
+        expect(await queue.flush()).toBe(0);
+        expect(queue.stats()).toMatchObject({
+            depth: 1,
+            retrying: 1,
+            last_error: 'embedding server unavailable',
+        });
+        // Not due again until the first backoff has passed
+        clock = new Date('2026-03-01T10:00:00.999Z');
+        await queue.flush();
+        expect(queue.stats().retrying).toBe(1);
+
+        clock = new Date('2026-03-01T10:00:01Z');
+        await queue.flush();
+        clock = new Date('2026-03-01T10:00:02.999Z');
+        await queue.flush();
+        expect(queue.stats()).toMatchObject({ depth: 1, dead_lettered: 0 });
+
+        clock = new Date('2026-03-01T10:00:03Z');
+        await queue.flush();
+        expect(queue.stats()).toMatchObject({ depth: 0, dead_lettered: 1 });
+
+        const dead = (await fs.readFile(path.join(dir, 'dead-letter.jsonl'), 'utf8'))
+            .trim()
+            .split('\n')
+            .map(line => JSON.parse(line));
+        expect(dead).toEqual([
+            expect.objectContaining({
+                user_id: 'alice',
+                content: 'Remember the milk',
+                attempts: 3,
+                last_error: 'embedding server unavailable',
+            }),
+        ]);
+    });
+
+    test('a message that cannot be stored does not hold up its batch', async () => {
+        const picky: LLMProvider = {
+            ...fake,
+            async embed(input, options) {
+                if (input.some(text => text.includes('\u0000'))) {
+                    throw new Error('input contains a NUL byte');
+                }
+                return fake.embed(input, options);
+            },
+        };
+        setProvider('embedding', picky);
+
+        const queue = createMemoryQueue(config(), now);
+        await queue.enqueue('alice', [{ role: 'user', content: 'I moved to Lisbon' }]);
+        await queue.enqueue('bob', [{ role: 'user', content: 'broken \u0000 message' }]);
+        await queue.enqueue('carol', [{ role: 'user', content: 'I play the cello' }]);
+
+        expect(await queue.flush()).toBe(2);
+        expect(queue.stats()).toMatchObject({ depth: 1, retrying: 1, written: 2 });
+
+        for (const time of ['10:00:01', '10:00:03']) {
+            clock = new Date(`2026-03-01T${time}Z`);
+            await queue.flush();
+        }
+        expect(queue.stats()).toMatchObject({ depth: 0, written: 2, dead_lettered: 1 });
+        expect(await getRepositories().memories.list('carol', { limit: 10 })).toHaveLength(1);
+
+        const dead = await fs.readFile(path.join(dir, 'dead-letter.jsonl'), 'utf8');
+        expect(dead.trim().split('\n')).toHaveLength(1);
+        expect(JSON.parse(dead).user_id).toBe('bob');
+    });
+
+    test('messages stored while the log cannot be written are not stored again', async () => {
+        const queue = createMemoryQueue(config(), now);
+        await queue.enqueue('alice', [
+            { role: 'user', content: 'I moved to Lisbon' },
+            { role: 'ai', content: 'Lisbon is lovely' },
+        ]);
+        jest.spyOn(fs, 'appendFile').mockRejectedValueOnce(new Error('disk full'));
+        const errors = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+        expect(await queue.flush()).toBe(2);
+        expect(await queue.flush()).toBe(0);
+        errors.mockRestore();
+
+        const restarted = createMemoryQueue(config(), now);
+        await restarted.start();
+        restarted.stop();
+        expect(restarted.stats().depth).toBe(0);
+        expect(await getRepositories().memories.list('alice', { limit: 10 })).toHaveLength(2);
+    });
+
+    test('messages survive a restart', async () => {
+        const failing: LLMProvider = {
+            ...fake,
+            async embed() {
+                throw new Error('embedding server unavailable');
+            },
+        };
+        setProvider('embedding', failing);
+
+        const first = createMemoryQueue(config(), now);
+        await first.enqueue('alice', [{ role: 'user', content: 'I start a new job Monday' }]);
+        await first.enqueue('bob', [{ role: 'user', content: 'I am allergic to peanuts' }]);
+        await first.flush();
+
+        setProvider('embedding', fake);
+        const second = createMemoryQueue(config(), now);
+        await second.start();
+        second.stop();
+        expect(second.stats()).toMatchObject({ depth: 2, retrying: 2 });
+
+        clock = new Date('2026-03-01T10:00:01Z');
+        expect(await second.flush()).toBe(2);
+        expect(await fs.readFile(path.join(dir, 'queue.log'), 'utf8')).toBe('');
+
+        const third = createMemoryQueue(config(), now);
+        await third.start();
+        third.stop();
+        expect(third.stats().depth).toBe(0);
+        expect(await getRepositories().memories.list('bob', { limit: 10 })).toHaveLength(1);
+    });
+});
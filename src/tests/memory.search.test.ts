@@ -0,0 +1,107 @@
+import { MemorySearchMode } from '../config/retrieval';
+import { createFakeProvider, setProvider } from '../llm';
+import { searchMemories, storeMemory } from '../memory/memories';
+import { createInMemoryRepositories, getRepositories, setRepositories } from '../repositories';
+import fixture from './fixtures/memory-search.json';
+
+const NOW = Date.parse('2025-10-20T12:00:00Z');
+const DAY_MS = 86_400_000;
+const TOP_K = 3;
+const THRESHOLD = 0.5;
+
+interface Evaluation {
+    /** Share of expected memories found in the top K */
+    recall: number;
+    /** Mean reciprocal rank of the first expected memory */
+    mrr: number;
+}
+
+// Seeds the fixture oldest first, returning ids by key
+async function seedFixture(userId: string): Promise<Map<number, string>> {
+    const keys = new Map<number, string>();
+    const memories = [...fixture.memories].sort((a, b) => b.days_ago - a.days_ago);
+    for (const memory of memories) {
+        jest.setSystemTime(new Date(NOW - memory.days_ago * DAY_MS));
+        const { id } = await storeMemory(userId, memory.content, memory.role as 'user' | 'ai');
+        keys.set(id, memory.key);
+    }
+    jest.setSystemTime(new Date(NOW));
+    return keys;
+}
+
+async function evaluate(
+    userId: string,
+    keys: Map<number, string>,
+    mode: MemorySearchMode
+): Promise<Evaluation> {
+    let found = 0;
+    let expected = 0;
+    let reciprocalRanks = 0;
+
+    for (const testCase of fixture.cases) {
+        const rows = await searchMemories(userId, testCase.query, {
+            mode,
+            matchThreshold: THRESHOLD,
+            matchCount: TOP_K,
+        });
+        const ranked = rows.map(row => keys.get(row.id));
+        expected += testCase.expected.length;
+        found += testCase.expected.filter(key => ranked.includes(key)).length;
+        const first = ranked.findIndex(key => key && testCase.expected.includes(key));
+        reciprocalRanks += first >= 0 ? 1 / (first + 1) : 0;
+    }
+    return { recall: found / expected, mrr: reciprocalRanks / fixture.cases.length };
+}
+
+describe('hybrid memory search', () => {
+    const fake = createFakeProvider();
+
+    beforeAll(() => setProvider('embedding', fake));
+    afterAll(() => {
+        setProvider('embedding', null);
+        setRepositories(null);
+    });
+    beforeEach(() => {
+        jest.useFakeTimers();
+        setRepositories(createInMemoryRepositories());
+    });
+    afterEach(() => jest.useRealTimers());
+
+    test('beats vector search on the evaluation fixture', async () => {
+        const keys = await seedFixture('alice');
+
+        const vector = await evaluate('alice', keys, 'vector');
+        const hybrid = await evaluate('alice', keys, 'hybrid');
+
+        expect(hybrid.recall).toBeGreaterThan(vector.recall);
+        expect(hybrid.mrr).toBeGreaterThan(vector.mrr);
+        expect(hybrid.recall).toBeGreaterThanOrEqual(0.9);
+    });
+
+    test('finds exact names and prefers recent messages', async () => {
+        const keys = await seedFixture('alice');
+
+        const rows = await searchMemories('alice', 'Priya', { mode: 'hybrid', matchCount: 2 });
+        expect(rows.map(row => keys.get(row.id))).toEqual(['sister_visit', 'sister']);
+        expect(await searchMemories('alice', 'Priya', { mode: 'vector' })).toEqual([]);
+    });
+
+    test('filters by role, date range and conversation', async () => {
+        const keys = await seedFixture('alice');
+        const search = async (options: Parameters<typeof searchMemories>[2]) =>
+            (
+                await searchMemories('alice', 'flight to Delhi', {
+                    matchThreshold: 0.3,
+                    ...options,
+                })
+            ).map(row => keys.get(row.id));
+
+        expect(await search({ role: 'ai' })).toEqual(['flight_reply']);
+        expect(await search({ from: new Date(NOW - 5 * DAY_MS).toISOString() })).toEqual([]);
+
+        const [flightId] = [...keys].find(([, key]) => key === 'flight')!;
+        await getRepositories().memories.markSummarized('alice', [flightId], 7);
+        expect(await search({ summaryId: 7 })).toEqual(['flight']);
+        expect(await searchMemories('bob', 'flight to Delhi', { mode: 'hybrid' })).toEqual([]);
+    });
+});
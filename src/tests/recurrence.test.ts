@@ -0,0 +1,67 @@
+import {
+    describeRecurrence,
+    firstOccurrence,
+    formatRecurrence,
+    nextOccurrence,
+    parseRecurrence,
+} from '../utils/recurrence';
+
+const rrule = (text: string) => {
+    const rule = parseRecurrence(text);
+    return rule && formatRecurrence(rule);
+};
+
+describe('parseRecurrence', () => {
+    test.each([
+        ['daily', 'FREQ=DAILY'],
+        ['every other week', 'FREQ=WEEKLY;INTERVAL=2'],
+        ['every Monday and Thursday', 'FREQ=WEEKLY;BYDAY=MO,TH'],
+        ['weekdays', 'FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR'],
+        ['monthly on the 15th', 'FREQ=MONTHLY;BYMONTHDAY=15'],
+        [
+            'RRULE:FREQ=WEEKLY;BYDAY=fr;UNTIL=20251231T000000Z',
+            'FREQ=WEEKLY;BYDAY=FR;UNTIL=20251231',
+        ],
+    ])('%s', (text, expected) => {
+        expect(rrule(text)).toBe(expected);
+    });
+
+    test('rejects unsupported rules', () => {
+        expect(parseRecurrence('FREQ=WEEKLY;COUNT=3')).toBeNull();
+        expect(parseRecurrence('FREQ=DAILY;BYDAY=MO')).toBeNull();
+        expect(parseRecurrence('FREQ=HOURLY')).toBeNull();
+        expect(parseRecurrence('whenever')).toBeNull();
+    });
+
+    test('describes rules for replies', () => {
+        expect(describeRecurrence(parseRecurrence('every mon, wed and fri')!)).toBe(
+            'every Monday, Wednesday and Friday'
+        );
+        expect(describeRecurrence(parseRecurrence('every 3 days')!)).toBe('every 3 days');
+    });
+});
+
+describe('nextOccurrence', () => {
+    // 2025-10-22 is a Wednesday
+    test.each([
+        ['FREQ=DAILY;INTERVAL=2', '2025-10-22', '2025-10-24'],
+        ['FREQ=WEEKLY', '2025-10-22', '2025-10-29'],
+        ['FREQ=WEEKLY;BYDAY=MO,TH', '2025-10-22', '2025-10-23'],
+        ['FREQ=WEEKLY;BYDAY=MO,TH', '2025-10-23', '2025-10-27'],
+        ['FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH', '2025-10-23', '2025-11-03'],
+        ['FREQ=MONTHLY', '2025-01-31', '2025-02-28'],
+        ['FREQ=MONTHLY;BYMONTHDAY=31', '2025-02-28', '2025-03-31'],
+        ['FREQ=MONTHLY;BYMONTHDAY=15', '2025-10-10', '2025-10-15'],
+        ['FREQ=DAILY;UNTIL=20251022', '2025-10-22', null],
+    ])('%s after %s', (text, after, expected) => {
+        expect(nextOccurrence(parseRecurrence(text)!, after)).toBe(expected);
+    });
+
+    test('firstOccurrence includes the start date', () => {
+        expect(firstOccurrence(parseRecurrence('every wednesday')!, '2025-10-22')).toBe(
+            '2025-10-22'
+        );
+        expect(firstOccurrence(parseRecurrence('every friday')!, '2025-10-22')).toBe('2025-10-24');
+        expect(firstOccurrence(parseRecurrence('daily')!, '2025-10-22')).toBe('2025-10-22');
+    });
+});
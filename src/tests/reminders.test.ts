@@ -0,0 +1,210 @@
+import {
+    createInMemoryRepositories,
+    Reminder,
+    Repositories,
+    setRepositories,
+} from '../repositories';
+import { createReminderScheduler, ReminderDelivery } from '../reminders';
+import { completeTask, createTask, updateTask } from '../services/task.service';
+
+function recordingDelivery(failures = 0): ReminderDelivery & { delivered: Reminder[] } {
+    const delivered: Reminder[] = [];
+    return {
+        channel: 'log',
+        delivered,
+        async deliver(reminder) {
+            if (failures-- > 0) throw new Error('offline');
+            delivered.push(reminder);
+        },
+    };
+}
+
+// Wednesday 22 October 2025, 08:00 UTC
+const start = new Date('2025-10-22T08:00:00Z');
+const minutes = (n: number) => new Date(start.getTime() + n * 60_000);
+
+describe('reminders', () => {
+    let repos: Repositories;
+    const context = { timeZone: 'UTC', now: start };
+
+    beforeEach(() => {
+        repos = createInMemoryRepositories();
+        setRepositories(repos);
+    });
+    afterAll(() => setRepositories(null));
+
+    test('remind_at is the lead time before a timed task and the default time otherwise', async () => {
+        const timed = await createTask(
+            'alice',
+            { content: 'call', due_date: '2025-10-22', due_time: '10:00' },
+            context
+        );
+        const dated = await createTask(
+            'alice',
+            { content: 'pay', due_date: '2025-10-23' },
+            context
+        );
+        const past = await createTask('alice', { content: 'old', due_date: '2025-10-01' }, context);
+
+        expect(timed.remind_at).toBe('2025-10-22T09:45:00.000Z');
+        expect(dated.remind_at).toBe('2025-10-23T09:00:00.000Z');
+        expect(past.remind_at).toBeNull();
+
+        const moved = await updateTask('alice', timed.id, { due_time: '12:00' }, context);
+        expect(moved?.remind_at).toBe('2025-10-22T11:45:00.000Z');
+        const done = await updateTask('alice', timed.id, { status: 'completed' }, context);
+        expect(done?.remind_at).toBeNull();
+    });
+
+    test('fires each reminder once, including across a restart', async () => {
+        const task = await createTask(
+            'alice',
+            { content: 'standup', due_date: '2025-10-22', due_time: '09:00' },
+            context
+        );
+        const delivery = recordingDelivery();
+        const options = { delivery, pollIntervalMs: 1000, maxAttempts: 3 };
+
+        const before = createReminderScheduler({ ...options, now: () => minutes(30) });
+        expect(await before.tick()).toBe(0);
+
+        const first = createReminderScheduler({ ...options, now: () => minutes(50) });
+        expect(await first.tick()).toBe(1);
+        expect(await first.tick()).toBe(0);
+
+        // A second process, or a restart that finds the task still holding its remind_at
+        await repos.tasks.update('alice', task.id, { remind_at: '2025-10-22T08:45:00.000Z' });
+        const restarted = createReminderScheduler({ ...options, now: () => minutes(55) });
+        expect(await restarted.tick()).toBe(0);
+
+        expect(delivery.delivered.map(r => r.content)).toEqual(['standup']);
+        const [inbox] = await repos.reminders.list('alice', { unreadOnly: true, limit: 10 });
+        expect(inbox).toMatchObject({ task_id: task.id, channel: 'log', attempts: 1 });
+        expect(inbox.delivered_at).toEqual(expect.any(String));
+    });
+
+    test('retries failed deliveries up to maxAttempts', async () => {
+        await createTask(
+            'alice',
+            { content: 'gym', due_date: '2025-10-22', due_time: '09:00' },
+            context
+        );
+        const delivery = recordingDelivery(1);
+        const scheduler = createReminderScheduler({
+            delivery,
+            pollIntervalMs: 1000,
+            maxAttempts: 3,
+            now: () => minutes(50),
+        });
+
+        expect(await scheduler.tick()).toBe(0);
+        expect(await scheduler.tick()).toBe(1);
+        expect(delivery.delivered).toHaveLength(1);
+        const [reminder] = await repos.reminders.list('alice', { limit: 10 });
+        expect(reminder.attempts).toBe(2);
+    });
+
+    test('a reminder being delivered is only retried once its lease runs out', async () => {
+        await createTask(
+            'alice',
+            { content: 'dentist', due_date: '2025-10-22', due_time: '09:00' },
+            context
+        );
+        const options = { pollIntervalMs: 1000, maxAttempts: 3 };
+
+        // A process that claims the reminder and then stalls, or dies, mid-delivery
+        const stalled = createReminderScheduler({
+            ...options,
+            delivery: { channel: 'log', deliver: () => new Promise<void>(() => undefined) },
+            now: () => minutes(50),
+        });
+        void stalled.tick();
+        await new Promise(resolve => setImmediate(resolve));
+
+        const delivery = recordingDelivery();
+        const other = createReminderScheduler({ ...options, delivery, now: () => minutes(51) });
+        expect(await other.tick()).toBe(0);
+
+        const later = createReminderScheduler({ ...options, delivery, now: () => minutes(56) });
+        expect(await later.tick()).toBe(1);
+        expect(delivery.delivered.map(r => r.content)).toEqual(['dentist']);
+        const [reminder] = await repos.reminders.list('alice', { limit: 10 });
+        expect(reminder).toMatchObject({ attempts: 2, locked_until: null });
+    });
+
+    test('a reminder rescheduled while the old one fires is kept', async () => {
+        const task = await createTask(
+            'alice',
+            { content: 'pharmacy', due_date: '2025-10-22', due_time: '09:00' },
+            context
+        );
+        const claim = repos.reminders.claim.bind(repos.reminders);
+        jest.spyOn(repos.reminders, 'claim').mockImplementationOnce(async (...args) => {
+            const reminder = await claim(...args);
+            await repos.tasks.update('alice', task.id, { remind_at: '2025-10-22T10:45:00.000Z' });
+            return reminder;
+        });
+        const delivery = recordingDelivery();
+        const options = { delivery, pollIntervalMs: 1000, maxAttempts: 3 };
+
+        const first = createReminderScheduler({ ...options, now: () => minutes(50) });
+        expect(await first.tick()).toBe(1);
+        expect((await repos.tasks.get('alice', task.id))?.remind_at).toBe(
+            '2025-10-22T10:45:00.000Z'
+        );
+        const rescheduled = createReminderScheduler({ ...options, now: () => minutes(170) });
+        expect(await rescheduled.tick()).toBe(1);
+        expect(delivery.delivered.map(r => r.remind_at)).toEqual([
+            '2025-10-22T08:45:00.000Z',
+            '2025-10-22T10:45:00.000Z',
+        ]);
+    });
+
+    test('marks reminders read for their owner only', async () => {
+        await createTask(
+            'alice',
+            { content: 'gym', due_date: '2025-10-22', due_time: '09:00' },
+            context
+        );
+        await createReminderScheduler({
+            delivery: recordingDelivery(),
+            pollIntervalMs: 1000,
+            maxAttempts: 3,
+            now: () => minutes(50),
+        }).tick();
+        const [reminder] = await repos.reminders.list('alice', { limit: 10 });
+
+        expect(await repos.reminders.markRead('bob', reminder.id)).toBeNull();
+        expect((await repos.reminders.markRead('alice', reminder.id))?.read_at).toEqual(
+            expect.any(String)
+        );
+        expect(await repos.reminders.list('alice', { unreadOnly: true, limit: 10 })).toEqual([]);
+    });
+
+    test('completing a recurring task creates the next occurrence', async () => {
+        const task = await createTask(
+            'alice',
+            {
+                content: 'water plants',
+                due_date: '2025-10-20',
+                due_time: '18:00',
+                recurrence: 'every Monday and Thursday',
+            },
+            context
+        );
+
+        const result = await completeTask('alice', task.id, context);
+
+        expect(result?.task.status).toBe('completed');
+        // The 23rd is the first Monday/Thursday after the 20th that isn't in the past
+        expect(result?.next).toMatchObject({
+            content: 'water plants',
+            status: 'pending',
+            due_date: '2025-10-23',
+            due_time: '18:00',
+            recurrence: 'FREQ=WEEKLY;BYDAY=MO,TH',
+            remind_at: '2025-10-23T17:45:00.000Z',
+        });
+        expect((await completeTask('alice', task.id, context))?.next).toBeNull();
+    });
+});
@@ -0,0 +1,163 @@
+import { createFakeProvider, setProvider } from '../llm';
+import { searchMemories, storeMemory } from '../memory/memories';
+import { createInMemoryRepositories, Repositories, setRepositories } from '../repositories';
+import { TaskFields } from '../models/task.model';
+import { handleLoadMessage, handleMessage } from '../services/chat.service';
+
+process.env.INTENT_FAST_PATH_ENABLED = 'false';
+
+function taskFields(fields: Partial<TaskFields>): TaskFields {
+    return {
+        content: 'task',
+        description: null,
+        status: 'pending',
+        priority: 'medium',
+        tags: [],
+        due_date: null,
+        due_time: null,
+        recurrence: null,
+        remind_at: null,
+        completed_at: null,
+        ...fields,
+    };
+}
+
+describe('in-memory repositories', () => {
+    let repos: Repositories;
+
+    beforeEach(() => {
+        repos = createInMemoryRepositories();
+    });
+
+    test('tasks are scoped to their owner', async () => {
+        const task = await repos.tasks.create('alice', taskFields({ content: 'buy milk' }));
+        await repos.tasks.create('bob', taskFields({ content: 'walk the dog' }));
+
+        expect(await repos.tasks.list('alice')).toEqual([task]);
+        expect(await repos.tasks.get('bob', task.id)).toBeNull();
+        expect(await repos.tasks.update('bob', task.id, { content: 'hijacked' })).toBeNull();
+
+        await repos.tasks.delete('bob', task.id);
+        expect(await repos.tasks.get('alice', task.id)).toEqual(task);
+    });
+
+    test('update only touches the given fields', async () => {
+        const task = await repos.tasks.create(
+            'alice',
+            taskFields({ content: 'Report', description: 'Q3' })
+        );
+
+        const updated = await repos.tasks.update('alice', task.id, {
+            content: undefined,
+            status: 'completed',
+        });
+
+        expect(updated).toMatchObject({
+            content: 'Report',
+            description: 'Q3',
+            status: 'completed',
+        });
+    });
+
+    test('list applies filters, sort and limit', async () => {
+        const report = await repos.tasks.create(
+            'alice',
+            taskFields({
+                content: 'Write report',
+                priority: 'urgent',
+                tags: ['work'],
+                due_date: '2025-10-24',
+            })
+        );
+        const dentist = await repos.tasks.create(
+            'alice',
+            taskFields({ content: 'Dentist', priority: 'high', due_date: '2025-10-21' })
+        );
+        const groceries = await repos.tasks.create(
+            'alice',
+            taskFields({ content: 'Groceries', description: 'milk, eggs', status: 'completed' })
+        );
+        const base = { sort: 'created_at' as const };
+
+        const byDue = await repos.tasks.list('alice', { sort: 'due_date' });
+        expect(byDue.map(t => t.id)).toEqual([dentist.id, report.id, groceries.id]);
+
+        const byPriority = await repos.tasks.list('alice', { sort: 'priority', limit: 2 });
+        expect(byPriority.map(t => t.id)).toEqual([report.id, dentist.id]);
+
+        const open = await repos.tasks.list('alice', { ...base, status: ['pending'] });
+        expect(open.map(t => t.id)).toEqual([dentist.id, report.id]);
+
+        const thisWeek = await repos.tasks.list('alice', {
+            ...base,
+            due_from: '2025-10-22',
+            due_to: '2025-10-26',
+        });
+        expect(thisWeek).toEqual([report]);
+
+        expect(await repos.tasks.list('alice', { ...base, tag: 'work' })).toEqual([report]);
+        expect(await repos.tasks.list('alice', { ...base, search: 'EGGS' })).toEqual([groceries]);
+    });
+
+    test('memory matching ranks by cosine similarity above the threshold', async () => {
+        await repos.memories.insert('alice', 'a', 'user', [1, 0], 'test@2');
+        await repos.memories.insert('alice', 'b', 'user', [0.6, 0.8], 'test@2');
+        await repos.memories.insert('alice', 'c', 'user', [0, 1], 'test@2');
+        await repos.memories.insert('bob', 'd', 'user', [1, 0], 'test@2');
+
+        const rows = await repos.memories.match('alice', {
+            embedding: [1, 0],
+            threshold: 0.5,
+            count: 8,
+        });
+
+        expect(rows.map(row => row.content)).toEqual(['a', 'b']);
+        expect(rows[1].similarity).toBeCloseTo(0.6);
+    });
+});
+
+describe('chat pipeline without Supabase or a model server', () => {
+    const fake = createFakeProvider();
+
+    beforeAll(() => {
+        setProvider('intent', fake);
+        setProvider('embedding', fake);
+    });
+    afterAll(() => {
+        setProvider('intent', null);
+        setProvider('embedding', null);
+        setRepositories(null);
+    });
+    beforeEach(() => {
+        fake.reset();
+        setRepositories(createInMemoryRepositories());
+    });
+
+    test('adds and lists tasks', async () => {
+        fake.enqueue(
+            JSON.stringify({ intent: 'add_task' }),
+            JSON.stringify({ content: 'buy groceries' }),
+            JSON.stringify({ intent: 'list_tasks' })
+        );
+
+        const added = await handleMessage('alice', 'Add a task to buy groceries');
+        const listed = await handleMessage('alice', 'Show me all my tasks');
+
+        expect(added.reply).toBe('Task added: "buy groceries"');
+        expect(listed.reply).toBe('Here are your tasks:\n- buy groceries');
+        expect(listed.optional_data.tasks[0].id).toBe(added.optional_data.task_id);
+    });
+
+    test('stores, searches and loads memories', async () => {
+        await storeMemory('alice', 'My sister is called Priya', 'user');
+        await storeMemory('alice', 'I prefer tea over coffee', 'user');
+
+        const matches = await searchMemories('alice', 'what is my sister called', {
+            matchThreshold: 0.3,
+        });
+        const loaded = await handleLoadMessage('alice');
+
+        expect(matches[0].content).toBe('My sister is called Priya');
+        expect(loaded.optional_data.messages).toHaveLength(2);
+    });
+});
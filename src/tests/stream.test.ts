@@ -0,0 +1,124 @@
+import express from 'express';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import chatRoutes from '../routes/chat';
+import { createFakeProvider, LLMProvider, setProvider } from '../llm';
+import { createInMemoryRepositories, Repositories, setRepositories } from '../repositories';
+
+process.env.INTENT_FAST_PATH_ENABLED = 'false';
+
+interface SseEvent {
+    event: string;
+    data: Record<string, unknown>;
+}
+
+function parseEvents(body: string): SseEvent[] {
+    return body
+        .split('\n\n')
+        .filter(Boolean)
+        .map(block => {
+            const [eventLine, dataLine] = block.split('\n');
+            return { event: eventLine.slice(7), data: JSON.parse(dataLine.slice(6)) };
+        });
+}
+
+describe('POST /api/send-message/stream', () => {
+    const fake = createFakeProvider();
+    let chunksStreamed = 0;
+    let server: Server;
+    let baseUrl: string;
+    let repos: Repositories;
+
+    // Counts how far the upstream generation got
+    const countingChat: LLMProvider = {
+        ...fake,
+        async *stream(messages, options) {
+            for await (const chunk of fake.stream(messages, options)) {
+                chunksStreamed++;
+                yield chunk;
+            }
+        },
+    };
+
+    beforeAll(done => {
+        setProvider('intent', fake);
+        setProvider('chat', countingChat);
+        setProvider('embedding', fake);
+        const app = express();
+        app.use(express.json());
+        app.use('/api', chatRoutes);
+        server = app.listen(0, () => {
+            baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+            done();
+        });
+    });
+    afterAll(done => {
+        setProvider('intent', null);
+        setProvider('chat', null);
+        setProvider('embedding', null);
+        setRepositories(null);
+        server.close(done);
+    });
+    beforeEach(() => {
+        fake.reset();
+        chunksStreamed = 0;
+        repos = createInMemoryRepositories();
+        setRepositories(repos);
+    });
+
+    const post = (message: string, signal?: AbortSignal) =>
+        fetch(`${baseUrl}/api/send-message/stream`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', Authorization: 'Bearer alice' },
+            body: JSON.stringify({ message }),
+            signal,
+        });
+
+    test('streams intent, deltas and the final response, then stores the exchange', async () => {
+        fake.enqueue(JSON.stringify({ intent: 'smalltalk' }), 'Hi there, Alice!');
+
+        const res = await post('Hello!');
+        const events = parseEvents(await res.text());
+
+        expect(res.headers.get('content-type')).toContain('text/event-stream');
+        expect(events[0]).toEqual({ event: 'intent', data: { intent: 'smalltalk' } });
+        expect(
+            events
+                .filter(e => e.event === 'delta')
+                .map(e => e.data.text)
+                .join('')
+        ).toBe('Hi there, Alice!');
+        expect(events[events.length - 1]).toEqual({
+            event: 'done',
+            data: {
+                reply: 'Hi there, Alice!',
+                optional_data: { memory_ids: [], summary_ids: [] },
+                metadata: { intent: 'smalltalk', path: 'llm', confidence: null },
+            },
+        });
+
+        await new Promise(resolve => setTimeout(resolve, 50));
+        const stored = await repos.memories.recent('alice', 10);
+        expect(stored.map(m => m.content).sort()).toEqual(['Hello!', 'Hi there, Alice!']);
+    });
+
+    test('aborts generation and stores nothing when the client disconnects', async () => {
+        fake.enqueue(JSON.stringify({ intent: 'smalltalk' }), 'word '.repeat(2000));
+        const controller = new AbortController();
+
+        const res = await post('Tell me something long', controller.signal);
+        const reader = res.body!.getReader();
+        await reader.read();
+        controller.abort();
+
+        await new Promise(resolve => setTimeout(resolve, 200));
+        expect(chunksStreamed).toBeGreaterThan(0);
+        expect(chunksStreamed).toBeLessThan(2000);
+        expect(await repos.memories.recent('alice', 10)).toEqual([]);
+    });
+
+    test('rejects requests without a message', async () => {
+        const res = await post('');
+        expect(res.status).toBe(400);
+    });
+});
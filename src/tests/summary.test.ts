@@ -0,0 +1,139 @@
+import express from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { createFakeProvider, setProvider } from '../llm';
+import { createInMemoryRepositories, Repositories, setRepositories } from '../repositories';
+import summaryRoutes from '../routes/summary.route';
+import { handleMessage } from '../services/chat.service';
+import { createEntry } from '../services/journal.service';
+import { summarize } from '../services/summary.service';
+import { completeTask, createTask } from '../services/task.service';
+
+process.env.INTENT_FAST_PATH_ENABLED = 'false';
+
+// Wednesday 22 October 2025; last week is Monday 13 to Sunday 19 October
+const now = new Date('2025-10-22T10:00:00Z');
+
+function at(instant: string) {
+    jest.setSystemTime(new Date(instant));
+}
+
+describe('summaries', () => {
+    const fake = createFakeProvider();
+    let repos: Repositories;
+
+    beforeAll(() => {
+        setProvider('intent', fake);
+        setProvider('chat', fake);
+        setProvider('embedding', fake);
+    });
+    afterAll(() => {
+        setProvider('intent', null);
+        setProvider('chat', null);
+        setProvider('embedding', null);
+        setRepositories(null);
+    });
+    beforeEach(async () => {
+        jest.useFakeTimers();
+        fake.reset();
+        repos = createInMemoryRepositories();
+        setRepositories(repos);
+
+        at('2025-10-01T09:00:00Z');
+        const old = await createTask('alice', { content: 'File taxes' });
+        at('2025-10-14T09:00:00Z');
+        await createTask('alice', { content: 'Book dentist' });
+        at('2025-10-15T20:00:00Z');
+        await createEntry('alice', { content: 'Tired but the project demo went well' });
+        at('2025-10-16T12:00:00Z');
+        await completeTask('alice', old!.id);
+        at('2025-10-17T08:00:00Z');
+        await repos.memories.insert('alice', 'Remind me to call mum', 'user', [], 'test@0');
+        at('2025-10-21T09:00:00Z');
+        await createTask('alice', { content: 'Outside the period' });
+        await createEntry('bob', { content: 'Not alice' });
+
+        at(now.toISOString());
+    });
+    afterEach(() => jest.useRealTimers());
+
+    test('grounds the summary in the records of the period and reports their ids', async () => {
+        fake.enqueue('You finished filing your taxes and added a dentist visit.');
+
+        const summary = await summarize('alice', { period: 'last week' }, { timeZone: 'UTC' });
+
+        expect(summary.period).toEqual({
+            label: 'last week',
+            from: '2025-10-13',
+            to: '2025-10-19',
+        });
+        expect(summary.summary).toBe('You finished filing your taxes and added a dentist visit.');
+        expect(summary.counts).toEqual({
+            tasks_created: 1,
+            tasks_completed: 1,
+            journal_entries: 1,
+            messages: 1,
+        });
+        expect(summary.sources).toEqual({ task_ids: [2, 1], journal_ids: [1], memory_ids: [1] });
+
+        const prompt = fake.calls[fake.calls.length - 1].messages[1].content;
+        expect(prompt).toContain('[task 1] File taxes (completed');
+        expect(prompt).toContain('[journal 1] Wed 15 Oct 20:00: Tired but the project demo');
+        expect(prompt).not.toContain('Outside the period');
+        expect(prompt).not.toContain('Not alice');
+    });
+
+    test('skips the model when nothing happened and rejects unknown periods', async () => {
+        const summary = await summarize('alice', { period: 'today' }, { timeZone: 'UTC' });
+
+        expect(summary.summary).toBe('Nothing recorded for today.');
+        expect(fake.calls).toHaveLength(0);
+        await expect(summarize('alice', { period: 'overdue' })).rejects.toThrow(
+            'Unrecognized period'
+        );
+    });
+
+    test('answers the summaries intent in chat', async () => {
+        fake.enqueue(
+            JSON.stringify({ intent: 'summaries' }),
+            JSON.stringify({ period: 'last week' }),
+            'A quiet week.'
+        );
+
+        const response = await handleMessage('alice', 'Summarize my last week');
+
+        expect(response.reply).toBe('A quiet week.');
+        expect(response.optional_data.counts.tasks_completed).toBe(1);
+        expect(response.optional_data.sources.journal_ids).toEqual([1]);
+    });
+});
+
+describe('GET /api/summaries', () => {
+    let server: Server;
+    let baseUrl: string;
+
+    beforeAll(done => {
+        setRepositories(createInMemoryRepositories());
+        const app = express();
+        app.use('/api/summaries', summaryRoutes);
+        server = app.listen(0, () => {
+            baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+            done();
+        });
+    });
+    afterAll(done => {
+        setRepositories(null);
+        server.close(done);
+    });
+
+    test('answers an out-of-range period with a 400', async () => {
+        for (const period of ['past 3000000 days', 'next 5000000 days', 'last 100000 days']) {
+            const res = await fetch(
+                `${baseUrl}/api/summaries?period=${encodeURIComponent(period)}`,
+                { headers: { Authorization: 'Bearer alice' } }
+            );
+            expect(res.status).toBe(400);
+            expect(await res.json()).toMatchObject({ error: 'Invalid summary period' });
+        }
+    });
+});
@@ -0,0 +1,115 @@
+import { createFakeProvider, setProvider } from '../llm';
+import { createInMemoryRepositories, Repositories, setRepositories } from '../repositories';
+import { handleMessage } from '../services/chat.service';
+import { createTask } from '../services/task.service';
+import { clearPendingAction } from '../services/conversation.service';
+
+process.env.INTENT_FAST_PATH_ENABLED = 'false';
+
+const intent = (name: string) => JSON.stringify({ intent: name });
+
+describe('complete, update and reschedule intents', () => {
+    const fake = createFakeProvider();
+    let repos: Repositories;
+
+    beforeAll(() => {
+        setProvider('intent', fake);
+        setProvider('embedding', fake);
+    });
+    afterAll(() => {
+        setProvider('intent', null);
+        setProvider('embedding', null);
+        setRepositories(null);
+    });
+    beforeEach(() => {
+        fake.reset();
+        clearPendingAction('alice');
+        repos = createInMemoryRepositories();
+        setRepositories(repos);
+    });
+
+    test('marks a task as done', async () => {
+        const task = await createTask('alice', { content: 'buy groceries' });
+        fake.enqueue(intent('complete_task'), JSON.stringify({ task_description: 'groceries' }));
+
+        const response = await handleMessage('alice', 'Mark groceries as done');
+
+        expect(response.reply).toBe('Marked "buy groceries" as done.');
+        const stored = await repos.tasks.get('alice', task.id);
+        expect(stored?.status).toBe('completed');
+        expect(stored?.completed_at).toEqual(expect.any(String));
+    });
+
+    test('says so when the task is gone before it can be completed', async () => {
+        const task = await createTask('alice', { content: 'buy groceries' });
+        jest.spyOn(repos.tasks, 'update').mockResolvedValueOnce(null);
+        fake.enqueue(intent('complete_task'), JSON.stringify({ task_description: 'groceries' }));
+
+        const response = await handleMessage('alice', 'Mark groceries as done');
+
+        expect(response.reply).toBe(`I couldn't find task ${task.id}.`);
+        expect(response.optional_data).toBeUndefined();
+    });
+
+    test('renames a task by id', async () => {
+        const task = await createTask('alice', { content: 'call mom' });
+        fake.enqueue(
+            intent('update_task'),
+            JSON.stringify({ task_id: task.id, new_content: 'call dad' })
+        );
+
+        const response = await handleMessage('alice', `Rename task ${task.id} to call dad`);
+
+        expect(response.reply).toBe(`Task ${task.id} updated: "call dad"`);
+        expect((await repos.tasks.get('alice', task.id))?.content).toBe('call dad');
+    });
+
+    test('asks for the new due date when it is missing', async () => {
+        const task = await createTask('alice', { content: 'dentist appointment' });
+        fake.enqueue(intent('reschedule_task'), JSON.stringify({ task_description: 'dentist' }));
+
+        const question = await handleMessage('alice', 'Move the dentist task');
+        const answer = await handleMessage('alice', '2025-10-24');
+
+        expect(question.reply).toBe(
+            'When should it be due? (e.g. tomorrow 6pm, next Monday, 27 Oct)'
+        );
+        expect(answer.reply).toBe('"dentist appointment" is now due Fri 24 Oct.');
+        expect((await repos.tasks.get('alice', task.id))?.due_date).toBe('2025-10-24');
+    });
+
+    test('lists open tasks grouped by due date', async () => {
+        const today = new Date().toISOString().slice(0, 10);
+        const inAMonth = new Date(Date.now() + 30 * 86_400_000).toISOString().slice(0, 10);
+        await createTask('alice', { content: 'pay rent', due_date: '2020-01-01' });
+        await createTask('alice', { content: 'call mom', due_date: today });
+        await createTask('alice', { content: 'renew passport', due_date: inAMonth });
+        await createTask('alice', { content: 'old chore', status: 'completed' });
+        fake.enqueue(intent('list_tasks'), JSON.stringify({ status: 'incomplete' }));
+
+        const response = await handleMessage('alice', 'Show my incomplete tasks');
+
+        expect(response.reply).toMatch(
+            /^Here are your matching tasks:\nOverdue:\n- pay rent .*\n\nToday:\n- call mom .*\n\nUpcoming:\n- renew passport .*$/
+        );
+        expect(response.optional_data.tasks).toHaveLength(3);
+        expect(Object.keys(response.optional_data.groups)).toEqual([
+            'overdue',
+            'today',
+            'upcoming',
+        ]);
+    });
+
+    test('adds a recurring task starting on its first occurrence', async () => {
+        fake.enqueue(
+            intent('add_task'),
+            JSON.stringify({ content: 'water plants', recurrence: 'every day' })
+        );
+
+        const response = await handleMessage('alice', 'Water the plants every day');
+
+        expect(response.reply).toMatch(/^Task added: "water plants" due .+, repeats every day$/);
+        const task = await repos.tasks.get('alice', response.optional_data.task_id);
+        expect(task).toMatchObject({ recurrence: 'FREQ=DAILY', due_date: expect.any(String) });
+    });
+});
@@ -0,0 +1,139 @@
+import { createFakeProvider, setProvider } from '../llm';
+import { Task } from '../models/task.model';
+import { resolveTaskChoice, resolveTaskReference } from '../services/task.resolver';
+
+const now = new Date('2025-10-22T12:00:00.000Z');
+
+function task(id: number, content: string, createdAt: string): Task {
+    return {
+        id,
+        user_id: 'alice',
+        content,
+        description: null,
+        status: 'pending',
+        priority: 'medium',
+        tags: [],
+        due_date: null,
+        due_time: null,
+        recurrence: null,
+        remind_at: null,
+        completed_at: null,
+        created_at: createdAt,
+        updated_at: createdAt,
+    };
+}
+
+const tasks = [
+    task(1, 'Grocery shopping', '2025-10-20T09:00:00.000Z'),
+    task(2, 'Call mom', '2025-10-21T08:00:00.000Z'),
+    task(3, 'Meeting John at 3 PM', '2025-10-21T10:00:00.000Z'),
+    task(4, 'Finish the project report', '2025-10-22T07:00:00.000Z'),
+    task(5, 'Review the project budget', '2025-10-22T08:00:00.000Z'),
+];
+
+describe('resolveTaskReference', () => {
+    beforeAll(() => setProvider('embedding', createFakeProvider()));
+    afterAll(() => setProvider('embedding', null));
+
+    const resolve = (task_description: string, message = task_description) =>
+        resolveTaskReference(tasks, { task_description }, message, { now, timeZone: 'UTC' });
+
+    test('matches descriptions fuzzily', async () => {
+        await expect(resolve('the grocery shopping task')).resolves.toMatchObject({
+            status: 'resolved',
+            task: { id: 1 },
+        });
+        await expect(resolve('meting with john')).resolves.toMatchObject({
+            status: 'resolved',
+            task: { id: 3 },
+        });
+    });
+
+    test('resolves relative references', async () => {
+        await expect(resolve('the last one')).resolves.toMatchObject({ task: { id: 5 } });
+        await expect(resolve('the task I just created')).resolves.toMatchObject({
+            task: { id: 5 },
+        });
+        await expect(resolve('the first task')).resolves.toMatchObject({ task: { id: 1 } });
+        await expect(resolve("yesterday's call task")).resolves.toMatchObject({
+            task: { id: 2 },
+        });
+    });
+
+    test('ordinal and day words in a task name are part of the description', async () => {
+        const named = [...tasks, task(6, 'Restock the first aid kit', '2025-10-22T09:00:00.000Z')];
+        await expect(
+            resolveTaskReference(
+                named,
+                { task_description: 'first aid kit' },
+                'delete first aid kit',
+                {
+                    now,
+                }
+            )
+        ).resolves.toMatchObject({ status: 'resolved', task: { id: 6 } });
+        await expect(
+            resolveTaskReference(
+                named,
+                { task_description: 'aid kit' },
+                'delete the first aid kit',
+                {
+                    now,
+                }
+            )
+        ).resolves.toMatchObject({ status: 'resolved', task: { id: 6 } });
+    });
+
+    test("counts today and yesterday in the user's timezone", async () => {
+        // 12:00 UTC is 02:00 in Honolulu, where tasks 4 and 5 were created the evening before
+        const inHonolulu = (task_description: string) =>
+            resolveTaskReference(tasks, { task_description }, task_description, {
+                now,
+                timeZone: 'Pacific/Honolulu',
+            });
+        await expect(inHonolulu('the task I added yesterday')).resolves.toMatchObject({
+            status: 'ambiguous',
+            candidates: [{ id: 3 }, { id: 4 }, { id: 5 }],
+        });
+        await expect(inHonolulu("today's task")).resolves.toEqual({ status: 'not_found' });
+    });
+
+    test('reports ambiguity with candidates', async () => {
+        const result = await resolve('the project task');
+        expect(result.status).toBe('ambiguous');
+        if (result.status === 'ambiguous') {
+            expect(result.candidates.map(t => t.id).sort()).toEqual([4, 5]);
+        }
+
+        const yesterday = await resolve('the task I added yesterday');
+        expect(yesterday).toMatchObject({ status: 'ambiguous' });
+    });
+
+    test('uses explicit ids and reports unknown tasks', async () => {
+        await expect(
+            resolveTaskReference(tasks, { task_id: 2 }, 'delete task 2', { now })
+        ).resolves.toMatchObject({ task: { id: 2 } });
+        await expect(resolve('walk the dog')).resolves.toEqual({ status: 'not_found' });
+    });
+});
+
+describe('resolveTaskChoice', () => {
+    beforeAll(() => setProvider('embedding', createFakeProvider()));
+    afterAll(() => setProvider('embedding', null));
+
+    const candidates = [tasks[3], tasks[4]];
+
+    test('accepts ids, positions and descriptions', async () => {
+        await expect(resolveTaskChoice(candidates, '5')).resolves.toMatchObject({ id: 5 });
+        await expect(resolveTaskChoice(candidates, 'the second one')).resolves.toMatchObject({
+            id: 5,
+        });
+        await expect(resolveTaskChoice(candidates, 'the last one')).resolves.toMatchObject({
+            id: 5,
+        });
+        await expect(resolveTaskChoice(candidates, 'the report')).resolves.toMatchObject({
+            id: 4,
+        });
+        await expect(resolveTaskChoice(candidates, '2')).resolves.toBeNull();
+    });
+});
@@ -0,0 +1,61 @@
+import { z } from 'zod';
+import { createInMemoryRepositories, setRepositories } from '../repositories';
+import { createTask, updateTask } from '../services/task.service';
+
+describe('task service', () => {
+    beforeEach(() => setRepositories(createInMemoryRepositories()));
+    afterAll(() => setRepositories(null));
+
+    test('fills defaults on create', async () => {
+        const task = await createTask('alice', { content: '  Buy milk ', tags: ['Home'] });
+
+        expect(task).toMatchObject({
+            content: 'Buy milk',
+            description: null,
+            status: 'pending',
+            priority: 'medium',
+            tags: ['home'],
+            due_date: null,
+            due_time: null,
+            recurrence: null,
+            remind_at: null,
+            completed_at: null,
+        });
+    });
+
+    test('rejects invalid input', async () => {
+        await expect(createTask('alice', { content: '' })).rejects.toBeInstanceOf(z.ZodError);
+        await expect(
+            createTask('alice', { content: 'x', priority: 'asap' as never })
+        ).rejects.toBeInstanceOf(z.ZodError);
+        await expect(
+            createTask('alice', { content: 'x', due_date: 'next monday' })
+        ).rejects.toBeInstanceOf(z.ZodError);
+        await expect(
+            createTask('alice', { content: 'x', due_time: '09:00' })
+        ).rejects.toBeInstanceOf(z.ZodError);
+        await expect(
+            createTask('alice', { content: 'x', title: 'legacy' } as never)
+        ).rejects.toBeInstanceOf(z.ZodError);
+    });
+
+    test('keeps completed_at in step with the status', async () => {
+        const task = await createTask('alice', { content: 'Report' });
+
+        const done = await updateTask('alice', task.id, { status: 'completed' });
+        expect(done?.completed_at).toEqual(expect.any(String));
+
+        const reopened = await updateTask('alice', task.id, { status: 'pending' });
+        expect(reopened?.completed_at).toBeNull();
+    });
+
+    test('validates updates against the stored task', async () => {
+        const task = await createTask('alice', { content: 'Report' });
+
+        await expect(updateTask('alice', task.id, {})).rejects.toBeInstanceOf(z.ZodError);
+        await expect(updateTask('alice', task.id, { due_time: '10:30' })).rejects.toBeInstanceOf(
+            z.ZodError
+        );
+        await expect(updateTask('bob', task.id, { content: 'Mine now' })).resolves.toBeNull();
+    });
+});
@@ -0,0 +1,35 @@
+import { z } from 'zod';
+
+/**
+ * Keyset cursors for lists ordered newest first: the created_at and id of the last row of a
+ * page, base64url-encoded. Repositories build their filters from the decoded values, so both
+ * are checked strictly on the way back in.
+ */
+export interface Cursor {
+    created_at: string;
+    id: number;
+}
+
+const cursorSchema = z.tuple([z.string().datetime({ offset: true }), z.number().int().positive()]);
+
+export function encodeCursor(row: Cursor): string {
+    return Buffer.from(JSON.stringify([row.created_at, row.id])).toString('base64url');
+}
+
+/**
+ * Throws a ZodError on the cursor path for anything encodeCursor did not produce
+ */
+export function decodeCursor(cursor: string): Cursor {
+    try {
+        const parsed = cursorSchema.safeParse(
+            JSON.parse(Buffer.from(cursor, 'base64url').toString())
+        );
+        if (parsed.success) {
+            const [created_at, id] = parsed.data;
+            return { created_at, id };
+        }
+    } catch {
+        // fall through
+    }
+    throw new z.ZodError([{ code: 'custom', path: ['cursor'], message: 'Invalid cursor' }]);
+}
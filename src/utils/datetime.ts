@@ -0,0 +1,143 @@
+/**
+ * Calendar helpers for due dates. Dates are plain 'YYYY-MM-DD' strings and times 'HH:MM',
+ * both in the user's own timezone; arithmetic is done on UTC midnights so DST never shifts
+ * a day.
+ */
+
+export const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+export const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const DEFAULT_TIMEZONE = 'UTC';
+
+export interface ZonedDateTime {
+    date: string;
+    time: string;
+    /** 0 = Sunday */
+    weekday: number;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * The user's timezone if it is a valid IANA name, otherwise DEFAULT_TIMEZONE or UTC
+ */
+export function resolveTimeZone(preferred?: string | null): string {
+    if (preferred && isValidTimeZone(preferred)) return preferred;
+    const fallback = process.env.DEFAULT_TIMEZONE;
+    return fallback && isValidTimeZone(fallback) ? fallback : DEFAULT_TIMEZONE;
+}
+
+function pad(value: number): string {
+    return String(value).padStart(2, '0');
+}
+
+function fromUtcDate(date: Date): string {
+    return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+}
+
+function toUtcDate(date: string): Date {
+    const [year, month, day] = date.split('-').map(Number);
+    return new Date(Date.UTC(year, month - 1, day));
+}
+
+export function isValidDate(date: string): boolean {
+    return ISO_DATE_PATTERN.test(date) && fromUtcDate(toUtcDate(date)) === date;
+}
+
+export function makeDate(year: number, month: number, day: number): string | null {
+    const date = `${year}-${pad(month)}-${pad(day)}`;
+    return isValidDate(date) ? date : null;
+}
+
+export function addDays(date: string, days: number): string {
+    const value = toUtcDate(date);
+    value.setUTCDate(value.getUTCDate() + days);
+    return fromUtcDate(value);
+}
+
+/**
+ * Add calendar months, clamping to the last day of the target month (31 Jan + 1 = 28/29 Feb)
+ */
+export function addMonths(date: string, months: number): string {
+    const [year, month, day] = date.split('-').map(Number);
+    const first = new Date(Date.UTC(year, month - 1 + months, 1));
+    const lastDay = new Date(
+        Date.UTC(first.getUTCFullYear(), first.getUTCMonth() + 1, 0)
+    ).getUTCDate();
+    first.setUTCDate(Math.min(day, lastDay));
+    return fromUtcDate(first);
+}
+
+export function weekdayOf(date: string): number {
+    return toUtcDate(date).getUTCDay();
+}
+
+/** Monday of the week containing date */
+export function startOfWeek(date: string): string {
+    return addDays(date, -((weekdayOf(date) + 6) % 7));
+}
+
+export function startOfMonth(date: string): string {
+    return `${date.slice(0, 8)}01`;
+}
+
+export function endOfMonth(date: string): string {
+    return addDays(addMonths(startOfMonth(date), 1), -1);
+}
+
+/**
+ * Wall-clock date, time and weekday of an instant in the given timezone
+ */
+export function zonedDateTime(instant: Date, timeZone: string): ZonedDateTime {
+    const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+        hourCycle: 'h23',
+    }).formatToParts(instant);
+    const part = (type: string) => parts.find(p => p.type === type)?.value ?? '00';
+
+    const date = `${part('year')}-${part('month')}-${part('day')}`;
+    return { date, time: `${part('hour')}:${part('minute')}`, weekday: weekdayOf(date) };
+}
+
+function offsetMinutes(instant: Date, timeZone: string): number {
+    const { date, time } = zonedDateTime(instant, timeZone);
+    const [hours, minutes] = time.split(':').map(Number);
+    const wallClock = toUtcDate(date).getTime() + (hours * 60 + minutes) * 60_000;
+    return Math.round((wallClock - Math.floor(instant.getTime() / 60_000) * 60_000) / 60_000);
+}
+
+/**
+ * ISO 8601 datetime with the timezone's offset, e.g. 2025-10-27T18:00:00+01:00.
+ * Without a time the start of the day is used.
+ */
+export function toZonedIso(date: string, time: string | null, timeZone: string): string {
+    const [hours, minutes] = (time ?? '00:00').split(':').map(Number);
+    const wallClock = toUtcDate(date).getTime() + (hours * 60 + minutes) * 60_000;
+
+    // The offset at the guessed instant can differ from the real one across a DST change
+    let offset = offsetMinutes(new Date(wallClock), timeZone);
+    offset = offsetMinutes(new Date(wallClock - offset * 60_000), timeZone);
+
+    const sign = offset < 0 ? '-' : '+';
+    const abs = Math.abs(offset);
+    return `${date}T${time ?? '00:00'}:00${sign}${pad(Math.floor(abs / 60))}:${pad(abs % 60)}`;
+}
+
+/**
+ * The instant a calendar day starts in the timezone, as a UTC ISO string
+ */
+export function startOfDayInstant(date: string, timeZone: string): string {
+    return new Date(toZonedIso(date, null, timeZone)).toISOString();
+}
@@ -0,0 +1,11 @@
+/* eslint-disable no-console */
+
+/**
+ * Where the server writes its log lines: the console, for now. Each call looks console up
+ * when it is made, so tests can still silence it with jest.spyOn(console, ...).
+ */
+export const logger = {
+    info: (...args: unknown[]) => console.log(...args),
+    warn: (...args: unknown[]) => console.warn(...args),
+    error: (...args: unknown[]) => console.error(...args),
+};
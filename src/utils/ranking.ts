@@ -0,0 +1,122 @@
+import { tokenize } from './text';
+
+const DAY_MS = 86_400_000;
+
+// Question words carry no topic, so they do not count as text matches
+const QUERY_STOPWORDS = [
+    'am',
+    'are',
+    'did',
+    'do',
+    'does',
+    'how',
+    'was',
+    'were',
+    'what',
+    'when',
+    'where',
+    'which',
+    'who',
+    'why',
+    'you',
+    'your',
+];
+
+/**
+ * How results from the vector and full-text searches are combined: weighted reciprocal-rank
+ * fusion, scaled by a recency decay that halves a result's boost every halfLifeDays
+ */
+export interface HybridRanking {
+    /** RRF constant; larger values flatten the difference between ranks */
+    rrfK: number;
+    vectorWeight: number;
+    textWeight: number;
+    /** 0 ignores age, 1 lets an old result's score decay to nothing */
+    recencyWeight: number;
+    recencyHalfLifeDays: number;
+}
+
+export interface RankCandidate {
+    id: number;
+    created_at: string;
+    /** Cosine similarity; only candidates at or above the threshold are vector hits */
+    similarity: number;
+    /** Full-text rank; 0 means no query word matched */
+    text_rank: number;
+}
+
+export function queryTerms(text: string): string[] {
+    return [...new Set(tokenize(text, QUERY_STOPWORDS))];
+}
+
+/**
+ * Share of the query terms that appear as words in the content, in [0..1]. Any one term is
+ * enough to match, like the OR-ed tsquery the SQL search uses.
+ */
+export function textRank(terms: string[], content: string): number {
+    if (!terms.length) return 0;
+    const words = new Set(content.toLowerCase().match(/[a-z0-9]+/g) ?? []);
+    return terms.filter(term => words.has(term)).length / terms.length;
+}
+
+export function recencyFactor(createdAt: string, ranking: HybridRanking, now: number): number {
+    const ageDays = Math.max(0, now - Date.parse(createdAt)) / DAY_MS;
+    const decay = Math.pow(0.5, ageDays / ranking.recencyHalfLifeDays);
+    return 1 - ranking.recencyWeight + ranking.recencyWeight * decay;
+}
+
+// 1-based positions of the best `limit` candidates by a score, among those that qualify
+function ranks<T extends RankCandidate>(
+    candidates: T[],
+    score: (candidate: T) => number,
+    qualifies: (candidate: T) => boolean,
+    limit: number
+): Map<number, number> {
+    const ordered = candidates
+        .filter(qualifies)
+        .sort((a, b) => score(b) - score(a))
+        .slice(0, limit);
+    return new Map(ordered.map((candidate, index) => [candidate.id, index + 1]));
+}
+
+/**
+ * Fuse vector and full-text hits into one ranking, best first. Each list contributes its
+ * top `poolSize` candidates; the same formula backs the hybrid_match_memories SQL function.
+ */
+export function fuseRankings<T extends RankCandidate>(
+    candidates: T[],
+    options: { threshold: number; poolSize: number; ranking: HybridRanking; now?: number }
+): (T & { score: number })[] {
+    const { ranking, poolSize } = options;
+    const now = options.now ?? Date.now();
+
+    const vectorRanks = ranks(
+        candidates,
+        candidate => candidate.similarity,
+        candidate => candidate.similarity >= options.threshold,
+        poolSize
+    );
+    const textRanks = ranks(
+        candidates,
+        candidate => candidate.text_rank,
+        candidate => candidate.text_rank > 0,
+        poolSize
+    );
+
+    return candidates
+        .filter(candidate => vectorRanks.has(candidate.id) || textRanks.has(candidate.id))
+        .map(candidate => {
+            const vectorRank = vectorRanks.get(candidate.id);
+            const textRank = textRanks.get(candidate.id);
+            const base =
+                (vectorRank ? ranking.vectorWeight / (ranking.rrfK + vectorRank) : 0) +
+                (textRank ? ranking.textWeight / (ranking.rrfK + textRank) : 0);
+            return {
+                ...candidate,
+                score: base * recencyFactor(candidate.created_at, ranking, now),
+            };
+        })
+        .sort(
+            (a, b) => b.score - a.score || b.created_at.localeCompare(a.created_at) || b.id - a.id
+        );
+}
@@ -0,0 +1,236 @@
+import { addDays, addMonths, endOfMonth, isValidDate, startOfMonth, startOfWeek } from './datetime';
+
+/**
+ * Recurrence rules are stored as an RFC 5545 RRULE subset: FREQ (DAILY, WEEKLY, MONTHLY),
+ * INTERVAL, BYDAY (weekly only), BYMONTHDAY (monthly only) and UNTIL. COUNT and the other
+ * parts are rejected rather than silently ignored.
+ */
+export interface RecurrenceRule {
+    freq: 'DAILY' | 'WEEKLY' | 'MONTHLY';
+    interval: number;
+    /** Weekdays for weekly rules, 0 = Sunday */
+    byDay?: number[];
+    /** Day of the month for monthly rules; months without it use their last day */
+    byMonthDay?: number;
+    /** Last allowed date, inclusive */
+    until?: string;
+}
+
+const RRULE_DAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const WEEKDAY_NAMES = [
+    'sunday',
+    'monday',
+    'tuesday',
+    'wednesday',
+    'thursday',
+    'friday',
+    'saturday',
+];
+const UNITS: Record<string, RecurrenceRule['freq']> = {
+    day: 'DAILY',
+    week: 'WEEKLY',
+    month: 'MONTHLY',
+};
+
+function parseRRule(text: string): RecurrenceRule | null {
+    const parts = new Map<string, string>();
+    for (const part of text.replace(/^rrule:/i, '').split(';')) {
+        const [key, value] = part.split('=');
+        if (!key || !value || parts.has(key.toUpperCase())) return null;
+        parts.set(key.toUpperCase(), value.toUpperCase());
+    }
+
+    const freq = parts.get('FREQ');
+    if (freq !== 'DAILY' && freq !== 'WEEKLY' && freq !== 'MONTHLY') return null;
+    const rule: RecurrenceRule = { freq, interval: 1 };
+
+    for (const [key, value] of parts) {
+        switch (key) {
+            case 'FREQ':
+                break;
+            case 'INTERVAL':
+                rule.interval = Number(value);
+                if (!Number.isInteger(rule.interval) || rule.interval < 1) return null;
+                break;
+            case 'BYDAY': {
+                const days = value.split(',').map(day => RRULE_DAYS.indexOf(day));
+                if (freq !== 'WEEKLY' || days.some(day => day < 0)) return null;
+                rule.byDay = [...new Set(days)].sort((a, b) => a - b);
+                break;
+            }
+            case 'BYMONTHDAY':
+                rule.byMonthDay = Number(value);
+                if (freq !== 'MONTHLY' || !Number.isInteger(rule.byMonthDay)) return null;
+                if (rule.byMonthDay < 1 || rule.byMonthDay > 31) return null;
+                break;
+            case 'UNTIL': {
+                const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+                const until = match && `${match[1]}-${match[2]}-${match[3]}`;
+                if (!until || !isValidDate(until)) return null;
+                rule.until = until;
+                break;
+            }
+            default:
+                return null;
+        }
+    }
+    return rule;
+}
+
+function weekdayIndex(word: string): number {
+    const singular = word.replace(/s$/, '');
+    return WEEKDAY_NAMES.findIndex(
+        day => day === singular || (singular.length >= 3 && day.startsWith(singular))
+    );
+}
+
+// Everyday phrasings: "daily", "every other week", "every monday and thursday", "weekdays"
+function parsePhrase(text: string): RecurrenceRule | null {
+    const phrase = text
+        .toLowerCase()
+        .replace(/[,.]/g, ' ')
+        .replace(/\s+/g, ' ')
+        .trim()
+        .replace(/^(repeat(s|ing)? |recurring )/, '');
+
+    switch (phrase) {
+        case 'daily':
+        case 'every day':
+        case 'each day':
+            return { freq: 'DAILY', interval: 1 };
+        case 'weekly':
+        case 'every week':
+        case 'each week':
+            return { freq: 'WEEKLY', interval: 1 };
+        case 'monthly':
+        case 'every month':
+        case 'each month':
+            return { freq: 'MONTHLY', interval: 1 };
+        case 'weekdays':
+        case 'every weekday':
+        case 'on weekdays':
+            return { freq: 'WEEKLY', interval: 1, byDay: [1, 2, 3, 4, 5] };
+        case 'weekends':
+        case 'every weekend':
+            return { freq: 'WEEKLY', interval: 1, byDay: [0, 6] };
+    }
+
+    let match = phrase.match(/^every (other|\d+) (day|week|month)s?$/);
+    if (match) {
+        const interval = match[1] === 'other' ? 2 : Number(match[1]);
+        return interval >= 1 ? { freq: UNITS[match[2]], interval } : null;
+    }
+
+    match = phrase.match(
+        /^(?:(?:every|each) month on|monthly on|on) the (\d{1,2})(?:st|nd|rd|th)?(?: of (?:every|each) month)?$/
+    );
+    if (match) {
+        const day = Number(match[1]);
+        return day >= 1 && day <= 31 ? { freq: 'MONTHLY', interval: 1, byMonthDay: day } : null;
+    }
+
+    match = phrase.match(/^(?:every|each|on) (.+)$/);
+    if (match) {
+        const words = match[1].split(/ and | /).filter(Boolean);
+        const days = words.map(weekdayIndex);
+        if (days.length && days.every(day => day >= 0)) {
+            return { freq: 'WEEKLY', interval: 1, byDay: [...new Set(days)].sort((a, b) => a - b) };
+        }
+    }
+    return null;
+}
+
+/**
+ * Read an RRULE ("FREQ=WEEKLY;BYDAY=MO,WE") or a plain phrase ("every Monday and Wednesday")
+ */
+export function parseRecurrence(text: string): RecurrenceRule | null {
+    const trimmed = text.trim();
+    if (!trimmed) return null;
+    return /freq=/i.test(trimmed) ? parseRRule(trimmed) : parsePhrase(trimmed);
+}
+
+/** Canonical RRULE text, as stored on the task */
+export function formatRecurrence(rule: RecurrenceRule): string {
+    const parts = [`FREQ=${rule.freq}`];
+    if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+    if (rule.byDay?.length) parts.push(`BYDAY=${rule.byDay.map(day => RRULE_DAYS[day]).join(',')}`);
+    if (rule.byMonthDay) parts.push(`BYMONTHDAY=${rule.byMonthDay}`);
+    if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, '')}`);
+    return parts.join(';');
+}
+
+/** Human-readable form for replies, e.g. "every 2 weeks on Monday and Thursday" */
+export function describeRecurrence(rule: RecurrenceRule): string {
+    const unit = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month' }[rule.freq];
+    let text = rule.interval > 1 ? `every ${rule.interval} ${unit}s` : `every ${unit}`;
+
+    if (rule.byDay?.length) {
+        const names = rule.byDay.map(
+            day => WEEKDAY_NAMES[day][0].toUpperCase() + WEEKDAY_NAMES[day].slice(1)
+        );
+        const list =
+            names.length > 1
+                ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`
+                : names[0];
+        text = rule.interval > 1 ? `${text} on ${list}` : `every ${list}`;
+    }
+    if (rule.byMonthDay) text += ` on day ${rule.byMonthDay}`;
+    if (rule.until) text += ` until ${rule.until}`;
+    return text;
+}
+
+function monthlyOn(date: string, day: number): string {
+    const last = Number(endOfMonth(date).slice(8));
+    return `${date.slice(0, 8)}${String(Math.min(day, last)).padStart(2, '0')}`;
+}
+
+/**
+ * The first date after `after` that the rule produces, or null once UNTIL has passed.
+ * Weekly intervals count whole weeks (Monday to Sunday) from `after`.
+ */
+export function nextOccurrence(rule: RecurrenceRule, after: string): string | null {
+    let next: string;
+
+    switch (rule.freq) {
+        case 'DAILY':
+            next = addDays(after, rule.interval);
+            break;
+        case 'WEEKLY': {
+            if (!rule.byDay?.length) {
+                next = addDays(after, 7 * rule.interval);
+                break;
+            }
+            const week = startOfWeek(after);
+            // Remaining days this week, otherwise the first listed day `interval` weeks on
+            const later = rule.byDay
+                .map(day => addDays(week, (day + 6) % 7))
+                .filter(date => date > after)
+                .sort();
+            const firstDay = Math.min(...rule.byDay.map(day => (day + 6) % 7));
+            next = later[0] ?? addDays(week, 7 * rule.interval + firstDay);
+            break;
+        }
+        case 'MONTHLY': {
+            const day = rule.byMonthDay ?? Number(after.slice(8));
+            const thisMonth = monthlyOn(after, day);
+            next =
+                rule.byMonthDay && thisMonth > after
+                    ? thisMonth
+                    : monthlyOn(addMonths(startOfMonth(after), rule.interval), day);
+            break;
+        }
+    }
+
+    return rule.until && next > rule.until ? null : next;
+}
+
+/**
+ * The first date on or after `from` that the rule produces, used when a recurring task is
+ * created without a due date
+ */
+export function firstOccurrence(rule: RecurrenceRule, from: string): string | null {
+    if (!rule.byDay?.length && !rule.byMonthDay) {
+        return rule.until && from > rule.until ? null : from;
+    }
+    return nextOccurrence({ ...rule, interval: 1 }, addDays(from, -1));
+}
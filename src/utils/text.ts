@@ -0,0 +1,74 @@
+const STOPWORDS = new Set([
+    'a',
+    'about',
+    'all',
+    'an',
+    'and',
+    'called',
+    'for',
+    'i',
+    'in',
+    'is',
+    'it',
+    'me',
+    'my',
+    'named',
+    'of',
+    'on',
+    'one',
+    'please',
+    'that',
+    'the',
+    'this',
+    'to',
+    'with',
+]);
+
+/**
+ * Lowercase word tokens without common filler words
+ */
+export function tokenize(text: string, extraStopwords: Iterable<string> = []): string[] {
+    const stop = new Set([...STOPWORDS, ...extraStopwords]);
+    return (text.toLowerCase().match(/[a-z0-9]+/g) ?? []).filter(token => !stop.has(token));
+}
+
+export function levenshtein(a: string, b: string): number {
+    if (a === b) return 0;
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(
+                previous[j] + 1,
+                current[j - 1] + 1,
+                previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+            );
+        }
+        previous = current;
+    }
+    return previous[b.length];
+}
+
+// 1 for equal tokens, partial credit for shared stems and small typos
+function tokenSimilarity(a: string, b: string): number {
+    if (a === b) return 1;
+    const shorter = a.length < b.length ? a : b;
+    const longer = a.length < b.length ? b : a;
+    if (shorter.length >= 4 && longer.startsWith(shorter)) return 0.9;
+    if (shorter.length >= 4 && levenshtein(a, b) <= (longer.length >= 8 ? 2 : 1)) return 0.8;
+    return 0;
+}
+
+/**
+ * How well the query tokens are covered by the candidate tokens, in [0..1].
+ * Each query token takes its best fuzzy match among the candidate tokens.
+ */
+export function fuzzyCoverage(queryTokens: string[], candidateTokens: string[]): number {
+    if (!queryTokens.length || !candidateTokens.length) return 0;
+    const total = queryTokens.reduce(
+        (sum, query) =>
+            sum + Math.max(...candidateTokens.map(candidate => tokenSimilarity(query, candidate))),
+        0
+    );
+    return total / queryTokens.length;
+}
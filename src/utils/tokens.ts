@@ -0,0 +1,7 @@
+/**
+ * Rough token estimate (~4 characters per token for English text). Good enough for
+ * budgeting prompt context without pulling in a model-specific tokenizer.
+ */
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+}